@@ -0,0 +1,89 @@
+import express, { Express } from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import swaggerUi from 'swagger-ui-express';
+import { swaggerSpec } from './config/swagger';
+
+// Import routes
+import authRoutes from './routes/auth';
+import tokenRoutes from './routes/token';
+import usuariosRoutes from './routes/usuarios';
+import productosRoutes from './routes/productos';
+import clientesRoutes from './routes/clientes';
+import pedidosRoutes from './routes/pedidos';
+import pedidosEncryptionRoutes from './routes/pedidos-encryption';
+import encryptionRoutes from './routes/encryption';
+import analyticsRoutes from './routes/analytics';
+import adminRoutes from './routes/admin';
+import healthRoutes from './routes/health';
+
+// Import middlewares
+import { ErrorMiddleware } from './middlewares/ErrorMiddleware';
+import { MetricsMiddleware } from './middlewares/MetricsMiddleware';
+import { RateLimitMiddleware } from './middlewares/RateLimitMiddleware';
+import { REQUEST_ID_HEADER, RequestIdMiddleware } from './middlewares/RequestIdMiddleware';
+import { SecurityMiddleware } from './middlewares/SecurityMiddleware';
+import { config } from './config';
+import { RATE_LIMIT_POLICIES } from './constants';
+
+/**
+ * Build the Express application
+ * Opens no port and touches no external service, so tests can use it directly.
+ */
+export function createApp(): Express {
+  const app = express();
+
+  if (config.rateLimit.trustProxy !== undefined) {
+    app.set('trust proxy', config.rateLimit.trustProxy);
+  }
+
+  // Middleware
+  // First, so latency includes body parsing
+  app.use(MetricsMiddleware.record);
+  app.use(helmet());
+  app.use(cors({ exposedHeaders: [REQUEST_ID_HEADER] }));
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+  // After the body parsers: their callbacks would drop the request's async context
+  app.use(RequestIdMiddleware.assign);
+  app.use(SecurityMiddleware.requestLogger);
+
+  // Swagger documentation
+  app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
+
+  // Routes
+  app.use('/api', RateLimitMiddleware.limit(RATE_LIMIT_POLICIES.API));
+  app.use('/api/auth', authRoutes);
+  app.use('/api/token', tokenRoutes);
+  app.use('/api/usuarios', usuariosRoutes);
+  app.use('/api/productos', productosRoutes);
+  app.use('/api/clientes', clientesRoutes);
+  app.use('/api/pedidos', pedidosRoutes);
+  app.use('/api/pedidos-encryption', pedidosEncryptionRoutes);
+  app.use('/api/encryption', encryptionRoutes);
+  app.use('/api/analytics', analyticsRoutes);
+  app.use('/api/admin', adminRoutes);
+
+  // Basic route
+  app.get('/', (req, res) => {
+    res.json({
+      message: 'SportsLine API',
+      version: '1.0.0',
+      status: 'running',
+      documentation: '/api-docs'
+    });
+  });
+
+  // Liveness and readiness probes
+  app.use('/health', healthRoutes);
+
+  // Prometheus metrics
+  app.get('/metrics', MetricsMiddleware.expose);
+
+  // Error handling middleware
+  app.use(ErrorMiddleware.errorHandler);
+
+  return app;
+}
+
+export default createApp;
@@ -257,6 +257,20 @@ export const swaggerConfig = {
                     totalPages: {
                       type: 'number',
                       example: 10
+                    },
+                    nextCursor: {
+                      type: 'string',
+                      nullable: true,
+                      description: 'Solo con paginación por cursor: cursor para pedir la página siguiente (after)'
+                    },
+                    prevCursor: {
+                      type: 'string',
+                      nullable: true,
+                      description: 'Solo con paginación por cursor: cursor para pedir la página anterior (before)'
+                    },
+                    hasMore: {
+                      type: 'boolean',
+                      description: 'Solo con paginación por cursor: hay más resultados después de esta página'
                     }
                   }
                 }
@@ -407,6 +421,16 @@ export const swaggerConfig = {
               example: 50,
               description: 'Cantidad en stock'
             },
+            stockReservado: {
+              type: 'number',
+              example: 5,
+              description: 'Unidades reservadas por pedidos pendientes'
+            },
+            disponible: {
+              type: 'number',
+              example: 45,
+              description: 'Unidades disponibles para vender (stock - stockReservado)'
+            },
             categoria: {
               type: 'string',
               example: 'Fútbol',
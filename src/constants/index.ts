@@ -54,6 +54,32 @@ export const ORDER_STATUS_TRANSITIONS = {
   [ORDER_STATUS.CANCELADO]: []
 } as const;
 
+// Order statuses that count as a sale in revenue figures
+export const SALE_ORDER_STATUSES = [ORDER_STATUS.CONFIRMADO, ORDER_STATUS.ENVIADO, ORDER_STATUS.ENTREGADO] as const;
+
+// Associations a pedido listing can eager-load
+export const PEDIDO_INCLUDES = ['detalles', 'detalles.producto', 'cliente', 'usuario'] as const;
+
+// Pedido columns a listing can select; encrypted data is never exposed
+export const PEDIDO_FIELDS = [
+  'id', 'clienteId', 'usuarioId', 'fecha', 'total', 'estado', 'observaciones', 'referenciaEnvio', 'createdAt', 'updatedAt'
+] as const;
+
+// Sales time series: default range (in buckets) when from is omitted, and the largest range accepted
+export const SALES_TIMESERIES = {
+  DEFAULT_BUCKETS: { day: 30, week: 12, month: 12 },
+  MAX_BUCKETS: 400,
+  DEFAULT_TIMEZONE: 'UTC'
+} as const;
+
+// Producto full-text search: Spanish stemming with accents folded by unaccent
+export const PRODUCT_SEARCH = {
+  TS_CONFIG: 'es_unaccent',
+  MAX_TERMS: 8,
+  DEFAULT_LIMIT: 20,
+  MAX_LIMIT: 50
+} as const;
+
 // Document Types
 export const DOCUMENT_TYPES = {
   CEDULA: 'cedula',
@@ -230,12 +256,22 @@ export const FILE_UPLOAD = {
   UPLOAD_PATH: 'uploads/'
 } as const;
 
-// Rate Limiting
-export const RATE_LIMITING = {
-  WINDOW_MS: 15 * 60 * 1000, // 15 minutes
-  MAX_REQUESTS: 100,
-  SKIP_SUCCESSFUL_REQUESTS: false,
-  SKIP_FAILED_REQUESTS: false
+// Rate Limiting policies, applied per route by RateLimitMiddleware.limit
+export const RATE_LIMIT_POLICIES = {
+  // Every /api request, per client IP
+  API: { name: 'api', algorithm: 'sliding-window', limit: 300, windowMs: 60 * 1000, keyBy: 'ip' },
+  // Password guessing: per client IP, counting failed and successful attempts alike
+  LOGIN: { name: 'login', algorithm: 'sliding-window', limit: 10, windowMs: 15 * 60 * 1000, keyBy: 'ip' },
+  REGISTER: { name: 'register', algorithm: 'sliding-window', limit: 5, windowMs: 60 * 60 * 1000, keyBy: 'ip' },
+  // Global search is the most expensive read: bursts allowed, refilled over a minute, per user
+  SEARCH: {
+    name: 'search',
+    algorithm: 'token-bucket',
+    limit: 30,
+    windowMs: 60 * 1000,
+    keyBy: 'user',
+    limitByRole: { admin: 120 }
+  }
 } as const;
 
 // Security
@@ -259,7 +295,11 @@ export const TABLES = {
   PRODUCTOS: 'productos',
   CLIENTES: 'clientes',
   PEDIDOS: 'pedidos',
-  DETALLE_PEDIDOS: 'detalle_pedidos'
+  DETALLE_PEDIDOS: 'detalle_pedidos',
+  REFRESH_TOKENS: 'refresh_tokens',
+  PEDIDO_ESTADO_HISTORIAL: 'pedido_estado_historial',
+  MOVIMIENTOS_INVENTARIO: 'movimientos_inventario',
+  RESERVAS_STOCK: 'reservas_stock'
 } as const;
 
 // Database Columns
@@ -0,0 +1,16 @@
+import { Request, Response } from 'express';
+import { config, redactConfig } from '../config';
+import { ResponseHelper } from '../utils/helpers';
+
+export class AdminController {
+  /**
+   * Get the running configuration with secrets redacted
+   */
+  public getConfig = async (req: Request, res: Response): Promise<void> => {
+    try {
+      ResponseHelper.success(res, redactConfig(config), 'Configuration retrieved successfully');
+    } catch (error) {
+      ResponseHelper.error(res, 'Error retrieving configuration', 500, error);
+    }
+  };
+}
@@ -1,7 +1,12 @@
 import { Request, Response } from 'express';
 import { DAOManager } from '../dao';
+import { SalesBucket, SalesGroupBy } from '../dao/PedidoDAO';
+import { PedidoEstado } from '../models/PedidoEstadoHistorial';
 import { ResponseHelper } from '../utils/helpers';
 import { AuthMiddleware } from '../middlewares/AuthMiddleware';
+import { SALE_ORDER_STATUSES, SALES_TIMESERIES } from '../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export class AnalyticsController {
   private daoManager: DAOManager;
@@ -27,19 +32,58 @@ export class AnalyticsController {
   };
 
   /**
-   * Perform global search across all entities
+   * Get the sales time series aggregated per day, week or month
+   */
+  public getSalesTimeSeries = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const bucket = (req.query.bucket as SalesBucket) || 'day';
+      const timezone = (req.query.timezone as string) || SALES_TIMESERIES.DEFAULT_TIMEZONE;
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from ? new Date(req.query.from as string) : this.defaultSalesFrom(bucket, to);
+      const estados = req.query.estado
+        ? (req.query.estado as string).split(',') as PedidoEstado[]
+        : [...SALE_ORDER_STATUSES];
+
+      if (from >= to) {
+        ResponseHelper.validationError(res, 'from must be before to');
+        return;
+      }
+
+      if (this.countBuckets(bucket, from, to) > SALES_TIMESERIES.MAX_BUCKETS) {
+        ResponseHelper.validationError(res, `Range too large: at most ${SALES_TIMESERIES.MAX_BUCKETS} buckets per request`);
+        return;
+      }
+
+      const series = await this.daoManager.getSalesTimeSeries({
+        bucket,
+        from,
+        to,
+        timezone,
+        estados,
+        groupBy: req.query.groupBy as SalesGroupBy | undefined
+      });
+
+      ResponseHelper.success(res, series, 'Sales time series retrieved successfully');
+
+    } catch (error) {
+      ResponseHelper.error(res, 'Error retrieving sales time series', 500, error);
+    }
+  };
+
+  /**
+   * Perform global search across all entities, ranked, within what the caller may see
    */
   public globalSearch = async (req: Request, res: Response): Promise<void> => {
     try {
       const searchTerm = req.query.q as string;
-      const limit = parseInt(req.query.limit as string) || 10;
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
 
       if (!searchTerm || searchTerm.trim().length < 2) {
         ResponseHelper.validationError(res, 'Search term must be at least 2 characters long');
         return;
       }
 
-      const results = await this.daoManager.globalSearch(searchTerm.trim(), limit);
+      const results = await this.daoManager.globalSearch(searchTerm.trim(), limit, req.user!);
       
       ResponseHelper.success(res, {
         ...results,
@@ -167,4 +211,24 @@ export class AnalyticsController {
       ResponseHelper.error(res, 'Error retrieving entity relationships', 500, error);
     }
   };
+
+  private defaultSalesFrom(bucket: SalesBucket, to: Date): Date {
+    const buckets = SALES_TIMESERIES.DEFAULT_BUCKETS[bucket];
+
+    if (bucket === 'month') {
+      return new Date(to.getFullYear(), to.getMonth() - buckets + 1, 1);
+    }
+
+    const days = bucket === 'week' ? buckets * 7 : buckets;
+    return new Date(to.getTime() - days * DAY_MS);
+  }
+
+  private countBuckets(bucket: SalesBucket, from: Date, to: Date): number {
+    if (bucket === 'month') {
+      return (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth() + 1;
+    }
+
+    const days = (to.getTime() - from.getTime()) / DAY_MS;
+    return Math.ceil(bucket === 'week' ? days / 7 : days) + 1;
+  }
 }
@@ -88,7 +88,10 @@ export class AuthController {
       }
 
       // Authenticate user
-      const result = await this.authService.login(loginData);
+      const result = await this.authService.login(loginData, {
+        userAgent: req.get('User-Agent'),
+        ipAddress: req.ip
+      });
       
       if (!result) {
         ResponseHelper.error(res, 'Invalid credentials', 401);
@@ -172,4 +175,47 @@ export class AuthController {
       ResponseHelper.error(res, 'Error updating profile', 500, error);
     }
   };
+
+  /**
+   * Invalidate every session of the caller, or of another user when the caller is admin
+   */
+  public logoutAll = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const caller = (req as any).user;
+
+      if (!caller) {
+        ResponseHelper.error(res, 'User not authenticated', 401);
+        return;
+      }
+
+      const targetId = req.body?.usuarioId !== undefined ? parseInt(req.body.usuarioId) : caller.id;
+
+      if (isNaN(targetId)) {
+        ResponseHelper.validationError(res, 'usuarioId must be a number');
+        return;
+      }
+
+      if (targetId !== caller.id && caller.rol !== 'admin') {
+        ResponseHelper.error(res, 'Admin access required', 403);
+        return;
+      }
+
+      const user = await this.authService.getUserById(targetId);
+
+      if (!user) {
+        ResponseHelper.error(res, 'User not found', 404);
+        return;
+      }
+
+      const revokedRefreshTokens = await this.authService.logoutAll(targetId);
+
+      ResponseHelper.success(res, {
+        usuarioId: targetId,
+        revokedRefreshTokens
+      }, 'All sessions logged out successfully');
+
+    } catch (error) {
+      ResponseHelper.error(res, 'Error logging out sessions', 500, error);
+    }
+  };
 }
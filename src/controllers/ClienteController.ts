@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { ClienteDAO } from '../dao/ClienteDAO';
 import { ResponseHelper } from '../utils/helpers';
+import { CursorError, parseCursorQuery } from '../dao/CursorPaginator';
+import { ListQueryError } from '../dao/ListQuery';
 import { ValidationMiddleware } from '../middlewares/ValidationMiddleware';
 import { clientSchemas } from '../dto/validationSchemas';
 
@@ -22,6 +24,15 @@ export class ClienteController {
         search: req.query.search as string | undefined
       };
 
+      const query = { filter: req.query.filter, sort: req.query.sort };
+
+      const cursorPage = parseCursorQuery(req.query);
+      if (cursorPage) {
+        const { clientes, pageInfo } = await this.clienteDAO.findClientesPage({ filters, page: cursorPage, query });
+        ResponseHelper.paginated(res, 'clientes', clientes, pageInfo, 'Clientes retrieved successfully');
+        return;
+      }
+
       const pagination = {
         page: parseInt(req.query.page as string) || 1,
         limit: parseInt(req.query.limit as string) || 10
@@ -29,21 +40,23 @@ export class ClienteController {
 
       const result = await this.clienteDAO.findAll({
         filters,
+        query,
         pagination,
         order: [['createdAt', 'DESC']]
       });
 
-      ResponseHelper.success(res, {
-        clientes: result.clientes,
-        pagination: {
-          page: result.page,
-          limit: result.limit,
-          total: result.total,
-          totalPages: result.totalPages
-        }
+      ResponseHelper.paginated(res, 'clientes', result.clientes, {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        totalPages: result.totalPages
       }, 'Clientes retrieved successfully');
 
     } catch (error) {
+      if (error instanceof CursorError || error instanceof ListQueryError) {
+        ResponseHelper.badRequest(res, error.message);
+        return;
+      }
       ResponseHelper.error(res, 'Error retrieving clientes', 500, error);
     }
   };
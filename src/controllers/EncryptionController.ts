@@ -1,31 +1,41 @@
 import { Request, Response } from 'express';
-import { HybridEncryptionService } from '../services/HybridEncryptionService';
+import { HybridEncryptionService, EncryptionEnvelopeError } from '../services/HybridEncryptionService';
+import { PedidoEncryptionService } from '../services/PedidoEncryptionService';
+import { keyManager, KeyManagerError, KeyStatus } from '../services/KeyManager';
 import { ResponseHelper } from '../utils/helpers';
 import { Logger } from '../utils/helpers';
 
 export class EncryptionController {
   private encryptionService: HybridEncryptionService;
+  private pedidoEncryptionService: PedidoEncryptionService;
 
   constructor() {
     this.encryptionService = new HybridEncryptionService();
+    this.pedidoEncryptionService = new PedidoEncryptionService();
   }
 
   /**
    * Generate RSA key pair
+   * The private key stays in the keystore as a decrypt-only key; only the public key and its id are returned
    */
   public generateKeyPair = async (req: Request, res: Response): Promise<void> => {
     try {
       const keyPair = this.encryptionService.generateRSAKeyPair();
+      const { id: keyId } = keyManager.addKeyPair(keyPair.publicKey, keyPair.privateKey);
       
       ResponseHelper.success(res, {
+        keyId,
         publicKey: keyPair.publicKey,
-        privateKey: keyPair.privateKey,
         algorithm: 'RSA-2048',
         format: 'PEM'
       }, 'RSA key pair generated successfully');
 
     } catch (error) {
       Logger.error('Error generating key pair:', error);
+      if (error instanceof KeyManagerError) {
+        ResponseHelper.error(res, error.message, error.statusCode);
+        return;
+      }
       ResponseHelper.error(res, 'Error generating key pair', 500, error);
     }
   };
@@ -42,12 +52,11 @@ export class EncryptionController {
         return;
       }
 
-      const result = this.encryptionService.hybridEncrypt(JSON.stringify(data), publicKey);
+      const envelope = this.encryptionService.hybridEncrypt(JSON.stringify(data), publicKey);
       
       ResponseHelper.success(res, {
-        encryptedData: result.encryptedData,
-        encryptedKey: result.encryptedKey,
-        iv: result.iv,
+        envelope: JSON.stringify(envelope),
+        keyId: envelope.kid,
         algorithm: 'AES-256-GCM + RSA-2048'
       }, 'Data encrypted successfully');
 
@@ -62,14 +71,14 @@ export class EncryptionController {
    */
   public decryptData = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { encryptedData, encryptedKey, iv, privateKey } = req.body;
+      const { envelope } = req.body;
 
-      if (!encryptedData || !encryptedKey || !iv || !privateKey) {
-        ResponseHelper.validationError(res, 'encryptedData, encryptedKey, iv, and privateKey are required');
+      if (!envelope) {
+        ResponseHelper.validationError(res, 'envelope is required');
         return;
       }
 
-      const result = this.encryptionService.hybridDecrypt(encryptedData, encryptedKey, iv, privateKey);
+      const result = this.encryptionService.hybridDecrypt(envelope, this.privateKeyFor(req, envelope));
       
       ResponseHelper.success(res, {
         decryptedData: JSON.parse(result.decryptedData),
@@ -78,6 +87,10 @@ export class EncryptionController {
 
     } catch (error) {
       Logger.error('Error decrypting data:', error);
+      if (error instanceof EncryptionEnvelopeError || error instanceof KeyManagerError) {
+        ResponseHelper.error(res, error.message, error.statusCode);
+        return;
+      }
       ResponseHelper.error(res, 'Error decrypting data', 500, error);
     }
   };
@@ -94,12 +107,11 @@ export class EncryptionController {
         return;
       }
 
-      const result = this.encryptionService.encryptUserData(userData, publicKey);
+      const envelope = this.encryptionService.encryptUserData(userData, publicKey);
       
       ResponseHelper.success(res, {
-        encryptedData: result.encryptedData,
-        encryptedKey: result.encryptedKey,
-        iv: result.iv,
+        envelope: JSON.stringify(envelope),
+        keyId: envelope.kid,
         encryptedFields: ['password', 'email', 'documento'],
         algorithm: 'AES-256-GCM + RSA-2048'
       }, 'User data encrypted successfully');
@@ -115,14 +127,14 @@ export class EncryptionController {
    */
   public decryptUserInfo = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { encryptedData, encryptedKey, iv, privateKey } = req.body;
+      const { envelope } = req.body;
 
-      if (!encryptedData || !encryptedKey || !iv || !privateKey) {
-        ResponseHelper.validationError(res, 'encryptedData, encryptedKey, iv, and privateKey are required');
+      if (!envelope) {
+        ResponseHelper.validationError(res, 'envelope is required');
         return;
       }
 
-      const result = this.encryptionService.decryptUserData(encryptedData, encryptedKey, iv, privateKey);
+      const result = this.encryptionService.decryptUserData(envelope, this.privateKeyFor(req, envelope));
       
       ResponseHelper.success(res, {
         decryptedData: result,
@@ -131,6 +143,10 @@ export class EncryptionController {
 
     } catch (error) {
       Logger.error('Error decrypting user info:', error);
+      if (error instanceof EncryptionEnvelopeError || error instanceof KeyManagerError) {
+        ResponseHelper.error(res, error.message, error.statusCode);
+        return;
+      }
       ResponseHelper.error(res, 'Error decrypting user info', 500, error);
     }
   };
@@ -186,4 +202,81 @@ export class EncryptionController {
       ResponseHelper.error(res, 'Error generating random string', 500, error);
     }
   };
+
+  /**
+   * List encryption key versions (without key material)
+   */
+  public listKeys = async (req: Request, res: Response): Promise<void> => {
+    try {
+      ResponseHelper.success(res, keyManager.listKeys(), 'Encryption keys retrieved successfully');
+    } catch (error) {
+      Logger.error('Error listing encryption keys:', error);
+      ResponseHelper.error(res, 'Error listing encryption keys', 500, error);
+    }
+  };
+
+  /**
+   * Rotate the data key and re-encrypt stored pedido payloads with it
+   */
+  public rotateKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { keyId, batchSize } = req.body;
+
+      const rotation = keyManager.rotate(keyId);
+      const reencryption = await this.pedidoEncryptionService.reencryptStoredPedidos(batchSize);
+
+      ResponseHelper.success(res, {
+        keyId: rotation.keyId,
+        previousKeyId: rotation.previousKeyId,
+        pedidos: {
+          processed: reencryption.processed,
+          reencrypted: reencryption.reencrypted,
+          failed: reencryption.failed
+        }
+      }, 'Encryption key rotated successfully');
+
+    } catch (error) {
+      Logger.error('Error rotating encryption key:', error);
+      if (error instanceof KeyManagerError) {
+        ResponseHelper.error(res, error.message, error.statusCode);
+        return;
+      }
+      ResponseHelper.error(res, 'Error rotating encryption key', 500, error);
+    }
+  };
+
+  /**
+   * Change the status of a key version (active, decrypt-only, retired)
+   */
+  public updateKeyStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const key = keyManager.setStatus(req.params.keyId, req.body.status as KeyStatus);
+
+      ResponseHelper.success(res, key, 'Encryption key updated successfully');
+
+    } catch (error) {
+      Logger.error('Error updating encryption key:', error);
+      if (error instanceof KeyManagerError) {
+        ResponseHelper.error(res, error.message, error.statusCode);
+        return;
+      }
+      ResponseHelper.error(res, 'Error updating encryption key', 500, error);
+    }
+  };
+
+  /**
+   * Private key for a decrypt request: the one in the body, otherwise the stored client
+   * key pair the envelope was sealed to, which only admins may use
+   */
+  private privateKeyFor(req: Request, envelope: any): string {
+    if (req.body.privateKey) {
+      return req.body.privateKey;
+    }
+
+    if (req.user?.rol !== 'admin') {
+      throw new KeyManagerError('privateKey is required', 403);
+    }
+
+    return keyManager.getClientPrivateKey(this.encryptionService.parseEnvelope(envelope).kid);
+  }
 }
@@ -0,0 +1,27 @@
+import { Request, Response } from 'express';
+import { HealthService, healthService } from '../services/HealthService';
+import { Logger } from '../utils/helpers';
+
+export class HealthController {
+  constructor(private readonly service: HealthService = healthService) {}
+
+  /**
+   * Liveness probe: the process is up and answering
+   */
+  public live = async (req: Request, res: Response): Promise<void> => {
+    res.json(this.service.liveness());
+  };
+
+  /**
+   * Readiness probe: 200 when every dependency check passes, 503 otherwise
+   */
+  public ready = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const report = await this.service.readiness();
+      res.status(report.status === 'ready' ? 200 : 503).json(report);
+    } catch (error) {
+      Logger.error('Error running readiness checks:', error);
+      res.status(503).json({ status: 'not_ready', timestamp: new Date().toISOString(), checks: {} });
+    }
+  };
+}
@@ -1,20 +1,27 @@
 import { Request, Response } from 'express';
-import { PedidoDAO } from '../dao/PedidoDAO';
+import { PedidoDAO, PedidoField, PedidoInclude, SalesBucket } from '../dao/PedidoDAO';
 import { ProductoDAO } from '../dao/ProductoDAO';
 import { ClienteDAO } from '../dao/ClienteDAO';
+import { PedidoService, PedidoError } from '../services/PedidoService';
+import { PedidoTransitionError } from '../services/PedidoStateMachine';
 import { ResponseHelper } from '../utils/helpers';
+import { CursorError, parseCursorQuery } from '../dao/CursorPaginator';
+import { ListQueryError } from '../dao/ListQuery';
 import { ValidationMiddleware } from '../middlewares/ValidationMiddleware';
 import { orderSchemas } from '../dto/validationSchemas';
+import { SALE_ORDER_STATUSES, SALES_TIMESERIES } from '../constants';
 
 export class PedidoController {
   private pedidoDAO: PedidoDAO;
   private productoDAO: ProductoDAO;
   private clienteDAO: ClienteDAO;
+  private pedidoService: PedidoService;
 
   constructor() {
     this.pedidoDAO = new PedidoDAO();
     this.productoDAO = new ProductoDAO();
     this.clienteDAO = new ClienteDAO();
+    this.pedidoService = new PedidoService();
   }
 
   /**
@@ -37,10 +44,7 @@ export class PedidoController {
         return;
       }
 
-      // Validate productos and check stock
-      const productos = [];
-      const stockUpdates = [];
-
+      // Validate productos; available stock is checked when it is reserved
       for (const item of pedidoData.productos) {
         const producto = await this.productoDAO.findById(item.productoId);
         
@@ -48,49 +52,23 @@ export class PedidoController {
           ResponseHelper.error(res, `Producto ${item.productoId} not found or inactive`, 404);
           return;
         }
-
-        if (producto.stock < item.cantidad) {
-          ResponseHelper.error(res, `Insufficient stock for producto ${producto.nombre}. Available: ${producto.stock}, Requested: ${item.cantidad}`, 400);
-          return;
-        }
-
-        productos.push({
-          productoId: item.productoId,
-          cantidad: item.cantidad,
-          precioUnitario: parseFloat(producto.precio.toString()),
-          pedidoId: 0, // Will be set when pedido is created
-          subtotal: parseFloat(producto.precio.toString()) * item.cantidad
-        });
-
-        stockUpdates.push({
-          productoId: item.productoId,
-          cantidad: item.cantidad,
-          operacion: 'subtract' as 'add' | 'subtract' | 'set'
-        });
       }
 
-      // Calculate total
-      const total = productos.reduce((sum, item) => sum + item.subtotal, 0);
-
-      // Create pedido with detalles
-      const pedido = await this.pedidoDAO.create({
+      // Create pedido with detalles and reserve stock in a single transaction
+      const pedido = await this.pedidoService.createPedido({
         clienteId: pedidoData.clienteId,
-        usuarioId,
-        fecha: new Date(),
-        estado: 'pendiente',
-        total,
-        observaciones: pedidoData.observaciones,
-        detalles: productos
-      });
-
-      // Update stock for all productos
-      for (const update of stockUpdates) {
-        await this.productoDAO.updateStock(update.productoId, update.cantidad, update.operacion);
-      }
+        productos: pedidoData.productos,
+        observaciones: pedidoData.observaciones
+      }, usuarioId);
 
       ResponseHelper.success(res, pedido, 'Pedido created successfully', 201);
 
     } catch (error) {
+      // Not enough stock left to reserve, including stock held by other pending orders
+      if (error instanceof Error && error.message.startsWith('Insufficient stock')) {
+        ResponseHelper.error(res, error.message, 409);
+        return;
+      }
       ResponseHelper.error(res, 'Error creating pedido', 500, error);
     }
   };
@@ -109,6 +87,23 @@ export class PedidoController {
         productoId: req.query.productoId ? parseInt(req.query.productoId as string) : undefined
       };
 
+      // detalles are returned unless the caller picks its own includes
+      const include = req.query.include
+        ? (req.query.include as string).split(',') as PedidoInclude[]
+        : ['detalles'] as PedidoInclude[];
+      const fields = req.query.fields
+        ? (req.query.fields as string).split(',') as PedidoField[]
+        : undefined;
+
+      const query = { filter: req.query.filter, sort: req.query.sort };
+
+      const cursorPage = parseCursorQuery(req.query);
+      if (cursorPage) {
+        const { pedidos, pageInfo } = await this.pedidoDAO.findPedidosPage({ filters, page: cursorPage, query, include, fields });
+        ResponseHelper.paginated(res, 'pedidos', pedidos, pageInfo, 'Pedidos retrieved successfully');
+        return;
+      }
+
       const pagination = {
         page: parseInt(req.query.page as string) || 1,
         limit: parseInt(req.query.limit as string) || 10
@@ -116,22 +111,25 @@ export class PedidoController {
 
       const result = await this.pedidoDAO.findAll({
         filters,
+        query,
         pagination,
         order: [['createdAt', 'DESC']],
-        includeDetails: true
+        include,
+        fields
       });
 
-      ResponseHelper.success(res, {
-        pedidos: result.pedidos,
-        pagination: {
-          page: result.page,
-          limit: result.limit,
-          total: result.total,
-          totalPages: result.totalPages
-        }
+      ResponseHelper.paginated(res, 'pedidos', result.pedidos, {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        totalPages: result.totalPages
       }, 'Pedidos retrieved successfully');
 
     } catch (error) {
+      if (error instanceof CursorError || error instanceof ListQueryError) {
+        ResponseHelper.badRequest(res, error.message);
+        return;
+      }
       ResponseHelper.error(res, 'Error retrieving pedidos', 500, error);
     }
   };
@@ -163,14 +161,18 @@ export class PedidoController {
   public updatePedidoEstado = async (req: Request, res: Response): Promise<void> => {
     try {
       const id = parseInt(req.params.id);
-      const { estado } = req.body;
+      const { estado, motivo, referenciaEnvio } = req.body;
 
       if (!['pendiente', 'confirmado', 'enviado', 'entregado', 'cancelado'].includes(estado)) {
         ResponseHelper.validationError(res, 'Invalid estado. Must be: pendiente, confirmado, enviado, entregado, or cancelado');
         return;
       }
 
-      const pedido = await this.pedidoDAO.updateEstado(id, estado);
+      const pedido = await this.pedidoDAO.updateEstado(id, estado, {
+        usuarioId: (req as any).user?.id,
+        motivo,
+        referenciaEnvio
+      });
       
       if (!pedido) {
         ResponseHelper.error(res, 'Pedido not found', 404);
@@ -180,7 +182,22 @@ export class PedidoController {
       ResponseHelper.success(res, pedido, 'Pedido estado updated successfully');
 
     } catch (error) {
-      ResponseHelper.error(res, 'Error updating pedido estado', 500, error);
+      this.handleEstadoError(res, error, 'Error updating pedido estado');
+    }
+  };
+
+  /**
+   * Move several pedidos to the same estado, reporting the ones that could not transition
+   */
+  public updatePedidosEstado = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { ids, estado, motivo } = req.body;
+
+      const result = await this.pedidoService.updatePedidosEstado(ids, estado, (req as any).user?.id, motivo);
+
+      ResponseHelper.success(res, result, `${result.updated.length} pedido(s) updated, ${result.failed.length} failed`);
+    } catch (error) {
+      ResponseHelper.error(res, 'Error updating pedidos estado', 500, error);
     }
   };
 
@@ -297,36 +314,79 @@ export class PedidoController {
   public cancelPedido = async (req: Request, res: Response): Promise<void> => {
     try {
       const id = parseInt(req.params.id);
-      
-      const pedido = await this.pedidoDAO.findById(id);
-      
-      if (!pedido) {
-        ResponseHelper.error(res, 'Pedido not found', 404);
-        return;
-      }
 
-      if (pedido.estado === 'cancelado') {
-        ResponseHelper.error(res, 'Pedido is already cancelled', 400);
-        return;
-      }
+      const updatedPedido = await this.pedidoService.cancelPedido(id, (req as any).user?.id, req.body?.motivo);
+
+      ResponseHelper.success(res, updatedPedido, 'Pedido cancelled and stock restored successfully');
+
+    } catch (error) {
+      this.handleEstadoError(res, error, 'Error cancelling pedido');
+    }
+  };
+
+  /**
+   * Get the estado timeline of a pedido
+   */
+  public getPedidoHistorial = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = parseInt(req.params.id);
+
+      const historial = await this.pedidoService.getPedidoHistorial(id);
 
-      if (pedido.estado === 'entregado') {
-        ResponseHelper.error(res, 'Cannot cancel delivered pedido', 400);
+      ResponseHelper.success(res, historial, 'Pedido historial retrieved successfully');
+    } catch (error) {
+      if (error instanceof PedidoError) {
+        ResponseHelper.error(res, error.message, error.statusCode);
         return;
       }
+      ResponseHelper.error(res, 'Error getting pedido historial', 500, error);
+    }
+  };
 
-      // Restore stock for all productos
-      for (const detalle of pedido.detalles) {
-        await this.productoDAO.updateStock(detalle.productoId, detalle.cantidad, 'add');
-      }
+  /**
+   * Replace the detalles of a pendiente pedido
+   */
+  public updateDetalles = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = parseInt(req.params.id);
 
-      // Update pedido estado
-      const updatedPedido = await this.pedidoDAO.updateEstado(id, 'cancelado');
+      const pedido = await this.pedidoService.updateDetalles(id, req.body.productos);
 
-      ResponseHelper.success(res, updatedPedido, 'Pedido cancelled and stock restored successfully');
+      ResponseHelper.success(res, pedido, 'Pedido detalles updated successfully');
+    } catch (error) {
+      this.handleDetalleError(res, error, 'Error updating pedido detalles');
+    }
+  };
+
+  /**
+   * Add a producto line to a pendiente pedido
+   */
+  public addDetalle = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = parseInt(req.params.id);
+      const { productoId, cantidad } = req.body;
 
+      const pedido = await this.pedidoService.addDetalle(id, { productoId, cantidad });
+
+      ResponseHelper.success(res, pedido, 'Pedido detalle added successfully');
+    } catch (error) {
+      this.handleDetalleError(res, error, 'Error adding pedido detalle');
+    }
+  };
+
+  /**
+   * Remove a producto line from a pendiente pedido
+   */
+  public removeDetalle = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = parseInt(req.params.id);
+      const productoId = parseInt(req.params.productoId);
+
+      const pedido = await this.pedidoService.removeDetalle(id, productoId);
+
+      ResponseHelper.success(res, pedido, 'Pedido detalle removed successfully');
     } catch (error) {
-      ResponseHelper.error(res, 'Error cancelling pedido', 500, error);
+      this.handleDetalleError(res, error, 'Error removing pedido detalle');
     }
   };
 
@@ -410,10 +470,17 @@ export class PedidoController {
       if (minTotal) filters.minTotal = parseFloat(minTotal as string);
       if (maxTotal) filters.maxTotal = parseFloat(maxTotal as string);
 
-      const result = await this.pedidoDAO.findAllWithFilters(filters);
+      const result = await this.pedidoDAO.findAllWithFilters(filters, {
+        filter: req.query.filter,
+        sort: req.query.sort
+      });
 
       ResponseHelper.success(res, result, 'Pedidos with advanced filters retrieved successfully');
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        ResponseHelper.badRequest(res, error.message);
+        return;
+      }
       ResponseHelper.error(res, 'Error getting pedidos with advanced filters', 500, error);
     }
   };
@@ -498,47 +565,88 @@ export class PedidoController {
    * Calculate weekly trend
    */
   private async calculateWeeklyTrend(): Promise<any> {
-    const today = new Date();
-    const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
-    
-    const pedidos = await this.pedidoDAO.findByDateRange(weekAgo, today);
-    
-    return {
-      totalPedidos: pedidos.length,
-      totalVentas: pedidos.reduce((sum, pedido) => sum + pedido.total, 0),
-      promedioDiario: pedidos.length / 7
-    };
+    const trend = await this.calculateTrend(7, 'day');
+    return { ...trend, promedioDiario: trend.totalPedidos / 7 };
   }
 
   /**
    * Calculate monthly trend
    */
   private async calculateMonthlyTrend(): Promise<any> {
-    const today = new Date();
-    const monthAgo = new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000);
-    
-    const pedidos = await this.pedidoDAO.findByDateRange(monthAgo, today);
-    
-    return {
-      totalPedidos: pedidos.length,
-      totalVentas: pedidos.reduce((sum, pedido) => sum + pedido.total, 0),
-      promedioDiario: pedidos.length / 30
-    };
+    const trend = await this.calculateTrend(30, 'day');
+    return { ...trend, promedioDiario: trend.totalPedidos / 30 };
   }
 
   /**
    * Calculate yearly trend
    */
   private async calculateYearlyTrend(): Promise<any> {
-    const today = new Date();
-    const yearAgo = new Date(today.getTime() - 365 * 24 * 60 * 60 * 1000);
-    
-    const pedidos = await this.pedidoDAO.findByDateRange(yearAgo, today);
-    
+    const trend = await this.calculateTrend(365, 'month');
+    return { ...trend, promedioMensual: trend.totalPedidos / 12 };
+  }
+
+  /**
+   * Sales of the last days, aggregated per bucket in the database
+   */
+  private async calculateTrend(days: number, bucket: SalesBucket): Promise<{
+    totalPedidos: number;
+    totalVentas: number;
+    series: Array<{ bucket: string; pedidos: number; ventas: number }>;
+  }> {
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+    const rows = await this.pedidoDAO.getSalesTimeSeries({
+      bucket,
+      from,
+      to,
+      timezone: SALES_TIMESERIES.DEFAULT_TIMEZONE,
+      estados: [...SALE_ORDER_STATUSES]
+    });
+
     return {
-      totalPedidos: pedidos.length,
-      totalVentas: pedidos.reduce((sum, pedido) => sum + pedido.total, 0),
-      promedioMensual: pedidos.length / 12
+      totalPedidos: rows.reduce((sum, row) => sum + row.pedidos, 0),
+      totalVentas: Math.round(rows.reduce((sum, row) => sum + row.ventas, 0) * 100) / 100,
+      series: rows.map(({ bucket: start, pedidos, ventas }) => ({ bucket: start, pedidos, ventas }))
     };
   }
+
+  /**
+   * Map a refused transition to 409 with the allowed next estados, and guard failures to their own status
+   */
+  private handleEstadoError(res: Response, error: unknown, message: string): void {
+    if (error instanceof PedidoTransitionError && error.statusCode === 409) {
+      ResponseHelper.conflict(res, error.message, {
+        estadoActual: error.from,
+        estadoSolicitado: error.to,
+        allowed: error.allowed
+      });
+      return;
+    }
+
+    if (error instanceof PedidoTransitionError) {
+      ResponseHelper.error(res, error.message, error.statusCode);
+      return;
+    }
+
+    this.handleDetalleError(res, error, message);
+  }
+
+  /**
+   * Map line editing failures to their HTTP status
+   */
+  private handleDetalleError(res: Response, error: unknown, message: string): void {
+    if (error instanceof PedidoError) {
+      ResponseHelper.error(res, error.message, error.statusCode);
+      return;
+    }
+
+    // Stock taken by a concurrent order between the edit and the atomic decrement
+    if (error instanceof Error && error.message.startsWith('Insufficient stock')) {
+      ResponseHelper.error(res, error.message, 409);
+      return;
+    }
+
+    ResponseHelper.error(res, message, 500, error);
+  }
 }
@@ -34,8 +34,8 @@ export class PedidoEncryptionController {
         return;
       }
 
-      // Encrypt pedido data
-      const encryptedData = await this.encryptionService.encryptPedidoData(pedido);
+      // Encrypt pedido data and keep the encrypted copy on the pedido
+      const encryptedData = await this.encryptionService.storeEncryptedPedidoData(pedido);
 
       ResponseHelper.success(res, {
         pedidoId: pedido.id,
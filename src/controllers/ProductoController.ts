@@ -1,14 +1,20 @@
 import { Request, Response } from 'express';
 import { ProductoDAO } from '../dao/ProductoDAO';
+import { MovimientoInventarioDAO } from '../dao/MovimientoInventarioDAO';
 import { ResponseHelper } from '../utils/helpers';
+import { CursorError, parseCursorQuery } from '../dao/CursorPaginator';
+import { ListQueryError } from '../dao/ListQuery';
 import { ValidationMiddleware } from '../middlewares/ValidationMiddleware';
 import { productSchemas } from '../dto/validationSchemas';
+import { PRODUCT_SEARCH } from '../constants';
 
 export class ProductoController {
   private productoDAO: ProductoDAO;
+  private movimientoDAO: MovimientoInventarioDAO;
 
   constructor() {
     this.productoDAO = new ProductoDAO();
+    this.movimientoDAO = new MovimientoInventarioDAO();
   }
 
   /**
@@ -24,6 +30,15 @@ export class ProductoController {
         maxPrecio: req.query.maxPrecio ? parseFloat(req.query.maxPrecio as string) : undefined
       };
 
+      const query = { filter: req.query.filter, sort: req.query.sort };
+
+      const cursorPage = parseCursorQuery(req.query);
+      if (cursorPage) {
+        const { productos, pageInfo } = await this.productoDAO.findProductosPage({ filters, page: cursorPage, query });
+        ResponseHelper.paginated(res, 'productos', productos, pageInfo, 'Productos retrieved successfully');
+        return;
+      }
+
       const pagination = {
         page: parseInt(req.query.page as string) || 1,
         limit: parseInt(req.query.limit as string) || 10
@@ -31,21 +46,23 @@ export class ProductoController {
 
       const result = await this.productoDAO.findAll({
         filters,
+        query,
         pagination,
         order: [['createdAt', 'DESC']]
       });
 
-      ResponseHelper.success(res, {
-        productos: result.productos,
-        pagination: {
-          page: result.page,
-          limit: result.limit,
-          total: result.total,
-          totalPages: result.totalPages
-        }
+      ResponseHelper.paginated(res, 'productos', result.productos, {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        totalPages: result.totalPages
       }, 'Productos retrieved successfully');
 
     } catch (error) {
+      if (error instanceof CursorError || error instanceof ListQueryError) {
+        ResponseHelper.badRequest(res, error.message);
+        return;
+      }
       ResponseHelper.error(res, 'Error retrieving productos', 500, error);
     }
   };
@@ -106,7 +123,7 @@ export class ProductoController {
         return;
       }
 
-      const producto = await this.productoDAO.create(productoData);
+      const producto = await this.productoDAO.create(productoData, { usuarioId: (req as any).user?.id });
       
       ResponseHelper.success(res, producto, 'Producto created successfully', 201);
 
@@ -132,7 +149,7 @@ export class ProductoController {
         }
       }
 
-      const producto = await this.productoDAO.update(id, updateData);
+      const producto = await this.productoDAO.update(id, updateData, { usuarioId: (req as any).user?.id });
       
       if (!producto) {
         ResponseHelper.error(res, 'Producto not found', 404);
@@ -142,6 +159,11 @@ export class ProductoController {
       ResponseHelper.success(res, producto, 'Producto updated successfully');
 
     } catch (error) {
+      // Stock cannot drop below the units reserved by pendiente pedidos
+      if (error instanceof Error && error.message.startsWith('Insufficient stock')) {
+        ResponseHelper.error(res, error.message, 409);
+        return;
+      }
       ResponseHelper.error(res, 'Error updating producto', 500, error);
     }
   };
@@ -173,7 +195,7 @@ export class ProductoController {
   public updateStock = async (req: Request, res: Response): Promise<void> => {
     try {
       const id = parseInt(req.params.id);
-      const { cantidad, operacion } = req.body; // operacion: 'add' | 'subtract' | 'set'
+      const { cantidad, operacion, motivo } = req.body; // operacion: 'add' | 'subtract' | 'set'
 
       if (!cantidad || cantidad < 0) {
         ResponseHelper.validationError(res, 'Cantidad must be a positive number');
@@ -185,7 +207,15 @@ export class ProductoController {
         return;
       }
 
-      const producto = await this.productoDAO.updateStock(id, cantidad, operacion);
+      if (motivo !== undefined && !['ajuste_manual', 'recepcion'].includes(motivo)) {
+        ResponseHelper.validationError(res, 'Motivo must be ajuste_manual or recepcion');
+        return;
+      }
+
+      const producto = await this.productoDAO.updateStock(id, cantidad, operacion, {
+        motivo,
+        usuarioId: (req as any).user?.id
+      });
       
       if (!producto) {
         ResponseHelper.error(res, 'Producto not found', 404);
@@ -195,10 +225,53 @@ export class ProductoController {
       ResponseHelper.success(res, producto, 'Stock updated successfully');
 
     } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Insufficient stock')) {
+        ResponseHelper.error(res, error.message, 409);
+        return;
+      }
       ResponseHelper.error(res, 'Error updating stock', 500, error);
     }
   };
 
+  /**
+   * Get the stock movements (kardex) of a producto
+   * Includes the sum of every recorded delta so it can be reconciled with the current stock
+   */
+  public getMovimientos = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = parseInt(req.params.id);
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const producto = await this.productoDAO.findById(id);
+
+      if (!producto) {
+        ResponseHelper.error(res, 'Producto not found', 404);
+        return;
+      }
+
+      const [result, saldoMovimientos] = await Promise.all([
+        this.movimientoDAO.findByProducto(id, page, limit),
+        this.movimientoDAO.sumDeltas(id)
+      ]);
+
+      ResponseHelper.success(res, {
+        producto: {
+          id: producto.id,
+          codigo: producto.codigo,
+          nombre: producto.nombre,
+          stock: producto.stock
+        },
+        saldoMovimientos,
+        diferencia: producto.stock - saldoMovimientos,
+        ...result
+      }, 'Stock movements retrieved successfully');
+
+    } catch (error) {
+      ResponseHelper.error(res, 'Error getting stock movements', 500, error);
+    }
+  };
+
   /**
    * Get productos by category
    */
@@ -231,7 +304,7 @@ export class ProductoController {
   };
 
   /**
-   * Search productos
+   * Search productos by relevance
    */
   public searchProductos = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -242,15 +315,22 @@ export class ProductoController {
         return;
       }
 
-      const result = await this.productoDAO.findAll({
-        filters: { search: searchTerm.trim(), activo: true },
-        pagination: { page: 1, limit: 20 },
-        order: [['nombre', 'ASC']]
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || PRODUCT_SEARCH.DEFAULT_LIMIT;
+
+      const result = await this.productoDAO.searchProductos({
+        term: searchTerm.trim(),
+        limit,
+        offset: (page - 1) * limit,
+        categoria: req.query.categoria as string | undefined,
+        activo: true
       });
 
       ResponseHelper.success(res, {
         productos: result.productos,
         total: result.total,
+        page,
+        limit,
         searchTerm
       }, 'Search completed successfully');
 
@@ -23,8 +23,11 @@ export class TokenController {
         return;
       }
 
-      // Refresh the access token
-      const result = await this.authService.refreshAccessToken(refreshToken);
+      // Refresh the access token (the refresh token is rotated on every use)
+      const result = await this.authService.refreshAccessToken(refreshToken, {
+        userAgent: req.get('User-Agent'),
+        ipAddress: req.ip
+      });
       
       if (!result) {
         ResponseHelper.error(res, 'Invalid or expired refresh token', 401);
@@ -39,7 +42,7 @@ export class TokenController {
   };
 
   /**
-   * Revoke refresh token (logout)
+   * Revoke refresh token (logout this device)
    */
   public revokeToken = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -51,9 +54,13 @@ export class TokenController {
         return;
       }
 
-      // In a real application, you would store refresh tokens in a database
-      // and mark them as revoked. For now, we'll just return success.
-      // The token will naturally expire based on its expiration time.
+      // Revoke the stored token family so the device can no longer refresh
+      const revoked = await this.authService.revokeRefreshToken(refreshToken);
+
+      if (!revoked) {
+        ResponseHelper.error(res, 'Invalid refresh token', 401);
+        return;
+      }
       
       ResponseHelper.success(res, null, 'Token revoked successfully');
 
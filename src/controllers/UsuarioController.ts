@@ -1,14 +1,19 @@
 import { Request, Response } from 'express';
 import { UsuarioDAO } from '../dao/UsuarioDAO';
+import { AuthService } from '../services/AuthService';
 import { ResponseHelper } from '../utils/helpers';
+import { CursorError, parseCursorQuery } from '../dao/CursorPaginator';
+import { ListQueryError } from '../dao/ListQuery';
 import { ValidationMiddleware } from '../middlewares/ValidationMiddleware';
 import { authSchemas } from '../dto/validationSchemas';
 
 export class UsuarioController {
   private usuarioDAO: UsuarioDAO;
+  private authService: AuthService;
 
   constructor() {
     this.usuarioDAO = new UsuarioDAO();
+    this.authService = new AuthService();
   }
 
   /**
@@ -22,6 +27,15 @@ export class UsuarioController {
         search: req.query.search as string | undefined
       };
 
+      const query = { filter: req.query.filter, sort: req.query.sort };
+
+      const cursorPage = parseCursorQuery(req.query);
+      if (cursorPage) {
+        const { usuarios, pageInfo } = await this.usuarioDAO.findUsuariosPage({ filters, page: cursorPage, query });
+        ResponseHelper.paginated(res, 'usuarios', usuarios, pageInfo, 'Usuarios retrieved successfully');
+        return;
+      }
+
       const pagination = {
         page: parseInt(req.query.page as string) || 1,
         limit: parseInt(req.query.limit as string) || 10
@@ -29,21 +43,23 @@ export class UsuarioController {
 
       const result = await this.usuarioDAO.findAll({
         filters,
+        query,
         pagination,
         order: [['createdAt', 'DESC']]
       });
 
-      ResponseHelper.success(res, {
-        usuarios: result.usuarios,
-        pagination: {
-          page: result.page,
-          limit: result.limit,
-          total: result.total,
-          totalPages: result.totalPages
-        }
+      ResponseHelper.paginated(res, 'usuarios', result.usuarios, {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        totalPages: result.totalPages
       }, 'Usuarios retrieved successfully');
 
     } catch (error) {
+      if (error instanceof CursorError || error instanceof ListQueryError) {
+        ResponseHelper.badRequest(res, error.message);
+        return;
+      }
       ResponseHelper.error(res, 'Error retrieving usuarios', 500, error);
     }
   };
@@ -122,6 +138,11 @@ export class UsuarioController {
         return;
       }
 
+      // A new password or a deactivation ends every open session of the usuario
+      if (updateData.password || updateData.activo === false) {
+        await this.authService.logoutAll(id);
+      }
+
       // Remove password from response
       const { password, ...usuarioResponse } = usuario.toJSON();
 
@@ -146,6 +167,8 @@ export class UsuarioController {
         return;
       }
 
+      await this.authService.logoutAll(id);
+
       ResponseHelper.success(res, null, 'Usuario deleted successfully');
 
     } catch (error) {
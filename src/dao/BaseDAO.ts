@@ -1,5 +1,7 @@
 import { Model, WhereOptions, FindOptions, CreateOptions, UpdateOptions, DestroyOptions, ModelStatic } from 'sequelize';
 import { Logger } from '../utils/helpers';
+import { CursorPaginator, CursorPageRequest, CursorPageInfo } from './CursorPaginator';
+import { ListQueryParams, ListQuerySpec, combineWhere, cursorOrder, parseListQuery } from './ListQuery';
 
 /**
  * Base DAO class that provides common database operations
@@ -8,19 +10,26 @@ import { Logger } from '../utils/helpers';
 export abstract class BaseDAO<T extends Model> {
   protected readonly logger = Logger;
   protected model: ModelStatic<Model>;
+  protected querySpec: ListQuerySpec;
 
-  constructor(model: ModelStatic<Model>) {
+  /**
+   * querySpec whitelists the fields list queries may filter and sort by; nothing by default
+   */
+  constructor(model: ModelStatic<Model>, querySpec: ListQuerySpec = { filters: {}, sort: [] }) {
     this.model = model;
+    this.querySpec = querySpec;
   }
 
   /**
    * Find all records with optional filters and pagination
+   * A filter/sort query is validated against querySpec and applied on top of filters.
    */
   async findAll(options: {
     filters?: WhereOptions;
     pagination?: { page: number; limit: number };
     order?: any[];
     include?: any[];
+    query?: ListQueryParams;
   } = {}): Promise<{
     items: T[];
     total: number;
@@ -29,11 +38,12 @@ export abstract class BaseDAO<T extends Model> {
     totalPages: number;
   }> {
     try {
-      const { filters = {}, pagination, order = [['createdAt', 'DESC']], include = [] } = options;
+      const { filters = {}, pagination, include = [] } = options;
+      const listQuery = parseListQuery(options.query, this.querySpec);
       
       const findOptions: FindOptions = {
-        where: filters,
-        order,
+        where: combineWhere(filters, listQuery.where),
+        order: listQuery.order.length ? listQuery.order : options.order || [['createdAt', 'DESC']],
         include
       };
 
@@ -62,6 +72,33 @@ export abstract class BaseDAO<T extends Model> {
     }
   }
 
+  /**
+   * Find a page of records with keyset (cursor) pagination, without counting
+   */
+  async findPage(options: {
+    filters?: WhereOptions;
+    order?: [string, 'ASC' | 'DESC'];
+    page: CursorPageRequest;
+    include?: any[];
+    query?: ListQueryParams;
+  }): Promise<{ items: T[]; pageInfo: CursorPageInfo }> {
+    try {
+      const listQuery = parseListQuery(options.query, this.querySpec);
+
+      const { rows, pageInfo } = await CursorPaginator.findPage(this.model, {
+        where: combineWhere(options.filters || {}, listQuery.where),
+        order: cursorOrder(listQuery.order, options.order || ['createdAt', 'DESC']),
+        page: options.page,
+        include: options.include
+      });
+
+      return { items: rows as T[], pageInfo };
+    } catch (error) {
+      this.logger.error('Error finding page of records:', error);
+      throw error;
+    }
+  }
+
   /**
    * Find record by ID
    */
@@ -1,6 +1,10 @@
 import { Cliente, ClienteAttributes, ClienteCreationAttributes } from '../models/Cliente';
 import { BaseDAO } from '../types/database';
 import { Logger } from '../utils/helpers';
+import { CursorPaginator, CursorPageRequest, CursorPageInfo } from './CursorPaginator';
+import { ListQueryParams, ListQuerySpec, combineWhere, cursorOrder, parseListQuery } from './ListQuery';
+import { SearchHitPage, bestMatchSql, runSearchQuery } from './GlobalSearch';
+import { DOCUMENT_TYPES } from '../constants';
 import { Op } from 'sequelize';
 
 export interface ClienteFilters {
@@ -33,6 +37,21 @@ export interface ClienteStatistics {
   documentTypes: { [key: string]: number };
 }
 
+/**
+ * Fields clientes can be filtered and sorted by through filter[...] and sort
+ */
+export const CLIENTE_QUERY_SPEC: ListQuerySpec = {
+  filters: {
+    nombre: { type: 'string' },
+    email: { type: 'string' },
+    documento: { type: 'string' },
+    tipoDocumento: { type: 'string', values: Object.values(DOCUMENT_TYPES) },
+    activo: { type: 'boolean' },
+    createdAt: { type: 'date' }
+  },
+  sort: ['nombre', 'email', 'documento', 'tipoDocumento', 'createdAt', 'updatedAt']
+};
+
 export class ClienteDAO {
   /**
    * Create a new cliente
@@ -108,34 +127,19 @@ export class ClienteDAO {
     filters?: ClienteFilters;
     pagination?: ClientePaginationOptions;
     order?: [string, 'ASC' | 'DESC'][];
+    query?: ListQueryParams;
   }): Promise<ClienteListResult> {
     try {
       const {
         filters = {},
         pagination = { page: 1, limit: 10 },
-        order = [['createdAt', 'DESC']]
+        query
       } = options || {};
 
       const { page = 1, limit = 10, offset = (page - 1) * limit } = pagination;
-      
-      // Build where clause
-      const whereClause: any = {};
-      
-      if (filters.tipoDocumento) {
-        whereClause.tipoDocumento = filters.tipoDocumento;
-      }
-      
-      if (filters.activo !== undefined) {
-        whereClause.activo = filters.activo;
-      }
-      
-      if (filters.search) {
-        whereClause[Op.or] = [
-          { nombre: { [Op.iLike]: `%${filters.search}%` } },
-          { email: { [Op.iLike]: `%${filters.search}%` } },
-          { documento: { [Op.iLike]: `%${filters.search}%` } }
-        ];
-      }
+      const listQuery = parseListQuery(query, CLIENTE_QUERY_SPEC);
+      const whereClause = combineWhere(this.buildWhere(filters), listQuery.where);
+      const order = listQuery.order.length ? listQuery.order : options?.order || [['createdAt', 'DESC']];
 
       // Get total count
       const total = await Cliente.count({ where: whereClause });
@@ -163,6 +167,76 @@ export class ClienteDAO {
     }
   }
 
+  /**
+   * Find a page of clientes with keyset (cursor) pagination, without counting
+   */
+  async findClientesPage(options: {
+    filters?: ClienteFilters;
+    order?: [string, 'ASC' | 'DESC'];
+    page: CursorPageRequest;
+    query?: ListQueryParams;
+  }): Promise<{ clientes: Cliente[]; pageInfo: CursorPageInfo }> {
+    try {
+      const listQuery = parseListQuery(options.query, CLIENTE_QUERY_SPEC);
+
+      const { rows, pageInfo } = await CursorPaginator.findPage(Cliente, {
+        where: combineWhere(this.buildWhere(options.filters || {}), listQuery.where),
+        order: cursorOrder(listQuery.order, options.order || ['createdAt', 'DESC']),
+        page: options.page
+      });
+
+      return { clientes: rows, pageInfo };
+    } catch (error) {
+      Logger.error('Error finding clientes page:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Best global search matches, scored on the scale shared by all entities
+   */
+  async rankedSearch(term: string, limit: number): Promise<SearchHitPage> {
+    try {
+      return await runSearchQuery(Cliente.sequelize!, 'cliente', term, `
+        SELECT c.id, c.nombre AS title, c.documento AS subtitle, m.*, COUNT(*) OVER () AS total
+        FROM clientes c
+        ${bestMatchSql([
+          ['nombre', 'c.nombre', 1],
+          ['documento', 'c.documento', 1],
+          ['email', 'c.email', 0.8]
+        ])}
+        WHERE m.score > 0
+        ORDER BY m.score DESC, c.id ASC
+        LIMIT :limit
+      `, { limit });
+    } catch (error) {
+      Logger.error('Error ranking clientes for global search:', error);
+      throw error;
+    }
+  }
+
+  private buildWhere(filters: ClienteFilters): any {
+    const whereClause: any = {};
+
+    if (filters.tipoDocumento) {
+      whereClause.tipoDocumento = filters.tipoDocumento;
+    }
+
+    if (filters.activo !== undefined) {
+      whereClause.activo = filters.activo;
+    }
+
+    if (filters.search) {
+      whereClause[Op.or] = [
+        { nombre: { [Op.iLike]: `%${filters.search}%` } },
+        { email: { [Op.iLike]: `%${filters.search}%` } },
+        { documento: { [Op.iLike]: `%${filters.search}%` } }
+      ];
+    }
+
+    return whereClause;
+  }
+
   /**
    * Update cliente by ID
    */
@@ -0,0 +1,180 @@
+import { FindAttributeOptions, Includeable, Model, ModelStatic, Op, OrderItem, WhereOptions } from 'sequelize';
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface CursorPageRequest {
+  limit: number;
+  after?: string;
+  before?: string;
+}
+
+export interface CursorPageInfo {
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface CursorPage<M> {
+  rows: M[];
+  pageInfo: CursorPageInfo;
+}
+
+interface CursorPayload {
+  s: string;
+  v: string | number | null;
+  id: number;
+}
+
+/**
+ * Raised for cursors that cannot be decoded or were issued for another sort
+ */
+export class CursorError extends Error {
+  public statusCode: number = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'CursorError';
+  }
+}
+
+/**
+ * Keyset (cursor) pagination over a single sort column plus id as tie-breaker
+ * Cursors are opaque base64url tokens holding the sort, the sort value and the id of
+ * the row they point at. Pages are read with a WHERE on (sort, id) instead of an
+ * OFFSET, so deep pages cost the same as the first and rows inserted meanwhile do not
+ * shift the results. The sort column must not be nullable.
+ */
+export class CursorPaginator {
+  /**
+   * Read one page after or before a cursor, or the first page when neither is given
+   */
+  static async findPage<M extends Model>(model: ModelStatic<M>, options: {
+    where?: WhereOptions;
+    order: [string, SortDirection];
+    page: CursorPageRequest;
+    include?: Includeable[];
+    attributes?: FindAttributeOptions;
+    includeOrder?: OrderItem[];
+  }): Promise<CursorPage<M>> {
+    const { where = {}, order: [field, direction], page, include, includeOrder = [] } = options;
+    const sort = `${field}:${direction}`;
+    const backwards = !!page.before;
+    const cursor = page.after || page.before;
+    const position = cursor ? this.decode(cursor, sort) : null;
+
+    // Reading backwards walks the index the other way and flips the page afterwards
+    const readDirection: SortDirection = backwards ? this.reverse(direction) : direction;
+    const conditions: WhereOptions[] = [where];
+    if (position) {
+      conditions.push(this.keysetCondition(field, readDirection, position));
+    }
+
+    // The cursor is built from the sort column and id, so a column list must keep them
+    const attributes = Array.isArray(options.attributes)
+      ? [...new Set([...options.attributes as string[], field, 'id'])]
+      : options.attributes;
+
+    const rows = await model.findAll({
+      where: { [Op.and]: conditions },
+      attributes,
+      include,
+      order: [[field, readDirection], ['id', readDirection], ...includeOrder],
+      limit: page.limit + 1
+    });
+
+    const hasMore = rows.length > page.limit;
+    const pageRows = rows.slice(0, page.limit);
+    if (backwards) {
+      pageRows.reverse();
+    }
+
+    const first = pageRows[0];
+    const last = pageRows[pageRows.length - 1];
+    const moreAfter = backwards ? !!position : hasMore;
+    const moreBefore = backwards ? hasMore : !!position;
+
+    return {
+      rows: pageRows,
+      pageInfo: {
+        limit: page.limit,
+        nextCursor: last && moreAfter ? this.encode(sort, last.get(field), last.get('id') as number) : null,
+        prevCursor: first && moreBefore ? this.encode(sort, first.get(field), first.get('id') as number) : null,
+        hasMore: moreAfter
+      }
+    };
+  }
+
+  /**
+   * Build a cursor pointing at a row
+   */
+  static encode(sort: string, value: unknown, id: number): string {
+    const payload: CursorPayload = {
+      s: sort,
+      v: value instanceof Date ? value.toISOString() : (value as string | number | null),
+      id
+    };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  /**
+   * Read a cursor back, refusing cursors issued for another sort
+   */
+  static decode(cursor: string, sort: string): { value: string | number | null; id: number } {
+    let payload: CursorPayload;
+    try {
+      payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new CursorError('Invalid cursor');
+    }
+
+    if (!payload || typeof payload !== 'object' || !Number.isInteger(payload.id)) {
+      throw new CursorError('Invalid cursor');
+    }
+
+    if (payload.s !== sort) {
+      throw new CursorError('Cursor does not match the requested sort');
+    }
+
+    return { value: payload.v, id: payload.id };
+  }
+
+  // (field, id) strictly past the cursor in the read direction
+  private static keysetCondition(field: string, direction: SortDirection, position: { value: unknown; id: number }): WhereOptions {
+    const op = direction === 'ASC' ? Op.gt : Op.lt;
+
+    if (field === 'id') {
+      return { id: { [op]: position.id } };
+    }
+
+    return {
+      [Op.or]: [
+        { [field]: { [op]: position.value } },
+        { [field]: position.value, id: { [op]: position.id } }
+      ]
+    };
+  }
+
+  private static reverse(direction: SortDirection): SortDirection {
+    return direction === 'ASC' ? 'DESC' : 'ASC';
+  }
+}
+
+/**
+ * Cursor page requested by list query parameters, or null for the page/limit shape
+ * Cursor mode is chosen with pagination=cursor, or implied by after/before.
+ */
+export function parseCursorQuery(query: Record<string, unknown>, defaultLimit: number = 10): CursorPageRequest | null {
+  const after = query.after as string | undefined;
+  const before = query.before as string | undefined;
+
+  if (query.pagination !== 'cursor' && !after && !before) {
+    return null;
+  }
+
+  return {
+    limit: parseInt(query.limit as string) || defaultLimit,
+    after,
+    before
+  };
+}
@@ -0,0 +1,153 @@
+import { QueryTypes, Sequelize } from 'sequelize';
+
+export type SearchEntity = 'usuario' | 'producto' | 'cliente' | 'pedido';
+
+/**
+ * One global search result, scored on the same scale for every entity
+ */
+export interface SearchHit {
+  type: SearchEntity;
+  id: number;
+  path: string;
+  title: string;
+  subtitle: string | null;
+  field: string;
+  highlight: string;
+  score: number;
+}
+
+export interface SearchHitPage {
+  hits: SearchHit[];
+  total: number;
+}
+
+/**
+ * A searchable column: the name reported as the matched field, the SQL expression and
+ * how much a match on it is worth relative to the entity's main field
+ */
+export type SearchField = [field: string, expression: string, weight: number];
+
+const ENTITY_PATHS: Record<SearchEntity, string> = {
+  usuario: '/api/usuarios',
+  producto: '/api/productos',
+  cliente: '/api/clientes',
+  pedido: '/api/pedidos'
+};
+
+// Characters around the match kept in the highlight of long texts
+const HIGHLIGHT_CONTEXT = 40;
+
+const HTML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+/**
+ * Lower-case and strip accents so the term compares like unaccent(lower(column))
+ */
+export function foldSearchText(text: string): string {
+  return Array.from(text.normalize('NFC')).map(foldChar).join('');
+}
+
+/**
+ * Lateral subquery picking the best scoring field of a row as m(field, text, score)
+ * Scores: whole value 1, value prefix 0.8, word prefix 0.6, anywhere 0.4, times the weight.
+ * The folded term goes in the :term replacement.
+ */
+export function bestMatchSql(fields: SearchField[]): string {
+  const values = fields
+    .map(([field, expression, weight]) => `('${field}', ${expression}::text, ${matchScoreSql(expression)} * ${weight})`)
+    .join(',\n      ');
+
+  return `CROSS JOIN LATERAL (
+    SELECT field, text, score FROM (VALUES
+      ${values}
+    ) AS v(field, text, score)
+    ORDER BY score DESC
+    LIMIT 1
+  ) m`;
+}
+
+/**
+ * Run a search query selecting id, title, subtitle and m.* plus COUNT(*) OVER () AS total
+ */
+export async function runSearchQuery(
+  sequelize: Sequelize,
+  type: SearchEntity,
+  term: string,
+  sql: string,
+  replacements: Record<string, unknown>
+): Promise<SearchHitPage> {
+  const rows = await sequelize.query<any>(sql, {
+    replacements: { ...replacements, term: foldSearchText(term) },
+    type: QueryTypes.SELECT
+  });
+
+  return {
+    hits: rows.map(row => ({
+      type,
+      id: row.id,
+      path: `${ENTITY_PATHS[type]}/${row.id}`,
+      title: row.title,
+      subtitle: row.subtitle ?? null,
+      field: row.field,
+      highlight: highlightMatch(row.text, term),
+      score: parseFloat(row.score)
+    })),
+    total: rows.length > 0 ? parseInt(rows[0].total) : 0
+  };
+}
+
+/**
+ * Escape text for use inside HTML, so only the <mark> tags of a highlight are markup
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ENTITIES[char]);
+}
+
+/**
+ * Wrap the first accent-insensitive occurrence of term in <mark>, trimming long text around it
+ * The text around the tags is HTML-escaped.
+ */
+export function highlightMatch(text: string, term: string): string {
+  const chars = Array.from(text.normalize('NFC'));
+  const folded = chars.map(foldChar);
+  const needle = foldSearchText(term);
+
+  // Map every folded character back to the original character it came from
+  const owners: number[] = [];
+  folded.forEach((part, index) => {
+    for (let i = 0; i < part.length; i++) {
+      owners.push(index);
+    }
+  });
+
+  const position = folded.join('').indexOf(needle);
+  if (position < 0 || needle.length === 0) {
+    return chars.length > HIGHLIGHT_CONTEXT * 2 ? `${escapeHtml(chars.slice(0, HIGHLIGHT_CONTEXT * 2).join(''))}…` : escapeHtml(text);
+  }
+
+  const start = owners[position];
+  const end = owners[position + needle.length - 1] + 1;
+  const from = Math.max(0, start - HIGHLIGHT_CONTEXT);
+  const to = Math.min(chars.length, end + HIGHLIGHT_CONTEXT);
+
+  return (from > 0 ? '…' : '') +
+    escapeHtml(chars.slice(from, start).join('')) +
+    `<mark>${escapeHtml(chars.slice(start, end).join(''))}</mark>` +
+    escapeHtml(chars.slice(end, to).join('')) +
+    (to < chars.length ? '…' : '');
+}
+
+function foldChar(char: string): string {
+  return char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+function matchScoreSql(expression: string): string {
+  const folded = `unaccent(lower(coalesce(${expression}::text, '')))`;
+
+  return `CASE
+        WHEN ${folded} = :term THEN 1
+        WHEN position(:term IN ${folded}) = 1 THEN 0.8
+        WHEN position(' ' || :term IN ${folded}) > 0 THEN 0.6
+        WHEN position(:term IN ${folded}) > 0 THEN 0.4
+        ELSE 0
+      END`;
+}
@@ -0,0 +1,222 @@
+import { Op, WhereOptions } from 'sequelize';
+import { SortDirection } from './CursorPaginator';
+
+export type FilterOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'nin' | 'like';
+export type FilterFieldType = 'string' | 'integer' | 'number' | 'date' | 'boolean';
+
+export interface FilterFieldSpec {
+  type: FilterFieldType;
+  // Allowed values for enum-like string columns
+  values?: readonly string[];
+}
+
+/**
+ * Per-model whitelist of what a list endpoint may filter and sort by
+ */
+export interface ListQuerySpec {
+  filters: Record<string, FilterFieldSpec>;
+  sort: readonly string[];
+}
+
+/**
+ * Raw filter/sort query parameters as parsed by express (qs)
+ * e.g. ?filter[total][gte]=100&filter[estado][in]=pendiente,confirmado&sort=-fecha,total
+ */
+export interface ListQueryParams {
+  filter?: unknown;
+  sort?: unknown;
+}
+
+export interface ParsedListQuery {
+  where: WhereOptions;
+  order: [string, SortDirection][];
+}
+
+const OPERATORS: Record<FilterOperator, symbol> = {
+  eq: Op.eq,
+  ne: Op.ne,
+  gt: Op.gt,
+  gte: Op.gte,
+  lt: Op.lt,
+  lte: Op.lte,
+  in: Op.in,
+  nin: Op.notIn,
+  like: Op.iLike
+};
+
+const TYPE_OPERATORS: Record<FilterFieldType, readonly FilterOperator[]> = {
+  string: ['eq', 'ne', 'in', 'nin', 'like'],
+  integer: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin'],
+  number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'],
+  boolean: ['eq', 'ne']
+};
+
+const MAX_LIST_VALUES = 100;
+
+/**
+ * Raised for filters or sorts outside the model whitelist, or with malformed values
+ */
+export class ListQueryError extends Error {
+  public statusCode: number = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListQueryError';
+  }
+}
+
+/**
+ * Translate filter/sort query parameters into a Sequelize where clause and order
+ * Every field and operator is checked against the spec before it reaches the query.
+ */
+export function parseListQuery(params: ListQueryParams = {}, spec: ListQuerySpec): ParsedListQuery {
+  return {
+    where: parseFilter(params.filter, spec),
+    order: parseSort(params.sort, spec)
+  };
+}
+
+/**
+ * AND together the where clauses that are not empty
+ */
+export function combineWhere(...clauses: WhereOptions[]): WhereOptions {
+  const conditions = clauses.filter(clause => Reflect.ownKeys(clause).length > 0);
+
+  if (conditions.length <= 1) {
+    return conditions[0] || {};
+  }
+
+  return { [Op.and]: conditions };
+}
+
+/**
+ * The single sort a cursor page can be keyed on, or the fallback when none was requested
+ */
+export function cursorOrder(order: [string, SortDirection][], fallback: [string, SortDirection]): [string, SortDirection] {
+  if (order.length > 1) {
+    throw new ListQueryError('Cursor pagination supports sorting by a single field');
+  }
+
+  return order[0] || fallback;
+}
+
+function parseFilter(filter: unknown, spec: ListQuerySpec): WhereOptions {
+  if (filter === undefined) {
+    return {};
+  }
+
+  if (!isPlainObject(filter)) {
+    throw new ListQueryError('filter must be given as filter[field][operator]=value');
+  }
+
+  const where: Record<string, Record<symbol, unknown>> = {};
+
+  for (const [field, condition] of Object.entries(filter)) {
+    const fieldSpec = spec.filters[field];
+    if (!fieldSpec) {
+      throw new ListQueryError(`Filtering by "${field}" is not allowed`);
+    }
+
+    // filter[estado]=pendiente is shorthand for filter[estado][eq]=pendiente
+    const operations = isPlainObject(condition) ? condition : { eq: condition };
+    where[field] = {};
+
+    for (const [operator, raw] of Object.entries(operations)) {
+      if (!TYPE_OPERATORS[fieldSpec.type].includes(operator as FilterOperator)) {
+        throw new ListQueryError(`Operator "${operator}" is not allowed on "${field}"`);
+      }
+
+      where[field][OPERATORS[operator as FilterOperator]] = parseOperand(field, fieldSpec, operator as FilterOperator, raw);
+    }
+  }
+
+  return where;
+}
+
+function parseOperand(field: string, spec: FilterFieldSpec, operator: FilterOperator, raw: unknown): unknown {
+  if (operator === 'in' || operator === 'nin') {
+    const items = (Array.isArray(raw) ? raw : [raw])
+      .flatMap(item => typeof item === 'string' ? item.split(',') : [item]);
+
+    if (items.length === 0 || items.length > MAX_LIST_VALUES) {
+      throw new ListQueryError(`"${field}" ${operator} takes between 1 and ${MAX_LIST_VALUES} values`);
+    }
+
+    return items.map(item => parseValue(field, spec, item));
+  }
+
+  if (operator === 'like') {
+    const value = parseValue(field, spec, raw) as string;
+    return `%${value.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+  }
+
+  return parseValue(field, spec, raw);
+}
+
+function parseValue(field: string, spec: FilterFieldSpec, raw: unknown): string | number | boolean | Date {
+  if (typeof raw !== 'string' || raw === '') {
+    throw new ListQueryError(`Invalid value for "${field}"`);
+  }
+
+  switch (spec.type) {
+    case 'integer':
+    case 'number': {
+      const value = Number(raw);
+      if (!Number.isFinite(value) || (spec.type === 'integer' && !Number.isInteger(value))) {
+        throw new ListQueryError(`"${field}" must be ${spec.type === 'integer' ? 'an integer' : 'a number'}`);
+      }
+      return value;
+    }
+    case 'date': {
+      const value = new Date(raw);
+      if (isNaN(value.getTime())) {
+        throw new ListQueryError(`"${field}" must be a valid date`);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (raw !== 'true' && raw !== 'false') {
+        throw new ListQueryError(`"${field}" must be true or false`);
+      }
+      return raw === 'true';
+    default:
+      if (spec.values && !spec.values.includes(raw)) {
+        throw new ListQueryError(`"${field}" must be one of: ${spec.values.join(', ')}`);
+      }
+      return raw;
+  }
+}
+
+function parseSort(sort: unknown, spec: ListQuerySpec): [string, SortDirection][] {
+  if (sort === undefined || sort === '') {
+    return [];
+  }
+
+  if (typeof sort !== 'string') {
+    throw new ListQueryError('sort must be a comma separated list of fields');
+  }
+
+  const order: [string, SortDirection][] = [];
+
+  for (const item of sort.split(',')) {
+    // A leading "-" sorts that field descending
+    const field = item.startsWith('-') ? item.slice(1) : item;
+
+    if (!spec.sort.includes(field)) {
+      throw new ListQueryError(`Sorting by "${field}" is not allowed`);
+    }
+
+    if (order.some(([sorted]) => sorted === field)) {
+      throw new ListQueryError(`"${field}" is sorted more than once`);
+    }
+
+    order.push([field, item.startsWith('-') ? 'DESC' : 'ASC']);
+  }
+
+  return order;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
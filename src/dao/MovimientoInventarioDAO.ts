@@ -0,0 +1,68 @@
+import { MovimientoInventario, MovimientoInventarioCreationAttributes } from '../models/MovimientoInventario';
+import { Usuario } from '../models/Usuario';
+import { Logger } from '../utils/helpers';
+import { Transaction } from 'sequelize';
+
+export class MovimientoInventarioDAO {
+  /**
+   * Append a stock movement to the kardex
+   */
+  async create(data: MovimientoInventarioCreationAttributes, options: { transaction?: Transaction } = {}): Promise<MovimientoInventario> {
+    try {
+      return await MovimientoInventario.create(data, { transaction: options.transaction });
+    } catch (error) {
+      Logger.error('Error recording stock movement:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the stock movements of a producto, newest first
+   */
+  async findByProducto(productoId: number, page: number = 1, limit: number = 20): Promise<{
+    movimientos: MovimientoInventario[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    try {
+      const offset = (page - 1) * limit;
+
+      const { rows, count } = await MovimientoInventario.findAndCountAll({
+        where: { productoId },
+        include: [{
+          model: Usuario,
+          as: 'usuario',
+          attributes: ['id', 'nombre', 'email']
+        }],
+        order: [['fecha', 'DESC'], ['id', 'DESC']],
+        limit,
+        offset
+      });
+
+      return {
+        movimientos: rows,
+        pagination: { page, limit, total: count, totalPages: Math.ceil(count / limit) }
+      };
+    } catch (error) {
+      Logger.error('Error finding stock movements by producto:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sum of every delta recorded for a producto, to reconcile against Producto.stock
+   */
+  async sumDeltas(productoId: number): Promise<number> {
+    try {
+      const total = await MovimientoInventario.sum('delta', { where: { productoId } });
+      return Number(total) || 0;
+    } catch (error) {
+      Logger.error('Error summing stock movements:', error);
+      throw error;
+    }
+  }
+}
@@ -1,8 +1,17 @@
 import { Pedido, PedidoAttributes, PedidoCreationAttributes } from '../models/Pedido';
 import { DetallePedido, DetallePedidoAttributes, DetallePedidoCreationAttributes } from '../models/DetallePedido';
+import { PedidoEstadoHistorial, PedidoEstado } from '../models/PedidoEstadoHistorial';
+import { Producto } from '../models/Producto';
+import { Cliente } from '../models/Cliente';
+import { Usuario } from '../models/Usuario';
 import { BaseDAO } from '../types/database';
+import { pedidoStateMachine } from '../services/PedidoStateMachine';
+import { ORDER_STATUS, PEDIDO_FIELDS, PEDIDO_INCLUDES, SALE_ORDER_STATUSES, TABLES } from '../constants';
+import { CursorPaginator, CursorPageRequest, CursorPageInfo } from './CursorPaginator';
+import { ListQueryParams, ListQuerySpec, combineWhere, cursorOrder, parseListQuery } from './ListQuery';
+import { SearchHitPage, bestMatchSql, runSearchQuery } from './GlobalSearch';
 import { Logger } from '../utils/helpers';
-import { Op } from 'sequelize';
+import { Includeable, Op, OrderItem, QueryTypes, Transaction } from 'sequelize';
 
 export interface PedidoFilters {
   clienteId?: number;
@@ -11,8 +20,25 @@ export interface PedidoFilters {
   fechaInicio?: Date;
   fechaFin?: Date;
   productoId?: number;
+  minTotal?: number;
+  maxTotal?: number;
 }
 
+/**
+ * Fields pedidos can be filtered and sorted by through filter[...] and sort
+ */
+export const PEDIDO_QUERY_SPEC: ListQuerySpec = {
+  filters: {
+    clienteId: { type: 'integer' },
+    usuarioId: { type: 'integer' },
+    estado: { type: 'string', values: Object.values(ORDER_STATUS) },
+    fecha: { type: 'date' },
+    total: { type: 'number' },
+    createdAt: { type: 'date' }
+  },
+  sort: ['fecha', 'total', 'estado', 'createdAt', 'updatedAt']
+};
+
 export interface PedidoPaginationOptions {
   page?: number;
   limit?: number;
@@ -27,6 +53,9 @@ export interface PedidoListResult {
   totalPages: number;
 }
 
+export type PedidoInclude = typeof PEDIDO_INCLUDES[number];
+export type PedidoField = typeof PEDIDO_FIELDS[number];
+
 export interface PedidoWithDetails extends Pedido {
   detalles: DetallePedido[];
   cliente?: any;
@@ -45,6 +74,81 @@ export interface PedidoStatistics {
   estados: { [key: string]: number };
 }
 
+export interface SalesTotals {
+  pedidos: number;
+  ventas: number;
+}
+
+export interface PendingBacklog {
+  pedidos: number;
+  valor: number;
+  masAntiguo: Date | null;
+}
+
+export interface TopVendedor {
+  usuarioId: number;
+  nombre: string | null;
+  email: string | null;
+  pedidos: number;
+  ventas: number;
+}
+
+export interface TopProducto {
+  productoId: number;
+  codigo: string | null;
+  nombre: string | null;
+  unidades: number;
+  ventas: number;
+}
+
+export type SalesBucket = 'day' | 'week' | 'month';
+export type SalesGroupBy = 'categoria' | 'usuario' | 'cliente';
+
+export interface SalesTimeSeriesQuery {
+  bucket: SalesBucket;
+  from: Date;
+  to: Date;
+  timezone: string;
+  estados: PedidoEstado[];
+  groupBy?: SalesGroupBy;
+}
+
+export interface SalesTimeSeriesRow {
+  bucket: string;
+  grupoId: string | null;
+  grupo: string | null;
+  pedidos: number;
+  ventas: number;
+}
+
+const SALES_BUCKET_STEPS: Record<SalesBucket, string> = {
+  day: '1 day',
+  week: '1 week',
+  month: '1 month'
+};
+
+// Joins, group key, label and amount for each groupBy; categoria works per line, the rest per pedido
+const SALES_GROUPS: Record<SalesGroupBy, { join: string; id: string; label: string; amount: string }> = {
+  categoria: {
+    join: `JOIN ${TABLES.DETALLE_PEDIDOS} d ON d."pedidoId" = p.id JOIN ${TABLES.PRODUCTOS} pr ON pr.id = d."productoId"`,
+    id: 'pr.categoria',
+    label: 'pr.categoria',
+    amount: 'd.subtotal'
+  },
+  usuario: {
+    join: `LEFT JOIN ${TABLES.USUARIOS} u ON u.id = p."usuarioId"`,
+    id: 'p."usuarioId"::text',
+    label: 'u.nombre',
+    amount: 'p.total'
+  },
+  cliente: {
+    join: `LEFT JOIN ${TABLES.CLIENTES} c ON c.id = p."clienteId"`,
+    id: 'p."clienteId"::text',
+    label: 'c.nombre',
+    amount: 'p.total'
+  }
+};
+
 export class PedidoDAO {
   /**
    * Find all pedidos (required by BaseDAO interface)
@@ -82,6 +186,13 @@ export class PedidoDAO {
         total
       });
 
+      await PedidoEstadoHistorial.create({
+        pedidoId: pedido.id,
+        estadoAnterior: null,
+        estadoNuevo: pedido.estado,
+        usuarioId: pedido.usuarioId
+      });
+
       // Create detalles
       const detallesCreados = await Promise.all(
         detalles.map(detalle => 
@@ -138,73 +249,42 @@ export class PedidoDAO {
     pagination?: PedidoPaginationOptions;
     order?: [string, 'ASC' | 'DESC'][];
     includeDetails?: boolean;
+    include?: PedidoInclude[];
+    fields?: PedidoField[];
+    query?: ListQueryParams;
   }): Promise<PedidoListResult> {
     try {
       const {
         filters = {},
         pagination = { page: 1, limit: 10 },
-        order = [['createdAt', 'DESC']],
-        includeDetails = false
+        includeDetails = false,
+        fields,
+        query
       } = options || {};
+      const include = options?.include || (includeDetails ? ['detalles'] : []);
 
       const { page = 1, limit = 10, offset = (page - 1) * limit } = pagination;
-      
-      // Build where clause
-      const whereClause: any = {};
-      
-      if (filters.clienteId) {
-        whereClause.clienteId = filters.clienteId;
-      }
-      
-      if (filters.usuarioId) {
-        whereClause.usuarioId = filters.usuarioId;
-      }
-      
-      if (filters.estado) {
-        whereClause.estado = filters.estado;
-      }
-
-      if (filters.fechaInicio || filters.fechaFin) {
-        whereClause.fecha = {};
-        if (filters.fechaInicio) {
-          whereClause.fecha[Op.gte] = filters.fechaInicio;
-        }
-        if (filters.fechaFin) {
-          whereClause.fecha[Op.lte] = filters.fechaFin;
-        }
-      }
+      const listQuery = parseListQuery(query, PEDIDO_QUERY_SPEC);
+      const whereClause = combineWhere(this.buildWhere(filters), listQuery.where);
+      const order = listQuery.order.length ? listQuery.order : options?.order || [['createdAt', 'DESC']];
 
       // Get total count
       const total = await Pedido.count({ where: whereClause });
       
-      // Get paginated results
+      // Get paginated results with the requested associations in one query
       const pedidos = await Pedido.findAll({
         where: whereClause,
-        order,
+        attributes: fields ? this.buildAttributes(fields, include) : undefined,
+        include: this.buildIncludes(include),
+        order: [...order, ...this.includeOrder(include)],
         limit,
         offset
       });
 
-      // Include detalles if requested
-      let pedidosWithDetails = pedidos;
-      if (includeDetails) {
-        pedidosWithDetails = await Promise.all(
-          pedidos.map(async (pedido) => {
-            const detalles = await DetallePedido.findAll({
-              where: { pedidoId: pedido.id }
-            });
-            return {
-              ...pedido.toJSON(),
-              detalles
-            } as any;
-          })
-        ) as any;
-      }
-
       const totalPages = Math.ceil(total / limit);
 
       return {
-        pedidos: pedidosWithDetails as Pedido[],
+        pedidos: pedidos.map(pedido => pedido.toJSON()) as Pedido[],
         total,
         page,
         limit,
@@ -216,18 +296,55 @@ export class PedidoDAO {
     }
   }
 
+  /**
+   * Find a page of pedidos with keyset (cursor) pagination, without counting
+   */
+  async findPedidosPage(options: {
+    filters?: PedidoFilters;
+    order?: [string, 'ASC' | 'DESC'];
+    page: CursorPageRequest;
+    include?: PedidoInclude[];
+    fields?: PedidoField[];
+    query?: ListQueryParams;
+  }): Promise<{ pedidos: PedidoWithDetails[]; pageInfo: CursorPageInfo }> {
+    try {
+      const include = options.include || [];
+      const listQuery = parseListQuery(options.query, PEDIDO_QUERY_SPEC);
+
+      const { rows, pageInfo } = await CursorPaginator.findPage(Pedido, {
+        where: combineWhere(this.buildWhere(options.filters || {}), listQuery.where),
+        order: cursorOrder(listQuery.order, options.order || ['createdAt', 'DESC']),
+        page: options.page,
+        attributes: options.fields ? this.buildAttributes(options.fields, include) : undefined,
+        include: this.buildIncludes(include),
+        includeOrder: this.includeOrder(include)
+      });
+
+      return { pedidos: rows.map(pedido => pedido.toJSON()) as PedidoWithDetails[], pageInfo };
+    } catch (error) {
+      Logger.error('Error finding pedidos page:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update pedido by ID
+   * The estado is not writable here; it only changes through updateEstado
    */
-  async update(id: number, data: Partial<PedidoAttributes>): Promise<Pedido | null> {
+  async update(id: number, data: Partial<PedidoAttributes>, options: { transaction?: Transaction } = {}): Promise<Pedido | null> {
     try {
-      const pedido = await Pedido.findByPk(id);
+      if (data.estado !== undefined) {
+        throw new Error('Pedido estado can only be changed through updateEstado');
+      }
+
+      const { transaction } = options;
+      const pedido = await Pedido.findByPk(id, { transaction });
       
       if (!pedido) {
         return null;
       }
 
-      await pedido.update(data);
+      await pedido.update(data, { transaction });
       Logger.info(`Pedido updated: ${pedido.id}`);
       return pedido;
     } catch (error) {
@@ -236,6 +353,44 @@ export class PedidoDAO {
     }
   }
 
+  /**
+   * Find pedidos whose stored encrypted data is not under the given key
+   * Keyset pagination by id so rows that fail to re-encrypt are not revisited
+   */
+  async findEncryptedNotUsingKey(keyId: string, afterId: number, limit: number): Promise<Pedido[]> {
+    try {
+      return await Pedido.findAll({
+        where: {
+          id: { [Op.gt]: afterId },
+          datosCifrados: { [Op.ne]: null },
+          claveId: { [Op.or]: [{ [Op.ne]: keyId }, { [Op.is]: null }] }
+        },
+        order: [['id', 'ASC']],
+        limit
+      });
+    } catch (error) {
+      Logger.error('Error finding pedidos pending key rotation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace stored encrypted data only if it is still under the expected key
+   */
+  async replaceEncryptedData(id: number, previousKeyId: string | null, datosCifrados: string, claveId: string): Promise<boolean> {
+    try {
+      const [affectedCount] = await Pedido.update(
+        { datosCifrados, claveId },
+        { where: { id, claveId: previousKeyId } }
+      );
+
+      return affectedCount > 0;
+    } catch (error) {
+      Logger.error('Error replacing pedido encrypted data:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete pedido by ID (cascade delete detalles)
    */
@@ -266,28 +421,17 @@ export class PedidoDAO {
    */
   async findByCliente(clienteId: number, includeDetails: boolean = true): Promise<PedidoWithDetails[]> {
     try {
-      const pedidos = await Pedido.findAll({
-        where: { clienteId },
-        order: [['fecha', 'DESC']]
-      });
-
       if (!includeDetails) {
-        return pedidos as PedidoWithDetails[];
+        return await Pedido.findAll({
+          where: { clienteId },
+          order: [['fecha', 'DESC']]
+        }) as PedidoWithDetails[];
       }
 
-      const pedidosWithDetails = await Promise.all(
-        pedidos.map(async (pedido) => {
-          const detalles = await DetallePedido.findAll({
-            where: { pedidoId: pedido.id }
-          });
-          return {
-            ...pedido.toJSON(),
-            detalles
-          };
-        })
-      );
-
-      return pedidosWithDetails as PedidoWithDetails[];
+      return await this.findWithDetalles({
+        where: { clienteId },
+        order: [['fecha', 'DESC']]
+      });
     } catch (error) {
       Logger.error('Error finding pedidos by cliente:', error);
       throw error;
@@ -300,33 +444,20 @@ export class PedidoDAO {
   async findByProducto(productoId: number): Promise<PedidoWithDetails[]> {
     try {
       const detalles = await DetallePedido.findAll({
-        where: { productoId }
+        where: { productoId },
+        attributes: ['pedidoId']
       });
 
-      const pedidoIds = detalles.map(detalle => detalle.pedidoId);
+      const pedidoIds = [...new Set(detalles.map(detalle => detalle.pedidoId))];
       
       if (pedidoIds.length === 0) {
         return [];
       }
 
-      const pedidos = await Pedido.findAll({
+      return await this.findWithDetalles({
         where: { id: { [Op.in]: pedidoIds } },
         order: [['fecha', 'DESC']]
       });
-
-      const pedidosWithDetails = await Promise.all(
-        pedidos.map(async (pedido) => {
-          const pedidoDetalles = await DetallePedido.findAll({
-            where: { pedidoId: pedido.id }
-          });
-          return {
-            ...pedido.toJSON(),
-            detalles: pedidoDetalles
-          };
-        })
-      );
-
-      return pedidosWithDetails as PedidoWithDetails[];
     } catch (error) {
       Logger.error('Error finding pedidos by producto:', error);
       throw error;
@@ -334,28 +465,57 @@ export class PedidoDAO {
   }
 
   /**
-   * Update pedido estado
+   * Update pedido estado through the order state machine and record the change in its historial
+   * Returns null when the pedido does not exist; invalid transitions throw PedidoTransitionError
    */
-  async updateEstado(id: number, estado: 'pendiente' | 'confirmado' | 'enviado' | 'entregado' | 'cancelado'): Promise<Pedido | null> {
-    try {
-      const pedido = await Pedido.findByPk(id);
-      
+  async updateEstado(id: number, estado: PedidoEstado, options: {
+    usuarioId?: number;
+    motivo?: string;
+    referenciaEnvio?: string;
+    transaction?: Transaction;
+  } = {}): Promise<Pedido | null> {
+    const work = async (transaction: Transaction): Promise<Pedido | null> => {
+      const pedido = await Pedido.findByPk(id, { transaction, lock: true });
+
       if (!pedido) {
         return null;
       }
 
-      await pedido.update({ estado });
-      Logger.info(`Pedido estado updated: ${pedido.id} -> ${estado}`);
-      return pedido;
+      return pedidoStateMachine.transition({
+        pedido,
+        from: pedido.estado,
+        to: estado,
+        usuarioId: options.usuarioId,
+        motivo: options.motivo,
+        referenciaEnvio: options.referenciaEnvio,
+        transaction
+      }, async ({ from, referenciaEnvio }) => {
+        await pedido.update({
+          estado,
+          ...(referenciaEnvio ? { referenciaEnvio } : {})
+        }, { transaction });
+
+        await PedidoEstadoHistorial.create({
+          pedidoId: id,
+          estadoAnterior: from,
+          estadoNuevo: estado,
+          usuarioId: options.usuarioId ?? null,
+          motivo: options.motivo ?? null
+        }, { transaction });
+
+        Logger.info(`Pedido estado updated: ${pedido.id} ${from} -> ${estado}`);
+        return pedido;
+      });
+    };
+
+    try {
+      return options.transaction ? await work(options.transaction) : await this.withTransaction(work);
     } catch (error) {
       Logger.error('Error updating pedido estado:', error);
       throw error;
     }
   }
 
-  /**
-   * Get pedido statistics
-   */
   async getStatistics(): Promise<PedidoStatistics> {
     try {
       const [total, pendientes, confirmados, enviados, entregados, cancelados] = await Promise.all([
@@ -408,7 +568,7 @@ export class PedidoDAO {
    */
   async findByDateRange(fechaInicio: Date, fechaFin: Date): Promise<PedidoWithDetails[]> {
     try {
-      const pedidos = await Pedido.findAll({
+      return await this.findWithDetalles({
         where: {
           fecha: {
             [Op.between]: [fechaInicio, fechaFin]
@@ -416,20 +576,6 @@ export class PedidoDAO {
         },
         order: [['fecha', 'DESC']]
       });
-
-      const pedidosWithDetails = await Promise.all(
-        pedidos.map(async (pedido) => {
-          const detalles = await DetallePedido.findAll({
-            where: { pedidoId: pedido.id }
-          });
-          return {
-            ...pedido.toJSON(),
-            detalles
-          };
-        })
-      );
-
-      return pedidosWithDetails as PedidoWithDetails[];
     } catch (error) {
       Logger.error('Error finding pedidos by date range:', error);
       throw error;
@@ -439,7 +585,7 @@ export class PedidoDAO {
   /**
    * Find pedidos with filters and pagination (optimized for queries)
    */
-  async findAllWithFilters(filters: PedidoFilters & { page?: number; limit?: number }): Promise<{
+  async findAllWithFilters(filters: PedidoFilters & { page?: number; limit?: number }, query?: ListQueryParams): Promise<{
     pedidos: PedidoWithDetails[];
     pagination: {
       page: number;
@@ -449,43 +595,11 @@ export class PedidoDAO {
     };
   }> {
     try {
-      const {
-        clienteId,
-        usuarioId,
-        estado,
-        fechaInicio,
-        fechaFin,
-        productoId,
-        page = 1,
-        limit = 10
-      } = filters;
+      const { productoId, page = 1, limit = 10 } = filters;
 
       const offset = (page - 1) * limit;
-      
-      // Build where clause
-      const whereClause: any = {};
-      
-      if (clienteId) {
-        whereClause.clienteId = clienteId;
-      }
-      
-      if (usuarioId) {
-        whereClause.usuarioId = usuarioId;
-      }
-      
-      if (estado) {
-        whereClause.estado = estado;
-      }
-
-      if (fechaInicio || fechaFin) {
-        whereClause.fecha = {};
-        if (fechaInicio) {
-          whereClause.fecha[Op.gte] = fechaInicio;
-        }
-        if (fechaFin) {
-          whereClause.fecha[Op.lte] = fechaFin;
-        }
-      }
+      const listQuery = parseListQuery(query, PEDIDO_QUERY_SPEC);
+      const whereClause: any = combineWhere(this.buildWhere(filters), listQuery.where);
 
       // If filtering by producto, we need to join with DetallePedido
       let pedidoIds: number[] = [];
@@ -510,33 +624,12 @@ export class PedidoDAO {
       const total = await Pedido.count({ where: whereClause });
       
       // Get paginated results with detalles
-      const pedidos = await Pedido.findAll({
+      const pedidosWithDetails = await this.findWithDetalles({
         where: whereClause,
-        order: [['fecha', 'DESC']],
+        order: listQuery.order.length ? listQuery.order : [['fecha', 'DESC']],
         limit,
         offset
-      });
-
-      // Get detalles for all pedidos in one query
-      const pedidoIdsForDetalles = pedidos.map(p => p.id);
-      const allDetalles = await DetallePedido.findAll({
-        where: { pedidoId: { [Op.in]: pedidoIdsForDetalles } }
-      });
-
-      // Group detalles by pedidoId
-      const detallesByPedido: { [key: number]: DetallePedido[] } = {};
-      allDetalles.forEach(detalle => {
-        if (!detallesByPedido[detalle.pedidoId]) {
-          detallesByPedido[detalle.pedidoId] = [];
-        }
-        detallesByPedido[detalle.pedidoId].push(detalle);
-      });
-
-      // Combine pedidos with their detalles
-      const pedidosWithDetails = pedidos.map(pedido => ({
-        ...pedido.toJSON(),
-        detalles: detallesByPedido[pedido.id] || []
-      })) as PedidoWithDetails[];
+      }, ['detalles']);
 
       const totalPages = Math.ceil(total / limit);
 
@@ -553,16 +646,18 @@ export class PedidoDAO {
   /**
    * Find pedido by ID with detalles and related data
    */
-  async findByIdWithDetalles(id: number): Promise<PedidoWithDetails | null> {
+  async findByIdWithDetalles(id: number, options: { transaction?: Transaction; lock?: boolean } = {}): Promise<PedidoWithDetails | null> {
     try {
-      const pedido = await Pedido.findByPk(id);
+      const { transaction, lock = false } = options;
+      const pedido = await Pedido.findByPk(id, { transaction, lock: lock && !!transaction });
       
       if (!pedido) {
         return null;
       }
 
       const detalles = await DetallePedido.findAll({
-        where: { pedidoId: id }
+        where: { pedidoId: id },
+        transaction
       });
 
       return {
@@ -575,8 +670,17 @@ export class PedidoDAO {
     }
   }
 
+  /**
+   * Run a unit of work inside a managed transaction
+   * Commits when the callback resolves and rolls back when it throws
+   */
+  async withTransaction<T>(work: (transaction: Transaction) => Promise<T>): Promise<T> {
+    return Pedido.sequelize!.transaction(work);
+  }
+
   /**
    * Create pedido with detalles in a transaction
+   * Joins the caller's transaction when one is given, otherwise opens its own
    */
   async createWithDetalles(data: {
     clienteId: number;
@@ -590,8 +694,9 @@ export class PedidoDAO {
       precioUnitario: number;
       subtotal: number;
     }>;
-  }): Promise<PedidoWithDetails> {
-    const transaction = await Pedido.sequelize!.transaction();
+  }, options: { transaction?: Transaction } = {}): Promise<PedidoWithDetails> {
+    const ownsTransaction = !options.transaction;
+    const transaction = options.transaction || await Pedido.sequelize!.transaction();
     
     try {
       // Create pedido
@@ -604,6 +709,14 @@ export class PedidoDAO {
         fecha: new Date()
       }, { transaction });
 
+      // First historial entry: the pedido enters its initial estado
+      await PedidoEstadoHistorial.create({
+        pedidoId: pedido.id,
+        estadoAnterior: null,
+        estadoNuevo: pedido.estado,
+        usuarioId: data.usuarioId
+      }, { transaction });
+
       // Create detalles
       const detallesCreados = await Promise.all(
         data.detalles.map(detalle => 
@@ -617,7 +730,9 @@ export class PedidoDAO {
         )
       );
 
-      await transaction.commit();
+      if (ownsTransaction) {
+        await transaction.commit();
+      }
       
       Logger.info(`Pedido created with transaction: ${pedido.id} with ${detallesCreados.length} detalles`);
       
@@ -626,12 +741,58 @@ export class PedidoDAO {
         detalles: detallesCreados
       } as PedidoWithDetails;
     } catch (error) {
-      await transaction.rollback();
+      if (ownsTransaction) {
+        await transaction.rollback();
+      }
       Logger.error('Error creating pedido with detalles:', error);
       throw error;
     }
   }
 
+  /**
+   * Replace the detalles of a pedido and store the new total
+   * Lines are matched by productoId: missing ones are deleted, changed ones
+   * updated in place and new ones created
+   */
+  async replaceDetalles(pedidoId: number, detalles: Array<{
+    productoId: number;
+    cantidad: number;
+    precioUnitario: number;
+    subtotal: number;
+  }>, total: number, options: { transaction: Transaction }): Promise<void> {
+    const { transaction } = options;
+
+    try {
+      const existing = await DetallePedido.findAll({ where: { pedidoId }, transaction });
+      const keep = new Set(detalles.map(detalle => detalle.productoId));
+
+      const removedIds = existing.filter(detalle => !keep.has(detalle.productoId)).map(detalle => detalle.id);
+      if (removedIds.length > 0) {
+        await DetallePedido.destroy({ where: { id: { [Op.in]: removedIds } }, transaction });
+      }
+
+      for (const detalle of detalles) {
+        const current = existing.find(line => line.productoId === detalle.productoId);
+
+        if (!current) {
+          await DetallePedido.create({ pedidoId, ...detalle }, { transaction });
+        } else if (current.cantidad !== detalle.cantidad || Number(current.subtotal) !== detalle.subtotal) {
+          await current.update({
+            cantidad: detalle.cantidad,
+            precioUnitario: detalle.precioUnitario,
+            subtotal: detalle.subtotal
+          }, { transaction });
+        }
+      }
+
+      await Pedido.update({ total }, { where: { id: pedidoId }, transaction });
+      Logger.info(`Pedido ${pedidoId} detalles replaced: ${detalles.length} lines, total ${total}`);
+    } catch (error) {
+      Logger.error('Error replacing pedido detalles:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get pedidos by estado with pagination
    */
@@ -649,33 +810,12 @@ export class PedidoDAO {
       
       const total = await Pedido.count({ where: { estado } });
       
-      const pedidos = await Pedido.findAll({
+      const pedidosWithDetails = await this.findWithDetalles({
         where: { estado },
         order: [['fecha', 'DESC']],
         limit,
         offset
-      });
-
-      // Get detalles for all pedidos
-      const pedidoIds = pedidos.map(p => p.id);
-      const allDetalles = await DetallePedido.findAll({
-        where: { pedidoId: { [Op.in]: pedidoIds } }
-      });
-
-      // Group detalles by pedidoId
-      const detallesByPedido: { [key: number]: DetallePedido[] } = {};
-      allDetalles.forEach(detalle => {
-        if (!detallesByPedido[detalle.pedidoId]) {
-          detallesByPedido[detalle.pedidoId] = [];
-        }
-        detallesByPedido[detalle.pedidoId].push(detalle);
-      });
-
-      // Combine pedidos with their detalles
-      const pedidosWithDetails = pedidos.map(pedido => ({
-        ...pedido.toJSON(),
-        detalles: detallesByPedido[pedido.id] || []
-      })) as PedidoWithDetails[];
+      }, ['detalles']);
 
       const totalPages = Math.ceil(total / limit);
 
@@ -697,7 +837,7 @@ export class PedidoDAO {
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-      const pedidos = await Pedido.findAll({
+      return await this.findWithDetalles({
         where: {
           fecha: {
             [Op.gte]: thirtyDaysAgo
@@ -706,29 +846,6 @@ export class PedidoDAO {
         order: [['fecha', 'DESC']],
         limit
       });
-
-      // Get detalles for all pedidos
-      const pedidoIds = pedidos.map(p => p.id);
-      const allDetalles = await DetallePedido.findAll({
-        where: { pedidoId: { [Op.in]: pedidoIds } }
-      });
-
-      // Group detalles by pedidoId
-      const detallesByPedido: { [key: number]: DetallePedido[] } = {};
-      allDetalles.forEach(detalle => {
-        if (!detallesByPedido[detalle.pedidoId]) {
-          detallesByPedido[detalle.pedidoId] = [];
-        }
-        detallesByPedido[detalle.pedidoId].push(detalle);
-      });
-
-      // Combine pedidos with their detalles
-      const pedidosWithDetails = pedidos.map(pedido => ({
-        ...pedido.toJSON(),
-        detalles: detallesByPedido[pedido.id] || []
-      })) as PedidoWithDetails[];
-
-      return pedidosWithDetails;
     } catch (error) {
       Logger.error('Error getting recent pedidos:', error);
       throw error;
@@ -803,4 +920,330 @@ export class PedidoDAO {
       throw error;
     }
   }
+
+  /**
+   * Count and revenue of the pedidos that became sales since a date
+   */
+  async getSalesTotals(since?: Date): Promise<SalesTotals> {
+    try {
+      const result = await Pedido.findOne({
+        attributes: [
+          [Pedido.sequelize!.fn('COUNT', Pedido.sequelize!.col('id')), 'pedidos'],
+          [Pedido.sequelize!.fn('SUM', Pedido.sequelize!.col('total')), 'ventas']
+        ],
+        where: this.salesWhere(since),
+        raw: true
+      }) as any;
+
+      return {
+        pedidos: parseInt(result?.pedidos || '0'),
+        ventas: parseFloat(result?.ventas || '0')
+      };
+    } catch (error) {
+      Logger.error('Error getting sales totals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pendiente pedidos waiting to be confirmed: count, value and oldest fecha
+   */
+  async getPendingBacklog(): Promise<PendingBacklog> {
+    try {
+      const result = await Pedido.findOne({
+        attributes: [
+          [Pedido.sequelize!.fn('COUNT', Pedido.sequelize!.col('id')), 'pedidos'],
+          [Pedido.sequelize!.fn('SUM', Pedido.sequelize!.col('total')), 'valor'],
+          [Pedido.sequelize!.fn('MIN', Pedido.sequelize!.col('fecha')), 'masAntiguo']
+        ],
+        where: { estado: 'pendiente' },
+        raw: true
+      }) as any;
+
+      return {
+        pedidos: parseInt(result?.pedidos || '0'),
+        valor: parseFloat(result?.valor || '0'),
+        masAntiguo: result?.masAntiguo ? new Date(result.masAntiguo) : null
+      };
+    } catch (error) {
+      Logger.error('Error getting pending backlog:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Usuarios with the highest revenue since a date
+   */
+  async getTopVendedores(limit: number = 5, since?: Date): Promise<TopVendedor[]> {
+    try {
+      const rows = await Pedido.findAll({
+        attributes: [
+          'usuarioId',
+          [Pedido.sequelize!.fn('COUNT', Pedido.sequelize!.col('Pedido.id')), 'pedidos'],
+          [Pedido.sequelize!.fn('SUM', Pedido.sequelize!.col('Pedido.total')), 'ventas']
+        ],
+        include: [{ association: 'usuario', attributes: ['nombre', 'email'] }],
+        where: this.salesWhere(since),
+        group: ['Pedido.usuarioId', 'usuario.id'],
+        order: [[Pedido.sequelize!.literal('"ventas"'), 'DESC']],
+        limit,
+        subQuery: false,
+        raw: true
+      }) as any[];
+
+      return rows.map(row => ({
+        usuarioId: row.usuarioId,
+        nombre: row['usuario.nombre'] ?? null,
+        email: row['usuario.email'] ?? null,
+        pedidos: parseInt(row.pedidos),
+        ventas: parseFloat(row.ventas || '0')
+      }));
+    } catch (error) {
+      Logger.error('Error getting top vendedores:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Productos with the most units sold since a date
+   */
+  async getTopProductos(limit: number = 5, since?: Date): Promise<TopProducto[]> {
+    try {
+      const rows = await DetallePedido.findAll({
+        attributes: [
+          'productoId',
+          [DetallePedido.sequelize!.fn('SUM', DetallePedido.sequelize!.col('DetallePedido.cantidad')), 'unidades'],
+          [DetallePedido.sequelize!.fn('SUM', DetallePedido.sequelize!.col('DetallePedido.subtotal')), 'ventas']
+        ],
+        include: [
+          { association: 'pedido', attributes: [], where: this.salesWhere(since) },
+          { association: 'producto', attributes: ['codigo', 'nombre'] }
+        ],
+        group: ['DetallePedido.productoId', 'producto.id'],
+        order: [[DetallePedido.sequelize!.literal('"unidades"'), 'DESC']],
+        limit,
+        subQuery: false,
+        raw: true
+      }) as any[];
+
+      return rows.map(row => ({
+        productoId: row.productoId,
+        codigo: row['producto.codigo'] ?? null,
+        nombre: row['producto.nombre'] ?? null,
+        unidades: parseInt(row.unidades),
+        ventas: parseFloat(row.ventas || '0')
+      }));
+    } catch (error) {
+      Logger.error('Error getting top productos:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pedido count and revenue per time bucket, aggregated in Postgres
+   * Buckets are truncated in the given timezone and every bucket from `from` up to the
+   * exclusive `to` is returned, with zeros when nothing was sold. With groupBy, each group that sold in the
+   * range gets the full set of buckets.
+   */
+  async getSalesTimeSeries(query: SalesTimeSeriesQuery): Promise<SalesTimeSeriesRow[]> {
+    try {
+      const group = query.groupBy ? SALES_GROUPS[query.groupBy] : null;
+      const step = SALES_BUCKET_STEPS[query.bucket];
+
+      const sql = `
+        WITH buckets AS (
+          SELECT generate_series(
+            date_trunc(:bucket, CAST(:from AS timestamptz) AT TIME ZONE :timezone),
+            date_trunc(:bucket, CAST(:until AS timestamptz) AT TIME ZONE :timezone),
+            CAST('${step}' AS interval)
+          ) AS bucket
+        ),
+        sales AS (
+          SELECT date_trunc(:bucket, p.fecha AT TIME ZONE :timezone) AS bucket,
+                 ${group ? group.id : 'NULL::text'} AS "grupoId",
+                 ${group ? group.label : 'NULL::text'} AS grupo,
+                 COUNT(DISTINCT p.id) AS pedidos,
+                 SUM(${group ? group.amount : 'p.total'}) AS ventas
+          FROM ${TABLES.PEDIDOS} p
+          ${group ? group.join : ''}
+          WHERE p.fecha >= :from AND p.fecha < :to AND p.estado IN (:estados)
+          GROUP BY 1, 2, 3
+        ),
+        groups AS (
+          ${group ? 'SELECT DISTINCT "grupoId", grupo FROM sales' : 'SELECT NULL::text AS "grupoId", NULL::text AS grupo'}
+        )
+        SELECT to_char(b.bucket, 'YYYY-MM-DD') AS bucket,
+               g."grupoId",
+               g.grupo,
+               COALESCE(s.pedidos, 0) AS pedidos,
+               COALESCE(s.ventas, 0) AS ventas
+        FROM buckets b
+        CROSS JOIN groups g
+        LEFT JOIN sales s ON s.bucket = b.bucket AND s."grupoId" IS NOT DISTINCT FROM g."grupoId"
+        ORDER BY g.grupo NULLS LAST, g."grupoId", b.bucket
+      `;
+
+      const rows = await Pedido.sequelize!.query<any>(sql, {
+        replacements: {
+          bucket: query.bucket,
+          from: query.from,
+          to: query.to,
+          // Last instant before the exclusive end, so a `to` on a bucket boundary adds no empty bucket
+          until: new Date(query.to.getTime() - 1),
+          timezone: query.timezone,
+          estados: query.estados
+        },
+        type: QueryTypes.SELECT
+      });
+
+      return rows.map(row => ({
+        bucket: row.bucket,
+        grupoId: row.grupoId ?? null,
+        grupo: row.grupo ?? null,
+        pedidos: parseInt(row.pedidos),
+        ventas: parseFloat(row.ventas)
+      }));
+    } catch (error) {
+      Logger.error('Error getting sales time series:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Best global search matches by pedido id, cliente nombre or documento and observaciones
+   * usuarioId limits the search to the pedidos of one vendedor
+   */
+  async rankedSearch(term: string, limit: number, options: { usuarioId?: number } = {}): Promise<SearchHitPage> {
+    try {
+      const { usuarioId } = options;
+
+      return await runSearchQuery(Pedido.sequelize!, 'pedido', term, `
+        SELECT p.id, 'Pedido #' || p.id AS title, c.nombre || ' · ' || p.estado AS subtitle, m.*, COUNT(*) OVER () AS total
+        FROM ${TABLES.PEDIDOS} p
+        JOIN ${TABLES.CLIENTES} c ON c.id = p."clienteId"
+        ${bestMatchSql([
+          // Only a whole id is a match; "1" should not bring up pedidos 10 to 19
+          ['id', 'CASE WHEN p.id::text = :term THEN p.id END', 1],
+          ['cliente', 'c.nombre', 0.9],
+          ['documento', 'c.documento', 0.9],
+          ['observaciones', 'p.observaciones', 0.6]
+        ])}
+        WHERE m.score > 0
+          ${usuarioId !== undefined ? 'AND p."usuarioId" = :usuarioId' : ''}
+        ORDER BY m.score DESC, p.id DESC
+        LIMIT :limit
+      `, { limit, usuarioId });
+    } catch (error) {
+      Logger.error('Error ranking pedidos for global search:', error);
+      throw error;
+    }
+  }
+
+  private buildWhere(filters: PedidoFilters): any {
+    const whereClause: any = {};
+
+    if (filters.clienteId) {
+      whereClause.clienteId = filters.clienteId;
+    }
+
+    if (filters.usuarioId) {
+      whereClause.usuarioId = filters.usuarioId;
+    }
+
+    if (filters.estado) {
+      whereClause.estado = filters.estado;
+    }
+
+    if (filters.fechaInicio || filters.fechaFin) {
+      whereClause.fecha = {};
+      if (filters.fechaInicio) {
+        whereClause.fecha[Op.gte] = filters.fechaInicio;
+      }
+      if (filters.fechaFin) {
+        whereClause.fecha[Op.lte] = filters.fechaFin;
+      }
+    }
+
+    if (filters.minTotal !== undefined || filters.maxTotal !== undefined) {
+      whereClause.total = {};
+      if (filters.minTotal !== undefined) {
+        whereClause.total[Op.gte] = filters.minTotal;
+      }
+      if (filters.maxTotal !== undefined) {
+        whereClause.total[Op.lte] = filters.maxTotal;
+      }
+    }
+
+    return whereClause;
+  }
+
+  /**
+   * Run a pedido query with its associations eager-loaded (all of them unless the caller picks)
+   * and return plain objects
+   */
+  private async findWithDetalles(options: {
+    where: any;
+    order: OrderItem[];
+    limit?: number;
+    offset?: number;
+  }, include: readonly PedidoInclude[] = PEDIDO_INCLUDES): Promise<PedidoWithDetails[]> {
+    const pedidos = await Pedido.findAll({
+      ...options,
+      include: this.buildIncludes(include),
+      order: [...options.order, ...this.includeOrder(include)]
+    });
+
+    return pedidos.map(pedido => pedido.toJSON()) as PedidoWithDetails[];
+  }
+
+  private buildIncludes(include: readonly PedidoInclude[]): Includeable[] {
+    const includes: Includeable[] = [];
+
+    if (include.includes('detalles') || include.includes('detalles.producto')) {
+      includes.push({
+        model: DetallePedido,
+        as: 'detalles',
+        include: include.includes('detalles.producto')
+          ? [{ model: Producto, as: 'producto', attributes: ['id', 'codigo', 'nombre', 'categoria', 'precio'] }]
+          : []
+      });
+    }
+
+    if (include.includes('cliente')) {
+      includes.push({ model: Cliente, as: 'cliente', attributes: ['id', 'nombre', 'email', 'documento', 'tipoDocumento'] });
+    }
+
+    if (include.includes('usuario')) {
+      includes.push({ model: Usuario, as: 'usuario', attributes: ['id', 'nombre', 'email', 'rol'] });
+    }
+
+    return includes;
+  }
+
+  // Keep detalles in insertion order inside each pedido
+  private includeOrder(include: readonly PedidoInclude[]): OrderItem[] {
+    return include.some(item => item.startsWith('detalles'))
+      ? [[{ model: DetallePedido, as: 'detalles' }, 'id', 'ASC']]
+      : [];
+  }
+
+  // id, and the foreign key of each included belongsTo, are always selected so includes can be joined
+  private buildAttributes(fields: readonly PedidoField[], include: readonly PedidoInclude[]): string[] {
+    const required = ['id'];
+    if (include.includes('cliente')) {
+      required.push('clienteId');
+    }
+    if (include.includes('usuario')) {
+      required.push('usuarioId');
+    }
+
+    return [...new Set<string>([...required, ...fields])];
+  }
+
+  private salesWhere(since?: Date): any {
+    return {
+      estado: { [Op.in]: [...SALE_ORDER_STATUSES] },
+      ...(since && { fecha: { [Op.gte]: since } })
+    };
+  }
 }
@@ -0,0 +1,40 @@
+import { PedidoEstadoHistorial, PedidoEstadoHistorialCreationAttributes } from '../models/PedidoEstadoHistorial';
+import { Usuario } from '../models/Usuario';
+import { Logger } from '../utils/helpers';
+import { Transaction } from 'sequelize';
+
+export class PedidoEstadoHistorialDAO {
+  /**
+   * Record an estado change of a pedido
+   */
+  async create(data: PedidoEstadoHistorialCreationAttributes, options: { transaction?: Transaction } = {}): Promise<PedidoEstadoHistorial> {
+    try {
+      const entry = await PedidoEstadoHistorial.create(data, { transaction: options.transaction });
+      Logger.info(`Pedido ${entry.pedidoId} estado recorded: ${entry.estadoAnterior ?? '-'} -> ${entry.estadoNuevo}`);
+      return entry;
+    } catch (error) {
+      Logger.error('Error recording pedido estado change:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the estado timeline of a pedido, oldest first
+   */
+  async findByPedido(pedidoId: number): Promise<PedidoEstadoHistorial[]> {
+    try {
+      return await PedidoEstadoHistorial.findAll({
+        where: { pedidoId },
+        include: [{
+          model: Usuario,
+          as: 'usuario',
+          attributes: ['id', 'nombre', 'email']
+        }],
+        order: [['fecha', 'ASC'], ['id', 'ASC']]
+      });
+    } catch (error) {
+      Logger.error('Error finding pedido estado historial:', error);
+      throw error;
+    }
+  }
+}
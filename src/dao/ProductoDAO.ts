@@ -1,7 +1,13 @@
 import { Producto, ProductoAttributes, ProductoCreationAttributes } from '../models/Producto';
+import { MovimientoInventario, MotivoMovimiento } from '../models/MovimientoInventario';
 import { BaseDAO } from './BaseDAO';
+import { CursorPaginator, CursorPageRequest, CursorPageInfo } from './CursorPaginator';
+import { ListQueryParams, ListQuerySpec, combineWhere, cursorOrder, parseListQuery } from './ListQuery';
+import { SearchHitPage, bestMatchSql, escapeHtml, runSearchQuery } from './GlobalSearch';
 import { Logger } from '../utils/helpers';
-import { Op } from 'sequelize';
+import { stockOutsTotal } from '../utils/metrics';
+import { PRODUCT_SEARCH } from '../constants';
+import { Op, QueryTypes, Transaction } from 'sequelize';
 
 export interface ProductoFilters {
   categoria?: string;
@@ -34,13 +40,89 @@ export interface ProductoStatistics {
   totalValue: number;
 }
 
+/**
+ * Fields productos can be filtered and sorted by through filter[...] and sort
+ */
+export const PRODUCTO_QUERY_SPEC: ListQuerySpec = {
+  filters: {
+    codigo: { type: 'string' },
+    nombre: { type: 'string' },
+    categoria: { type: 'string' },
+    precio: { type: 'number' },
+    stock: { type: 'integer' },
+    stockReservado: { type: 'integer' },
+    activo: { type: 'boolean' },
+    createdAt: { type: 'date' }
+  },
+  sort: ['codigo', 'nombre', 'categoria', 'precio', 'stock', 'createdAt', 'updatedAt']
+};
+
+/**
+ * Producto matched by full-text search, with its relevance and highlighted text
+ */
+export interface ProductoSearchResult extends ProductoAttributes {
+  rank: number;
+  highlight: {
+    nombre: string;
+    descripcion: string | null;
+  };
+}
+
+/**
+ * Turn free text into a Spanish tsquery that ANDs its words and prefix-matches the last
+ * one, so "balon fut" finds "Balón de fútbol" while it is still being typed.
+ * Returns null when the text has no searchable words.
+ */
+export function toSearchQuery(text: string): string | null {
+  // Only letters and digits reach the tsquery, so its operators cannot be injected
+  const terms = text.normalize('NFC').split(/[^\p{L}\p{N}]+/u).filter(Boolean).slice(0, PRODUCT_SEARCH.MAX_TERMS);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map((term, index) => (index === terms.length - 1 ? `${term}:*` : term)).join(' & ');
+}
+
+// ts_headline marks matches with these control characters instead of tags, so the
+// stored text can be HTML-escaped before the marks become <mark> tags
+const HEADLINE_START = '\u0002';
+const HEADLINE_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel="${HEADLINE_START}", StopSel="${HEADLINE_STOP}"`;
+
+/**
+ * Turn a ts_headline result into HTML with the matches between <mark> tags
+ */
+export function headlineToHtml(headline: string): string {
+  return escapeHtml(headline).split(HEADLINE_START).join('<mark>').split(HEADLINE_STOP).join('</mark>');
+}
+
+/**
+ * Who or what caused a stock change, recorded in the kardex
+ */
+export interface StockMovementContext {
+  motivo?: MotivoMovimiento;
+  pedidoId?: number;
+  usuarioId?: number;
+}
+
 export class ProductoDAO {
   /**
    * Create a new producto
+   * Initial stock is recorded in the kardex as a recepcion
    */
-  async create(data: ProductoCreationAttributes): Promise<Producto> {
+  async create(data: ProductoCreationAttributes, options: { usuarioId?: number } = {}): Promise<Producto> {
     try {
-      const producto = await Producto.create(data);
+      const producto = await this.inTransaction(undefined, async (transaction) => {
+        const created = await Producto.create(data, { transaction });
+
+        if (created.stock > 0) {
+          await this.recordMovement(created, created.stock, 'recepcion', options, transaction);
+        }
+
+        return created;
+      });
+
       Logger.info(`Producto created: ${producto.codigo}`);
       return producto;
     } catch (error) {
@@ -97,45 +179,19 @@ export class ProductoDAO {
     filters?: ProductoFilters;
     pagination?: ProductoPaginationOptions;
     order?: [string, 'ASC' | 'DESC'][];
+    query?: ListQueryParams;
   }): Promise<ProductoListResult> {
     try {
       const {
         filters = {},
         pagination = { page: 1, limit: 10 },
-        order = [['createdAt', 'DESC']]
+        query
       } = options || {};
 
       const { page = 1, limit = 10, offset = (page - 1) * limit } = pagination;
-      
-      // Build where clause
-      const whereClause: any = {};
-      
-      if (filters.categoria) {
-        whereClause.categoria = filters.categoria;
-      }
-      
-      if (filters.activo !== undefined) {
-        whereClause.activo = filters.activo;
-      }
-      
-      if (filters.search) {
-        whereClause[Op.or] = [
-          { nombre: { [Op.iLike]: `%${filters.search}%` } },
-          { codigo: { [Op.iLike]: `%${filters.search}%` } },
-          { descripcion: { [Op.iLike]: `%${filters.search}%` } }
-        ];
-      }
-
-      if (filters.minPrecio !== undefined) {
-        whereClause.precio = { [Op.gte]: filters.minPrecio };
-      }
-
-      if (filters.maxPrecio !== undefined) {
-        whereClause.precio = { 
-          ...whereClause.precio,
-          [Op.lte]: filters.maxPrecio 
-        };
-      }
+      const listQuery = parseListQuery(query, PRODUCTO_QUERY_SPEC);
+      const whereClause = combineWhere(this.buildWhere(filters), listQuery.where);
+      const order = listQuery.order.length ? listQuery.order : options?.order || [['createdAt', 'DESC']];
 
       // Get total count
       const total = await Producto.count({ where: whereClause });
@@ -163,20 +219,199 @@ export class ProductoDAO {
     }
   }
 
+  /**
+   * Find a page of productos with keyset (cursor) pagination, without counting
+   */
+  async findProductosPage(options: {
+    filters?: ProductoFilters;
+    order?: [string, 'ASC' | 'DESC'];
+    page: CursorPageRequest;
+    query?: ListQueryParams;
+  }): Promise<{ productos: Producto[]; pageInfo: CursorPageInfo }> {
+    try {
+      const listQuery = parseListQuery(options.query, PRODUCTO_QUERY_SPEC);
+
+      const { rows, pageInfo } = await CursorPaginator.findPage(Producto, {
+        where: combineWhere(this.buildWhere(options.filters || {}), listQuery.where),
+        order: cursorOrder(listQuery.order, options.order || ['createdAt', 'DESC']),
+        page: options.page
+      });
+
+      return { productos: rows, pageInfo };
+    } catch (error) {
+      Logger.error('Error finding productos page:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Full-text search ranked by relevance, with the matches highlighted
+   * Matching ignores accents and case, stems Spanish words and prefix-matches the last
+   * word for typeahead; nombre and codigo hits outrank categoria and descripcion ones.
+   */
+  async searchProductos(options: {
+    term: string;
+    limit?: number;
+    offset?: number;
+    categoria?: string;
+    activo?: boolean;
+  }): Promise<{ productos: ProductoSearchResult[]; total: number }> {
+    try {
+      const { term, limit = PRODUCT_SEARCH.DEFAULT_LIMIT, offset = 0, categoria, activo } = options;
+      const query = toSearchQuery(term);
+
+      if (!query) {
+        return { productos: [], total: 0 };
+      }
+
+      const config = PRODUCT_SEARCH.TS_CONFIG;
+      const sql = `
+        WITH q AS (SELECT to_tsquery('${config}', :query) AS query)
+        SELECT
+          p.id, p.codigo, p.nombre, p.descripcion, p.precio, p.stock, p."stockReservado",
+          p.categoria, p.activo, p."createdAt", p."updatedAt",
+          ts_rank_cd(p."searchVector", q.query) AS rank,
+          ts_headline('${config}', p.nombre, q.query, :nombreOptions) AS "nombreHighlight",
+          CASE WHEN p.descripcion IS NULL THEN NULL
+            ELSE ts_headline('${config}', p.descripcion, q.query, :descripcionOptions)
+          END AS "descripcionHighlight",
+          COUNT(*) OVER () AS total
+        FROM productos p, q
+        WHERE p."searchVector" @@ q.query
+          ${activo !== undefined ? 'AND p.activo = :activo' : ''}
+          ${categoria ? 'AND p.categoria = :categoria' : ''}
+        ORDER BY rank DESC, p.nombre ASC, p.id ASC
+        LIMIT :limit OFFSET :offset
+      `;
+
+      const rows = await Producto.sequelize!.query<any>(sql, {
+        replacements: {
+          query,
+          activo,
+          categoria,
+          limit,
+          offset,
+          nombreOptions: `HighlightAll=true, ${HEADLINE_OPTIONS}`,
+          descripcionOptions: `${HEADLINE_OPTIONS}, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`
+        },
+        type: QueryTypes.SELECT
+      });
+
+      return {
+        productos: rows.map(({ nombreHighlight, descripcionHighlight, total, ...row }) => ({
+          ...row,
+          precio: parseFloat(row.precio),
+          disponible: row.stock - row.stockReservado,
+          rank: parseFloat(row.rank),
+          highlight: {
+            nombre: headlineToHtml(nombreHighlight),
+            descripcion: descripcionHighlight === null ? null : headlineToHtml(descripcionHighlight)
+          }
+        })),
+        total: rows.length > 0 ? parseInt(rows[0].total) : 0
+      };
+    } catch (error) {
+      Logger.error('Error searching productos:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Best global search matches, scored on the scale shared by all entities
+   */
+  async rankedSearch(term: string, limit: number): Promise<SearchHitPage> {
+    try {
+      return await runSearchQuery(Producto.sequelize!, 'producto', term, `
+        SELECT p.id, p.nombre AS title, p.codigo AS subtitle, m.*, COUNT(*) OVER () AS total
+        FROM productos p
+        ${bestMatchSql([
+          ['nombre', 'p.nombre', 1],
+          ['codigo', 'p.codigo', 1],
+          ['categoria', 'p.categoria', 0.6],
+          ['descripcion', 'p.descripcion', 0.5]
+        ])}
+        WHERE m.score > 0
+        ORDER BY m.score DESC, p.id ASC
+        LIMIT :limit
+      `, { limit });
+    } catch (error) {
+      Logger.error('Error ranking productos for global search:', error);
+      throw error;
+    }
+  }
+
+  private buildWhere(filters: ProductoFilters): any {
+    const whereClause: any = {};
+
+    if (filters.categoria) {
+      whereClause.categoria = filters.categoria;
+    }
+
+    if (filters.activo !== undefined) {
+      whereClause.activo = filters.activo;
+    }
+
+    if (filters.search) {
+      const sequelize = Producto.sequelize!;
+      const query = toSearchQuery(filters.search);
+
+      // Same accent-insensitive, indexed match as searchProductos; text without words matches nothing
+      whereClause[Op.and] = [query
+        ? sequelize.literal(`"searchVector" @@ to_tsquery('${PRODUCT_SEARCH.TS_CONFIG}', ${sequelize.escape(query)})`)
+        : sequelize.literal('false')];
+    }
+
+    if (filters.minPrecio !== undefined) {
+      whereClause.precio = { [Op.gte]: filters.minPrecio };
+    }
+
+    if (filters.maxPrecio !== undefined) {
+      whereClause.precio = {
+        ...whereClause.precio,
+        [Op.lte]: filters.maxPrecio
+      };
+    }
+
+    return whereClause;
+  }
+
   /**
    * Update producto by ID
    */
-  async update(id: number, data: Partial<ProductoAttributes>): Promise<Producto | null> {
+  async update(id: number, data: Partial<ProductoAttributes>, options: { usuarioId?: number } = {}): Promise<Producto | null> {
     try {
-      const producto = await Producto.findByPk(id);
-      
-      if (!producto) {
-        return null;
+      // A stock change through a plain update is a manual adjustment
+      if (data.stock === undefined) {
+        const producto = await Producto.findByPk(id);
+
+        if (!producto) {
+          return null;
+        }
+
+        await producto.update(data);
+        Logger.info(`Producto updated: ${producto.codigo}`);
+        return producto;
       }
 
-      await producto.update(data);
-      Logger.info(`Producto updated: ${producto.codigo}`);
-      return producto;
+      return await this.inTransaction(undefined, async (transaction) => {
+        const producto = await Producto.findByPk(id, { transaction, lock: true });
+
+        if (!producto) {
+          return null;
+        }
+
+        this.assertCoversReserved(producto, data.stock!, 'update');
+
+        const delta = data.stock! - producto.stock;
+        await producto.update(data, { transaction });
+
+        if (delta !== 0) {
+          await this.recordMovement(producto, delta, 'ajuste_manual', options, transaction);
+        }
+
+        Logger.info(`Producto updated: ${producto.codigo}`);
+        return producto;
+      });
     } catch (error) {
       Logger.error('Error updating producto:', error);
       throw error;
@@ -223,34 +458,48 @@ export class ProductoDAO {
   }
 
   /**
-   * Update stock
+   * Update stock and record the change in the kardex
    */
-  async updateStock(id: number, cantidad: number, operacion: 'add' | 'subtract' | 'set'): Promise<Producto | null> {
+  async updateStock(
+    id: number,
+    cantidad: number,
+    operacion: 'add' | 'subtract' | 'set',
+    options: { transaction?: Transaction } & StockMovementContext = {}
+  ): Promise<Producto | null> {
     try {
-      const producto = await Producto.findByPk(id);
-      
-      if (!producto) {
-        return null;
-      }
+      return await this.inTransaction(options.transaction, async (transaction) => {
+        const producto = await Producto.findByPk(id, { transaction, lock: true });
 
-      let newStock = producto.stock;
-      
-      switch (operacion) {
-        case 'add':
-          newStock += cantidad;
-          break;
-        case 'subtract':
-          newStock = Math.max(0, newStock - cantidad);
-          break;
-        case 'set':
-          newStock = cantidad;
-          break;
-      }
+        if (!producto) {
+          return null;
+        }
 
-      await producto.update({ stock: newStock });
-      Logger.info(`Stock updated for producto ${producto.codigo}: ${operacion} ${cantidad}`);
-      
-      return producto;
+        let newStock = producto.stock;
+
+        switch (operacion) {
+          case 'add':
+            newStock += cantidad;
+            break;
+          case 'subtract':
+            // Never below the units held by reservations
+            newStock = Math.max(producto.stockReservado, newStock - cantidad);
+            break;
+          case 'set':
+            this.assertCoversReserved(producto, cantidad, 'set');
+            newStock = cantidad;
+            break;
+        }
+
+        const delta = newStock - producto.stock;
+        await producto.update({ stock: newStock }, { transaction });
+
+        if (delta !== 0) {
+          await this.recordMovement(producto, delta, options.motivo || 'ajuste_manual', options, transaction);
+        }
+
+        Logger.info(`Stock updated for producto ${producto.codigo}: ${operacion} ${cantidad}`);
+        return producto;
+      });
     } catch (error) {
       Logger.error('Error updating stock:', error);
       throw error;
@@ -360,52 +609,253 @@ export class ProductoDAO {
 
   /**
    * Reduce stock for a producto
+   * Runs as a single conditional UPDATE so concurrent orders can never oversell;
+   * units reserved by pendiente pedidos are not available
    */
-  async reduceStock(id: number, cantidad: number): Promise<Producto | null> {
+  async reduceStock(id: number, cantidad: number, options: { transaction?: Transaction } & StockMovementContext = {}): Promise<Producto | null> {
     try {
-      const producto = await Producto.findByPk(id);
-      
+      return await this.inTransaction(options.transaction, async (transaction) => {
+        const sequelize = Producto.sequelize!;
+
+        const [affectedCount, rows] = await Producto.update(
+          { stock: sequelize.literal(`stock - ${sequelize.escape(cantidad)}`) as any },
+          {
+            where: {
+              id,
+              [Op.and]: [sequelize.where(sequelize.literal('stock - "stockReservado"'), { [Op.gte]: cantidad })]
+            },
+            returning: true,
+            transaction
+          }
+        );
+
+        if (affectedCount === 0) {
+          return this.insufficientStock(id, cantidad, 'reduce', transaction);
+        }
+
+        const producto = rows[0];
+        await this.recordMovement(producto, -cantidad, options.motivo || 'venta', options, transaction);
+
+        Logger.info(`Stock reduced for producto ${producto.codigo}: ${cantidad} units`);
+        return producto;
+      });
+    } catch (error) {
+      Logger.error('Error reducing stock:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Increase stock for a producto
+   */
+  async increaseStock(id: number, cantidad: number, options: { transaction?: Transaction } & StockMovementContext = {}): Promise<Producto | null> {
+    try {
+      return await this.inTransaction(options.transaction, async (transaction) => {
+        const sequelize = Producto.sequelize!;
+
+        const [affectedCount, rows] = await Producto.update(
+          { stock: sequelize.literal(`stock + ${sequelize.escape(cantidad)}`) as any },
+          {
+            where: { id },
+            returning: true,
+            transaction
+          }
+        );
+
+        if (affectedCount === 0) {
+          return null;
+        }
+
+        const producto = rows[0];
+        await this.recordMovement(producto, cantidad, options.motivo || 'recepcion', options, transaction);
+
+        Logger.info(`Stock increased for producto ${producto.codigo}: ${cantidad} units`);
+        return producto;
+      });
+    } catch (error) {
+      Logger.error('Error increasing stock:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stock, units reserved by pendiente pedidos, and what is left to sell
+   */
+  async getAvailableStock(id: number, options: { transaction?: Transaction } = {}): Promise<{ stock: number; stockReservado: number; disponible: number } | null> {
+    try {
+      const producto = await Producto.findByPk(id, {
+        attributes: ['id', 'stock', 'stockReservado'],
+        transaction: options.transaction
+      });
+
       if (!producto) {
         return null;
       }
 
-      if (producto.stock < cantidad) {
-        throw new Error(`Insufficient stock. Available: ${producto.stock}, Required: ${cantidad}`);
+      return { stock: producto.stock, stockReservado: producto.stockReservado, disponible: producto.disponible };
+    } catch (error) {
+      Logger.error('Error getting available stock:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hold units for a pendiente pedido without taking them out of stock
+   * Conditional UPDATE on stock - stockReservado, so two reservations cannot share the last units
+   */
+  async reserveStock(id: number, cantidad: number, options: { transaction?: Transaction } = {}): Promise<Producto | null> {
+    try {
+      const { transaction } = options;
+      const sequelize = Producto.sequelize!;
+
+      const [affectedCount, rows] = await Producto.update(
+        { stockReservado: sequelize.literal(`"stockReservado" + ${sequelize.escape(cantidad)}`) as any },
+        {
+          where: {
+            id,
+            [Op.and]: [sequelize.where(sequelize.literal('stock - "stockReservado"'), { [Op.gte]: cantidad })]
+          },
+          returning: true,
+          transaction
+        }
+      );
+
+      if (affectedCount === 0) {
+        return this.insufficientStock(id, cantidad, 'reserve', transaction);
       }
 
-      const newStock = producto.stock - cantidad;
-      await producto.update({ stock: newStock });
-      
-      Logger.info(`Stock reduced for producto ${producto.codigo}: ${cantidad} units`);
-      return producto;
+      Logger.info(`Stock reserved for producto ${rows[0].codigo}: ${cantidad} units`);
+      return rows[0];
     } catch (error) {
-      Logger.error('Error reducing stock:', error);
+      Logger.error('Error reserving stock:', error);
       throw error;
     }
   }
 
   /**
-   * Increase stock for a producto
+   * Give back reserved units without touching stock
    */
-  async increaseStock(id: number, cantidad: number): Promise<Producto | null> {
+  async releaseReservedStock(id: number, cantidad: number, options: { transaction?: Transaction } = {}): Promise<Producto | null> {
     try {
-      const producto = await Producto.findByPk(id);
-      
-      if (!producto) {
+      const { transaction } = options;
+      const sequelize = Producto.sequelize!;
+
+      const [affectedCount, rows] = await Producto.update(
+        { stockReservado: sequelize.literal(`GREATEST("stockReservado" - ${sequelize.escape(cantidad)}, 0)`) as any },
+        {
+          where: { id },
+          returning: true,
+          transaction
+        }
+      );
+
+      if (affectedCount === 0) {
         return null;
       }
 
-      const newStock = producto.stock + cantidad;
-      await producto.update({ stock: newStock });
-      
-      Logger.info(`Stock increased for producto ${producto.codigo}: ${cantidad} units`);
-      return producto;
+      Logger.info(`Reserved stock released for producto ${rows[0].codigo}: ${cantidad} units`);
+      return rows[0];
     } catch (error) {
-      Logger.error('Error increasing stock:', error);
+      Logger.error('Error releasing reserved stock:', error);
       throw error;
     }
   }
 
+  /**
+   * Turn reserved units into a real decrement and record it in the kardex
+   */
+  async commitReservedStock(id: number, cantidad: number, options: { transaction?: Transaction } & StockMovementContext = {}): Promise<Producto | null> {
+    try {
+      return await this.inTransaction(options.transaction, async (transaction) => {
+        const sequelize = Producto.sequelize!;
+
+        const [affectedCount, rows] = await Producto.update(
+          {
+            stock: sequelize.literal(`stock - ${sequelize.escape(cantidad)}`) as any,
+            stockReservado: sequelize.literal(`GREATEST("stockReservado" - ${sequelize.escape(cantidad)}, 0)`) as any
+          },
+          {
+            where: {
+              id,
+              stock: { [Op.gte]: cantidad }
+            },
+            returning: true,
+            transaction
+          }
+        );
+
+        if (affectedCount === 0) {
+          return this.insufficientStock(id, cantidad, 'commit_reservation', transaction);
+        }
+
+        const producto = rows[0];
+        await this.recordMovement(producto, -cantidad, options.motivo || 'venta', options, transaction);
+
+        Logger.info(`Reserved stock committed for producto ${producto.codigo}: ${cantidad} units`);
+        return producto;
+      });
+    } catch (error) {
+      Logger.error('Error committing reserved stock:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a failed conditional stock UPDATE: null when the producto does not exist, otherwise an insufficient stock error
+   * counted as a stock-out of the given operation
+   */
+  private async insufficientStock(id: number, cantidad: number, operation: string, transaction?: Transaction): Promise<null> {
+    const producto = await Producto.findByPk(id, { transaction });
+
+    if (!producto) {
+      return null;
+    }
+
+    stockOutsTotal.inc({ operation });
+
+    throw new Error(`Insufficient stock. Available: ${producto.disponible}, Required: ${cantidad}`);
+  }
+
+  /**
+   * Refuse a stock level below the units reserved by pendiente pedidos, counted as a stock-out of the operation
+   */
+  private assertCoversReserved(producto: Producto, stock: number, operation: string): void {
+    if (stock >= producto.stockReservado) {
+      return;
+    }
+
+    stockOutsTotal.inc({ operation });
+
+    throw new Error(`Insufficient stock. Reserved: ${producto.stockReservado}, Requested: ${stock}`);
+  }
+
+  /**
+   * Append a movement to the kardex with the stock left after it
+   */
+  private async recordMovement(
+    producto: Producto,
+    delta: number,
+    motivo: MotivoMovimiento,
+    context: StockMovementContext,
+    transaction: Transaction
+  ): Promise<void> {
+    await MovimientoInventario.create({
+      productoId: producto.id,
+      delta,
+      stockResultante: producto.stock,
+      motivo,
+      pedidoId: context.pedidoId ?? null,
+      usuarioId: context.usuarioId ?? null
+    }, { transaction });
+  }
+
+  /**
+   * Run work in the caller's transaction, or in a new one so the stock change and its movement commit together
+   */
+  private async inTransaction<T>(transaction: Transaction | undefined, work: (transaction: Transaction) => Promise<T>): Promise<T> {
+    return transaction ? work(transaction) : Producto.sequelize!.transaction(work);
+  }
+
   /**
    * Find productos by IDs
    */
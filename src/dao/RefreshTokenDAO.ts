@@ -0,0 +1,143 @@
+import { RefreshToken, RefreshTokenCreationAttributes, RefreshTokenRevokeReason } from '../models/RefreshToken';
+import { Logger } from '../utils/helpers';
+import { Op, Transaction } from 'sequelize';
+
+export class RefreshTokenDAO {
+  /**
+   * Store a newly issued refresh token
+   */
+  async create(data: RefreshTokenCreationAttributes, options: { transaction?: Transaction } = {}): Promise<RefreshToken> {
+    try {
+      const refreshToken = await RefreshToken.create(data, { transaction: options.transaction });
+      Logger.info(`Refresh token issued for usuario ${refreshToken.usuarioId}`);
+      return refreshToken;
+    } catch (error) {
+      Logger.error('Error creating refresh token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find refresh token by its jti claim
+   */
+  async findByJti(jti: string): Promise<RefreshToken | null> {
+    try {
+      return await RefreshToken.findOne({ where: { jti } });
+    } catch (error) {
+      Logger.error('Error finding refresh token by jti:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find active (not revoked, not expired) refresh tokens of a usuario
+   */
+  async findActiveByUsuario(usuarioId: number): Promise<RefreshToken[]> {
+    try {
+      return await RefreshToken.findAll({
+        where: {
+          usuarioId,
+          revokedAt: null,
+          expiresAt: { [Op.gt]: new Date() }
+        },
+        order: [['issuedAt', 'DESC']]
+      });
+    } catch (error) {
+      Logger.error('Error finding active refresh tokens:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a token as consumed by rotation
+   * Only succeeds for a token that is still unrevoked, so two concurrent
+   * refreshes with the same token cannot both rotate it
+   */
+  async markRotated(jti: string, replacedBy: string, options: { transaction?: Transaction } = {}): Promise<boolean> {
+    try {
+      const [affectedCount] = await RefreshToken.update(
+        { revokedAt: new Date(), revokedReason: 'rotated', replacedBy },
+        { where: { jti, revokedAt: null }, transaction: options.transaction }
+      );
+
+      return affectedCount > 0;
+    } catch (error) {
+      Logger.error('Error rotating refresh token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a single refresh token
+   */
+  async revoke(jti: string, reason: RefreshTokenRevokeReason): Promise<boolean> {
+    try {
+      const [affectedCount] = await RefreshToken.update(
+        { revokedAt: new Date(), revokedReason: reason },
+        { where: { jti, revokedAt: null } }
+      );
+
+      return affectedCount > 0;
+    } catch (error) {
+      Logger.error('Error revoking refresh token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every token descending from the same login
+   */
+  async revokeFamily(familyId: string, reason: RefreshTokenRevokeReason): Promise<number> {
+    try {
+      const [affectedCount] = await RefreshToken.update(
+        { revokedAt: new Date(), revokedReason: reason },
+        { where: { familyId, revokedAt: null } }
+      );
+
+      Logger.warn(`Refresh token family ${familyId} revoked (${reason}): ${affectedCount} tokens`);
+      return affectedCount;
+    } catch (error) {
+      Logger.error('Error revoking refresh token family:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every refresh token of a usuario
+   */
+  async revokeAllForUsuario(usuarioId: number, reason: RefreshTokenRevokeReason): Promise<number> {
+    try {
+      const [affectedCount] = await RefreshToken.update(
+        { revokedAt: new Date(), revokedReason: reason },
+        { where: { usuarioId, revokedAt: null } }
+      );
+
+      Logger.info(`Refresh tokens revoked for usuario ${usuarioId} (${reason}): ${affectedCount} tokens`);
+      return affectedCount;
+    } catch (error) {
+      Logger.error('Error revoking refresh tokens for usuario:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete tokens that expired before the given date
+   */
+  async deleteExpired(before: Date = new Date()): Promise<number> {
+    try {
+      return await RefreshToken.destroy({
+        where: { expiresAt: { [Op.lt]: before } }
+      });
+    } catch (error) {
+      Logger.error('Error deleting expired refresh tokens:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run work in a transaction
+   */
+  async withTransaction<T>(work: (transaction: Transaction) => Promise<T>): Promise<T> {
+    return RefreshToken.sequelize!.transaction(work);
+  }
+}
@@ -0,0 +1,69 @@
+import { ReservaStock, ReservaStockCreationAttributes, EstadoReserva } from '../models/ReservaStock';
+import { Logger } from '../utils/helpers';
+import { Op, Transaction } from 'sequelize';
+
+export class ReservaStockDAO {
+  /**
+   * Record a reservation
+   */
+  async create(data: ReservaStockCreationAttributes, options: { transaction?: Transaction } = {}): Promise<ReservaStock> {
+    try {
+      return await ReservaStock.create(data, { transaction: options.transaction });
+    } catch (error) {
+      Logger.error('Error creating stock reservation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the reservations of a pedido, locking them when asked
+   */
+  async findByPedido(pedidoId: number, options: { transaction?: Transaction; lock?: boolean } = {}): Promise<ReservaStock[]> {
+    try {
+      return await ReservaStock.findAll({
+        where: { pedidoId },
+        order: [['productoId', 'ASC']],
+        transaction: options.transaction,
+        lock: !!options.lock && !!options.transaction
+      });
+    } catch (error) {
+      Logger.error('Error finding stock reservations by pedido:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the estado or cantidad of a reservation
+   */
+  async update(id: number, data: { estado?: EstadoReserva; cantidad?: number }, options: { transaction?: Transaction } = {}): Promise<void> {
+    try {
+      await ReservaStock.update(data, { where: { id }, transaction: options.transaction });
+    } catch (error) {
+      Logger.error('Error updating stock reservation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ids of pedidos holding an activa reservation past its expiry, oldest first
+   */
+  async findExpiredPedidoIds(now: Date, limit: number = 100): Promise<number[]> {
+    try {
+      const rows = await ReservaStock.findAll({
+        attributes: ['pedidoId'],
+        where: {
+          estado: 'activa',
+          expiraEn: { [Op.lte]: now }
+        },
+        group: ['pedidoId'],
+        order: [[ReservaStock.sequelize!.fn('MIN', ReservaStock.sequelize!.col('expiraEn')), 'ASC']],
+        limit
+      });
+
+      return rows.map(row => row.pedidoId);
+    } catch (error) {
+      Logger.error('Error finding expired stock reservations:', error);
+      throw error;
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import { Usuario, UsuarioAttributes, UsuarioCreationAttributes } from '../models/Usuario';
 import { BaseDAO } from './BaseDAO';
 import { Logger } from '../utils/helpers';
+import { CursorPaginator, CursorPageRequest, CursorPageInfo } from './CursorPaginator';
+import { ListQueryParams, ListQuerySpec, combineWhere, cursorOrder, parseListQuery } from './ListQuery';
+import { SearchHitPage, bestMatchSql, runSearchQuery } from './GlobalSearch';
+import { USER_ROLES } from '../constants';
 import { Op } from 'sequelize';
 
 export interface UsuarioFilters {
@@ -23,6 +27,20 @@ export interface UsuarioListResult {
   totalPages: number;
 }
 
+/**
+ * Fields usuarios can be filtered and sorted by through filter[...] and sort
+ */
+export const USUARIO_QUERY_SPEC: ListQuerySpec = {
+  filters: {
+    nombre: { type: 'string' },
+    email: { type: 'string' },
+    rol: { type: 'string', values: Object.values(USER_ROLES) },
+    activo: { type: 'boolean' },
+    createdAt: { type: 'date' }
+  },
+  sort: ['nombre', 'email', 'rol', 'createdAt', 'updatedAt']
+};
+
 export class UsuarioDAO {
   /**
    * Create a new user
@@ -74,33 +92,19 @@ export class UsuarioDAO {
     filters?: UsuarioFilters;
     pagination?: UsuarioPaginationOptions;
     order?: [string, 'ASC' | 'DESC'][];
+    query?: ListQueryParams;
   }): Promise<UsuarioListResult> {
     try {
       const {
         filters = {},
         pagination = { page: 1, limit: 10 },
-        order = [['createdAt', 'DESC']]
+        query
       } = options || {};
 
       const { page = 1, limit = 10, offset = (page - 1) * limit } = pagination;
-      
-      // Build where clause
-      const whereClause: any = {};
-      
-      if (filters.rol) {
-        whereClause.rol = filters.rol;
-      }
-      
-      if (filters.activo !== undefined) {
-        whereClause.activo = filters.activo;
-      }
-      
-      if (filters.search) {
-        whereClause[Op.or] = [
-          { nombre: { [Op.iLike]: `%${filters.search}%` } },
-          { email: { [Op.iLike]: `%${filters.search}%` } }
-        ];
-      }
+      const listQuery = parseListQuery(query, USUARIO_QUERY_SPEC);
+      const whereClause = combineWhere(this.buildWhere(filters), listQuery.where);
+      const order = listQuery.order.length ? listQuery.order : options?.order || [['createdAt', 'DESC']];
 
       // Get total count
       const total = await Usuario.count({ where: whereClause });
@@ -129,6 +133,75 @@ export class UsuarioDAO {
     }
   }
 
+  /**
+   * Find a page of usuarios with keyset (cursor) pagination, without counting
+   */
+  async findUsuariosPage(options: {
+    filters?: UsuarioFilters;
+    order?: [string, 'ASC' | 'DESC'];
+    page: CursorPageRequest;
+    query?: ListQueryParams;
+  }): Promise<{ usuarios: Usuario[]; pageInfo: CursorPageInfo }> {
+    try {
+      const listQuery = parseListQuery(options.query, USUARIO_QUERY_SPEC);
+
+      const { rows, pageInfo } = await CursorPaginator.findPage(Usuario, {
+        where: combineWhere(this.buildWhere(options.filters || {}), listQuery.where),
+        order: cursorOrder(listQuery.order, options.order || ['createdAt', 'DESC']),
+        page: options.page,
+        attributes: { exclude: ['password'] }
+      });
+
+      return { usuarios: rows, pageInfo };
+    } catch (error) {
+      Logger.error('Error finding usuarios page:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Best global search matches, scored on the scale shared by all entities
+   */
+  async rankedSearch(term: string, limit: number): Promise<SearchHitPage> {
+    try {
+      return await runSearchQuery(Usuario.sequelize!, 'usuario', term, `
+        SELECT u.id, u.nombre AS title, u.rol::text AS subtitle, m.*, COUNT(*) OVER () AS total
+        FROM usuarios u
+        ${bestMatchSql([
+          ['nombre', 'u.nombre', 1],
+          ['email', 'u.email', 0.8]
+        ])}
+        WHERE m.score > 0
+        ORDER BY m.score DESC, u.id ASC
+        LIMIT :limit
+      `, { limit });
+    } catch (error) {
+      Logger.error('Error ranking usuarios for global search:', error);
+      throw error;
+    }
+  }
+
+  private buildWhere(filters: UsuarioFilters): any {
+    const whereClause: any = {};
+
+    if (filters.rol) {
+      whereClause.rol = filters.rol;
+    }
+
+    if (filters.activo !== undefined) {
+      whereClause.activo = filters.activo;
+    }
+
+    if (filters.search) {
+      whereClause[Op.or] = [
+        { nombre: { [Op.iLike]: `%${filters.search}%` } },
+        { email: { [Op.iLike]: `%${filters.search}%` } }
+      ];
+    }
+
+    return whereClause;
+  }
+
   /**
    * Update user by ID
    */
@@ -2,6 +2,16 @@
 import { UsuarioDAO } from './UsuarioDAO';
 import { ProductoDAO } from './ProductoDAO';
 import { ClienteDAO } from './ClienteDAO';
+import {
+  PedidoDAO,
+  SalesTotals,
+  PendingBacklog,
+  TopVendedor,
+  TopProducto,
+  SalesTimeSeriesQuery,
+  SalesTimeSeriesRow
+} from './PedidoDAO';
+import { SearchEntity, SearchHit, SearchHitPage } from './GlobalSearch';
 import { BaseDAO } from '../types/database';
 import { Logger } from '../utils/helpers';
 
@@ -42,6 +52,17 @@ export class DAOFactory {
     return this.instances.get('cliente') as ClienteDAO;
   }
 
+  /**
+   * Get PedidoDAO instance (singleton)
+   */
+  static getPedidoDAO(): PedidoDAO {
+    if (!this.instances.has('pedido')) {
+      this.instances.set('pedido', new PedidoDAO());
+      Logger.info('PedidoDAO instance created');
+    }
+    return this.instances.get('pedido') as PedidoDAO;
+  }
+
   /**
    * Clear all DAO instances (for testing)
    */
@@ -58,16 +79,42 @@ export class DAOFactory {
   }
 }
 
+export interface SalesPoint {
+  bucket: string;
+  pedidos: number;
+  ventas: number;
+}
+
+export interface SalesTimeSeries {
+  bucket: SalesTimeSeriesQuery['bucket'];
+  timezone: string;
+  from: Date;
+  to: Date;
+  estados: string[];
+  groupBy: SalesTimeSeriesQuery['groupBy'] | null;
+  totals: SalesTotals;
+  series: SalesPoint[];
+  groups?: Array<{ id: string | null; nombre: string | null; totals: SalesTotals; series: SalesPoint[] }>;
+}
+
+export interface GlobalSearchResult {
+  results: SearchHit[];
+  totals: Record<SearchEntity, number>;
+  totalResults: number;
+}
+
 // DAO Manager for advanced operations
 export class DAOManager {
   private usuarioDAO: UsuarioDAO;
   private productoDAO: ProductoDAO;
   private clienteDAO: ClienteDAO;
+  private pedidoDAO: PedidoDAO;
 
   constructor() {
     this.usuarioDAO = DAOFactory.getUsuarioDAO();
     this.productoDAO = DAOFactory.getProductoDAO();
     this.clienteDAO = DAOFactory.getClienteDAO();
+    this.pedidoDAO = DAOFactory.getPedidoDAO();
   }
 
   /**
@@ -77,33 +124,69 @@ export class DAOManager {
     usuarios: any;
     productos: any;
     clientes: any;
+    pedidos: {
+      ventas: { hoy: SalesTotals; semana: SalesTotals; mes: SalesTotals };
+      pendientes: PendingBacklog;
+      topVendedores: TopVendedor[];
+      topProductos: TopProducto[];
+    };
     summary: {
       totalUsuarios: number;
       totalProductos: number;
       totalClientes: number;
       lowStockProductos: number;
       recentClientes: number;
+      pedidosPendientes: number;
+      ventasEsteMes: number;
     };
   }> {
     try {
-      const [usuarioStats, productoStats, clienteStats, lowStockProductos, recentClientes] = await Promise.all([
+      const { hoy, inicioSemana, inicioMes } = this.salesPeriods();
+
+      const [
+        usuarioStats,
+        productoStats,
+        clienteStats,
+        lowStockProductos,
+        recentClientes,
+        ventasHoy,
+        ventasSemana,
+        ventasMes,
+        pendientes,
+        topVendedores,
+        topProductos
+      ] = await Promise.all([
         this.usuarioDAO.getStatistics(),
         this.productoDAO.getStatistics(),
         this.clienteDAO.getStatistics(),
         this.productoDAO.findLowStock(10),
-        this.clienteDAO.findRecent(7, 5)
+        this.clienteDAO.findRecent(7, 5),
+        this.pedidoDAO.getSalesTotals(hoy),
+        this.pedidoDAO.getSalesTotals(inicioSemana),
+        this.pedidoDAO.getSalesTotals(inicioMes),
+        this.pedidoDAO.getPendingBacklog(),
+        this.pedidoDAO.getTopVendedores(5, inicioMes),
+        this.pedidoDAO.getTopProductos(5, inicioMes)
       ]);
 
       return {
         usuarios: usuarioStats,
         productos: productoStats,
         clientes: clienteStats,
+        pedidos: {
+          ventas: { hoy: ventasHoy, semana: ventasSemana, mes: ventasMes },
+          pendientes,
+          topVendedores,
+          topProductos
+        },
         summary: {
           totalUsuarios: usuarioStats.total,
           totalProductos: productoStats.total,
           totalClientes: clienteStats.total,
           lowStockProductos: lowStockProductos.length,
-          recentClientes: recentClientes.length
+          recentClientes: recentClientes.length,
+          pedidosPendientes: pendientes.pedidos,
+          ventasEsteMes: ventasMes.ventas
         }
       };
     } catch (error) {
@@ -113,38 +196,35 @@ export class DAOManager {
   }
 
   /**
-   * Search across all entities
+   * Search across all entities and merge the matches into one ranked list
+   * Each entity returns its own best `limit` matches on the shared score scale, so the
+   * merged top `limit` is exact. Vendedores get no usuarios and only their own pedidos.
    */
-  async globalSearch(searchTerm: string, limit: number = 10): Promise<{
-    usuarios: any[];
-    productos: any[];
-    clientes: any[];
-    totalResults: number;
-  }> {
+  async globalSearch(searchTerm: string, limit: number = 10, viewer: { id: number; rol: string }): Promise<GlobalSearchResult> {
     try {
-      const [usuarios, productos, clientes] = await Promise.all([
-        this.usuarioDAO.findAll({
-          filters: { search: searchTerm },
-          pagination: { page: 1, limit: Math.ceil(limit / 3) },
-          order: [['nombre', 'ASC']]
-        }),
-        this.productoDAO.findAll({
-          filters: { search: searchTerm },
-          pagination: { page: 1, limit: Math.ceil(limit / 3) },
-          order: [['nombre', 'ASC']]
-        }),
-        this.clienteDAO.findAll({
-          filters: { search: searchTerm },
-          pagination: { page: 1, limit: Math.ceil(limit / 3) },
-          order: [['nombre', 'ASC']]
-        })
+      const isAdmin = viewer.rol === 'admin';
+      const none: SearchHitPage = { hits: [], total: 0 };
+
+      const [usuarios, productos, clientes, pedidos] = await Promise.all([
+        isAdmin ? this.usuarioDAO.rankedSearch(searchTerm, limit) : none,
+        this.productoDAO.rankedSearch(searchTerm, limit),
+        this.clienteDAO.rankedSearch(searchTerm, limit),
+        this.pedidoDAO.rankedSearch(searchTerm, limit, { usuarioId: isAdmin ? undefined : viewer.id })
       ]);
 
+      const results = [...usuarios.hits, ...productos.hits, ...clientes.hits, ...pedidos.hits]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+
       return {
-        usuarios: usuarios.usuarios,
-        productos: productos.productos,
-        clientes: clientes.clientes,
-        totalResults: usuarios.total + productos.total + clientes.total
+        results,
+        totals: {
+          usuario: usuarios.total,
+          producto: productos.total,
+          cliente: clientes.total,
+          pedido: pedidos.total
+        },
+        totalResults: usuarios.total + productos.total + clientes.total + pedidos.total
       };
     } catch (error) {
       Logger.error('Error performing global search:', error);
@@ -296,6 +376,83 @@ export class DAOManager {
     }
   }
 
+  /**
+   * Sales time series with zero-filled buckets, overall and per group when groupBy is given
+   */
+  async getSalesTimeSeries(query: SalesTimeSeriesQuery): Promise<SalesTimeSeries> {
+    try {
+      const [overall, grouped] = await Promise.all([
+        this.pedidoDAO.getSalesTimeSeries({ ...query, groupBy: undefined }),
+        query.groupBy ? this.pedidoDAO.getSalesTimeSeries(query) : Promise.resolve(null)
+      ]);
+
+      const result: SalesTimeSeries = {
+        bucket: query.bucket,
+        timezone: query.timezone,
+        from: query.from,
+        to: query.to,
+        estados: query.estados,
+        groupBy: query.groupBy || null,
+        totals: this.sumSales(overall),
+        series: overall.map(row => this.toSalesPoint(row))
+      };
+
+      if (grouped) {
+        const groups = new Map<string, { id: string | null; nombre: string | null; rows: SalesTimeSeriesRow[] }>();
+        grouped.forEach(row => {
+          const key = String(row.grupoId);
+          if (!groups.has(key)) {
+            groups.set(key, { id: row.grupoId, nombre: row.grupo, rows: [] });
+          }
+          groups.get(key)!.rows.push(row);
+        });
+
+        result.groups = Array.from(groups.values())
+          .map(group => ({
+            id: group.id,
+            nombre: group.nombre,
+            totals: this.sumSales(group.rows),
+            series: group.rows.map(row => this.toSalesPoint(row))
+          }))
+          .sort((a, b) => b.totals.ventas - a.totals.ventas);
+      }
+
+      return result;
+    } catch (error) {
+      Logger.error('Error getting sales time series:', error);
+      throw error;
+    }
+  }
+
+  private toSalesPoint(row: SalesTimeSeriesRow): SalesPoint {
+    return { bucket: row.bucket, pedidos: row.pedidos, ventas: row.ventas };
+  }
+
+  private sumSales(rows: SalesTimeSeriesRow[]): SalesTotals {
+    return rows.reduce(
+      (totals, row) => ({
+        pedidos: totals.pedidos + row.pedidos,
+        ventas: Math.round((totals.ventas + row.ventas) * 100) / 100
+      }),
+      { pedidos: 0, ventas: 0 }
+    );
+  }
+
+  /**
+   * Start of today, of the current week (Sunday) and of the current month
+   */
+  private salesPeriods(now: Date = new Date()): { hoy: Date; inicioSemana: Date; inicioMes: Date } {
+    const hoy = new Date(now);
+    hoy.setHours(0, 0, 0, 0);
+
+    const inicioSemana = new Date(hoy);
+    inicioSemana.setDate(hoy.getDate() - hoy.getDay());
+
+    const inicioMes = new Date(hoy.getFullYear(), hoy.getMonth(), 1);
+
+    return { hoy, inicioSemana, inicioMes };
+  }
+
   /**
    * Get DAO instances
    */
@@ -310,9 +467,18 @@ export class DAOManager {
   getClienteDAO(): ClienteDAO {
     return this.clienteDAO;
   }
+
+  getPedidoDAO(): PedidoDAO {
+    return this.pedidoDAO;
+  }
 }
 
 // Export all DAOs and managers
 export { UsuarioDAO } from './UsuarioDAO';
 export { ProductoDAO } from './ProductoDAO';
 export { ClienteDAO } from './ClienteDAO';
+export { PedidoDAO } from './PedidoDAO';
+export { RefreshTokenDAO } from './RefreshTokenDAO';
+export { PedidoEstadoHistorialDAO } from './PedidoEstadoHistorialDAO';
+export { MovimientoInventarioDAO } from './MovimientoInventarioDAO';
+export { ReservaStockDAO } from './ReservaStockDAO';
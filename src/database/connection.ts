@@ -1,6 +1,8 @@
 import { Sequelize } from 'sequelize';
 import { config } from '../config';
 import { Logger } from '../utils/helpers';
+import { dbPoolConnections, dbPoolWaiting, dbQueryDuration } from '../utils/metrics';
+import { Migrator } from './migrator';
 
 class DatabaseConnection {
   private sequelize: Sequelize;
@@ -8,7 +10,14 @@ class DatabaseConnection {
   constructor() {
     this.sequelize = new Sequelize(config.database.url, {
       dialect: 'postgres',
-      logging: config.nodeEnv === 'development' ? console.log : false,
+      // With benchmark on, Sequelize calls logging once per finished query with its duration
+      benchmark: true,
+      logging: (sql: string, durationMs?: number, options?: { type?: string }) => {
+        dbQueryDuration.observe({ type: (options?.type || 'RAW').toLowerCase() }, (durationMs ?? 0) / 1000);
+        if (config.nodeEnv === 'development') {
+          Logger.debug(sql, { durationMs });
+        }
+      },
       pool: {
         max: 5,
         min: 0,
@@ -16,6 +25,9 @@ class DatabaseConnection {
         idle: 10000
       }
     });
+
+    dbPoolConnections.collectWith(gauge => this.collectPoolMetrics(gauge));
+    dbPoolWaiting.collectWith(gauge => gauge.set({}, this.pool()?.waiting ?? 0));
   }
 
   async connect(): Promise<void> {
@@ -38,12 +50,13 @@ class DatabaseConnection {
     }
   }
 
-  async sync(force: boolean = false): Promise<void> {
+  async migrate(): Promise<string[]> {
     try {
-      await this.sequelize.sync({ force });
-      Logger.info(`Database synced successfully (force: ${force})`);
+      const applied = await new Migrator(this.sequelize).up();
+      Logger.info(`Database migrated successfully (${applied.length} migrations applied)`);
+      return applied;
     } catch (error) {
-      Logger.error('Error syncing database:', error);
+      Logger.error('Error migrating database:', error);
       throw error;
     }
   }
@@ -51,6 +64,23 @@ class DatabaseConnection {
   getSequelize(): Sequelize {
     return this.sequelize;
   }
+
+  private collectPoolMetrics(gauge: typeof dbPoolConnections): void {
+    const pool = this.pool();
+    if (!pool) {
+      return;
+    }
+
+    gauge.set({ state: 'using' }, pool.using);
+    gauge.set({ state: 'idle' }, pool.available);
+    gauge.set({ state: 'total' }, pool.size);
+    gauge.set({ state: 'max' }, pool.maxSize);
+  }
+
+  // sequelize-pool instance behind the connection manager; not part of Sequelize's typings
+  private pool(): { size: number; available: number; using: number; waiting: number; maxSize: number } | undefined {
+    return (this.sequelize as any).connectionManager?.pool;
+  }
 }
 
 export const database = new DatabaseConnection();
@@ -0,0 +1,66 @@
+import { database } from './connection';
+import { Migrator } from './migrator';
+
+const USAGE = `Usage: migrate <command>
+
+Commands:
+  up [--to <name>]     Apply pending migrations, optionally stopping after <name>
+  down [--steps <n>]   Revert the last <n> applied migrations (default 1)
+  status               List migrations and when they were applied
+  create <name>        Write an empty migration file`;
+
+// Value following --flag in argv, if any
+function option(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+export async function runMigrate(args: string[]): Promise<void> {
+  const [command, ...rest] = args;
+  const migrator = new Migrator(database.getSequelize());
+
+  // Creating a file needs no database connection
+  if (command === 'create') {
+    if (!rest[0]) {
+      throw new Error(USAGE);
+    }
+    console.log(`Created ${migrator.create(rest.join(' '))}`);
+    return;
+  }
+
+  if (!['up', 'down', 'status'].includes(command)) {
+    throw new Error(USAGE);
+  }
+
+  await database.connect();
+  try {
+    if (command === 'up') {
+      const applied = await migrator.up({ to: option(rest, '--to') });
+      console.log(applied.length > 0 ? `Applied:\n  ${applied.join('\n  ')}` : 'No pending migrations');
+    } else if (command === 'down') {
+      const steps = parseInt(option(rest, '--steps') || '1');
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error('--steps must be a positive integer');
+      }
+      const reverted = await migrator.down({ steps });
+      console.log(reverted.length > 0 ? `Reverted:\n  ${reverted.join('\n  ')}` : 'No applied migrations');
+    } else {
+      for (const migration of await migrator.status()) {
+        const applied = migration.appliedAt ? migration.appliedAt.toISOString() : 'pending';
+        console.log(`${applied.padEnd(24)} ${migration.name}`);
+      }
+    }
+  } finally {
+    await database.disconnect();
+  }
+}
+
+// Run migrations if this file is executed directly
+if (require.main === module) {
+  runMigrate(process.argv.slice(2))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Migration failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,29 @@
+import { DataTypes, QueryInterface, Transaction } from 'sequelize';
+import { Migration } from '../migrator';
+
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    // Databases created by sequelize.sync() before migrations existed already have the table
+    if (await queryInterface.tableExists('usuarios', { transaction })) {
+      return;
+    }
+
+    await queryInterface.createTable('usuarios', {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      nombre: { type: DataTypes.STRING(100), allowNull: false },
+      email: { type: DataTypes.STRING(100), allowNull: false, unique: true },
+      password: { type: DataTypes.STRING(255), allowNull: false },
+      rol: { type: DataTypes.ENUM('admin', 'vendedor'), allowNull: false, defaultValue: 'vendedor' },
+      activo: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: true },
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false }
+    }, { transaction });
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await queryInterface.dropTable('usuarios', { transaction });
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_usuarios_rol"', { transaction });
+  }
+};
+
+export default migration;
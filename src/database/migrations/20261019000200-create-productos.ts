@@ -0,0 +1,29 @@
+import { DataTypes, QueryInterface, Transaction } from 'sequelize';
+import { Migration } from '../migrator';
+
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    if (await queryInterface.tableExists('productos', { transaction })) {
+      return;
+    }
+
+    await queryInterface.createTable('productos', {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      codigo: { type: DataTypes.STRING(50), allowNull: false, unique: true },
+      nombre: { type: DataTypes.STRING(100), allowNull: false },
+      descripcion: { type: DataTypes.TEXT, allowNull: true },
+      precio: { type: DataTypes.DECIMAL(10, 2), allowNull: false },
+      stock: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 0 },
+      categoria: { type: DataTypes.STRING(50), allowNull: false },
+      activo: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: true },
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false }
+    }, { transaction });
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await queryInterface.dropTable('productos', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import { DataTypes, QueryInterface, Transaction } from 'sequelize';
+import { Migration } from '../migrator';
+
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    if (await queryInterface.tableExists('clientes', { transaction })) {
+      return;
+    }
+
+    await queryInterface.createTable('clientes', {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      nombre: { type: DataTypes.STRING(100), allowNull: false },
+      email: { type: DataTypes.STRING(100), allowNull: false },
+      telefono: { type: DataTypes.STRING(20), allowNull: true },
+      direccion: { type: DataTypes.TEXT, allowNull: true },
+      documento: { type: DataTypes.STRING(50), allowNull: false, unique: true },
+      tipoDocumento: { type: DataTypes.ENUM('cedula', 'pasaporte', 'nit'), allowNull: false, defaultValue: 'cedula' },
+      activo: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: true },
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false }
+    }, { transaction });
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await queryInterface.dropTable('clientes', { transaction });
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_clientes_tipoDocumento"', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,43 @@
+import { DataTypes, QueryInterface, Transaction } from 'sequelize';
+import { Migration } from '../migrator';
+
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    if (await queryInterface.tableExists('pedidos', { transaction })) {
+      return;
+    }
+
+    await queryInterface.createTable('pedidos', {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      clienteId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'clientes', key: 'id' },
+        onUpdate: 'CASCADE'
+      },
+      usuarioId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'usuarios', key: 'id' },
+        onUpdate: 'CASCADE'
+      },
+      fecha: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+      total: { type: DataTypes.DECIMAL(10, 2), allowNull: false },
+      estado: {
+        type: DataTypes.ENUM('pendiente', 'confirmado', 'enviado', 'entregado', 'cancelado'),
+        allowNull: false,
+        defaultValue: 'pendiente'
+      },
+      observaciones: { type: DataTypes.TEXT, allowNull: true },
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false }
+    }, { transaction });
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await queryInterface.dropTable('pedidos', { transaction });
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_pedidos_estado"', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+import { DataTypes, QueryInterface, Transaction } from 'sequelize';
+import { Migration } from '../migrator';
+
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    if (await queryInterface.tableExists('detalle_pedidos', { transaction })) {
+      return;
+    }
+
+    await queryInterface.createTable('detalle_pedidos', {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      pedidoId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'pedidos', key: 'id' },
+        onUpdate: 'CASCADE'
+      },
+      productoId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'productos', key: 'id' },
+        onUpdate: 'CASCADE'
+      },
+      cantidad: { type: DataTypes.INTEGER, allowNull: false },
+      precioUnitario: { type: DataTypes.DECIMAL(10, 2), allowNull: false },
+      subtotal: { type: DataTypes.DECIMAL(10, 2), allowNull: false },
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false }
+    }, { transaction });
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await queryInterface.dropTable('detalle_pedidos', { transaction });
+  }
+};
+
+export default migration;
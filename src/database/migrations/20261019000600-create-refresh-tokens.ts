@@ -0,0 +1,41 @@
+import { DataTypes, QueryInterface, Transaction } from 'sequelize';
+import { Migration } from '../migrator';
+
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    if (await queryInterface.tableExists('refresh_tokens', { transaction })) {
+      return;
+    }
+
+    await queryInterface.createTable('refresh_tokens', {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      jti: { type: DataTypes.STRING(64), allowNull: false, unique: true },
+      usuarioId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'usuarios', key: 'id' },
+        onUpdate: 'CASCADE'
+      },
+      familyId: { type: DataTypes.STRING(64), allowNull: false },
+      userAgent: { type: DataTypes.STRING(255), allowNull: true },
+      ipAddress: { type: DataTypes.STRING(45), allowNull: true },
+      issuedAt: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+      expiresAt: { type: DataTypes.DATE, allowNull: false },
+      revokedAt: { type: DataTypes.DATE, allowNull: true },
+      revokedReason: { type: DataTypes.ENUM('logout', 'rotated', 'reuse_detected', 'logout_all'), allowNull: true },
+      replacedBy: { type: DataTypes.STRING(64), allowNull: true },
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false }
+    }, { transaction });
+
+    await queryInterface.addIndex('refresh_tokens', ['usuarioId'], { transaction });
+    await queryInterface.addIndex('refresh_tokens', ['familyId'], { transaction });
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await queryInterface.dropTable('refresh_tokens', { transaction });
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_refresh_tokens_revokedReason"', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,47 @@
+import { DataTypes, QueryInterface, Transaction } from 'sequelize';
+import { Migration } from '../migrator';
+
+const ESTADOS = ['pendiente', 'confirmado', 'enviado', 'entregado', 'cancelado'];
+
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    if (await queryInterface.tableExists('pedido_estado_historial', { transaction })) {
+      return;
+    }
+
+    await queryInterface.createTable('pedido_estado_historial', {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      pedidoId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'pedidos', key: 'id' },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      estadoAnterior: { type: DataTypes.ENUM(...ESTADOS), allowNull: true },
+      estadoNuevo: { type: DataTypes.ENUM(...ESTADOS), allowNull: false },
+      usuarioId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: { model: 'usuarios', key: 'id' },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      motivo: { type: DataTypes.STRING(500), allowNull: true },
+      fecha: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false }
+    }, { transaction });
+
+    await queryInterface.addIndex('pedido_estado_historial', ['pedidoId', 'fecha'], { transaction });
+    await queryInterface.addIndex('pedido_estado_historial', ['estadoNuevo', 'fecha'], { transaction });
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await queryInterface.dropTable('pedido_estado_historial', { transaction });
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_pedido_estado_historial_estadoAnterior"', { transaction });
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_pedido_estado_historial_estadoNuevo"', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,50 @@
+import { DataTypes, QueryInterface, Transaction } from 'sequelize';
+import { Migration } from '../migrator';
+
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    if (await queryInterface.tableExists('movimientos_inventario', { transaction })) {
+      return;
+    }
+
+    // Append-only kardex: no updatedAt
+    await queryInterface.createTable('movimientos_inventario', {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      productoId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'productos', key: 'id' },
+        onUpdate: 'CASCADE'
+      },
+      delta: { type: DataTypes.INTEGER, allowNull: false },
+      stockResultante: { type: DataTypes.INTEGER, allowNull: false },
+      motivo: { type: DataTypes.ENUM('venta', 'cancelacion', 'ajuste_manual', 'recepcion'), allowNull: false },
+      pedidoId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: { model: 'pedidos', key: 'id' },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      usuarioId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: { model: 'usuarios', key: 'id' },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      fecha: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+      createdAt: { type: DataTypes.DATE, allowNull: false }
+    }, { transaction });
+
+    await queryInterface.addIndex('movimientos_inventario', ['productoId', 'fecha'], { transaction });
+    await queryInterface.addIndex('movimientos_inventario', ['pedidoId'], { transaction });
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await queryInterface.dropTable('movimientos_inventario', { transaction });
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_movimientos_inventario_motivo"', { transaction });
+  }
+};
+
+export default migration;
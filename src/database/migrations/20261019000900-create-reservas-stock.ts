@@ -0,0 +1,42 @@
+import { DataTypes, QueryInterface, Transaction } from 'sequelize';
+import { Migration } from '../migrator';
+
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    if (await queryInterface.tableExists('reservas_stock', { transaction })) {
+      return;
+    }
+
+    await queryInterface.createTable('reservas_stock', {
+      id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+      pedidoId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'pedidos', key: 'id' },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      productoId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: { model: 'productos', key: 'id' },
+        onUpdate: 'CASCADE'
+      },
+      cantidad: { type: DataTypes.INTEGER, allowNull: false },
+      estado: { type: DataTypes.ENUM('activa', 'consumida', 'liberada'), allowNull: false, defaultValue: 'activa' },
+      expiraEn: { type: DataTypes.DATE, allowNull: false },
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false }
+    }, { transaction });
+
+    await queryInterface.addIndex('reservas_stock', ['pedidoId'], { transaction });
+    await queryInterface.addIndex('reservas_stock', ['estado', 'expiraEn'], { transaction });
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await queryInterface.dropTable('reservas_stock', { transaction });
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_reservas_stock_estado"', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,53 @@
+import { QueryInterface, Transaction } from 'sequelize';
+import { Migration } from '../migrator';
+import { PRODUCT_SEARCH } from '../../constants';
+
+const CONFIG = PRODUCT_SEARCH.TS_CONFIG;
+
+/**
+ * Full-text search column for productos, kept up to date by Postgres
+ * searchVector is a generated tsvector (nombre and codigo weigh most, then categoria,
+ * then descripcion) indexed with GIN. It is not a model attribute: only the search
+ * queries read it.
+ */
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    const sequelize = queryInterface.sequelize;
+
+    await sequelize.query('CREATE EXTENSION IF NOT EXISTS unaccent', { transaction });
+    await sequelize.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = '${CONFIG}') THEN
+          CREATE TEXT SEARCH CONFIGURATION ${CONFIG} (COPY = spanish);
+          ALTER TEXT SEARCH CONFIGURATION ${CONFIG}
+            ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem;
+        END IF;
+      END $$
+    `, { transaction });
+    await sequelize.query(`
+      ALTER TABLE productos ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('${CONFIG}', coalesce(nombre, '')), 'A') ||
+        setweight(to_tsvector('${CONFIG}', coalesce(codigo, '')), 'A') ||
+        setweight(to_tsvector('${CONFIG}', coalesce(categoria, '')), 'B') ||
+        setweight(to_tsvector('${CONFIG}', coalesce(descripcion, '')), 'C')
+      ) STORED
+    `, { transaction });
+    await sequelize.query(
+      'CREATE INDEX IF NOT EXISTS productos_search_vector_idx ON productos USING GIN ("searchVector")',
+      { transaction }
+    );
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    const sequelize = queryInterface.sequelize;
+
+    // The unaccent extension stays: global search uses it as well
+    await sequelize.query('DROP INDEX IF EXISTS productos_search_vector_idx', { transaction });
+    await sequelize.query('ALTER TABLE productos DROP COLUMN IF EXISTS "searchVector"', { transaction });
+    await sequelize.query(`DROP TEXT SEARCH CONFIGURATION IF EXISTS ${CONFIG}`, { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import { DataTypes, QueryInterface, Transaction } from 'sequelize';
+import { Migration, addMissingColumns } from '../migrator';
+
+/**
+ * Encrypted pedido data and the id of the key that encrypted it
+ */
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await addMissingColumns(queryInterface, 'pedidos', {
+      datosCifrados: { type: DataTypes.TEXT, allowNull: true },
+      claveId: { type: DataTypes.STRING(64), allowNull: true }
+    }, transaction);
+
+    // Same name sequelize.sync() gives the model index
+    await queryInterface.sequelize.query(
+      'CREATE INDEX IF NOT EXISTS pedidos_clave_id ON pedidos ("claveId")',
+      { transaction }
+    );
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    // Dropping claveId drops its index
+    await queryInterface.removeColumn('pedidos', 'claveId', { transaction });
+    await queryInterface.removeColumn('pedidos', 'datosCifrados', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import { DataTypes, QueryInterface, Transaction } from 'sequelize';
+import { Migration, addMissingColumns } from '../migrator';
+
+/**
+ * Carrier tracking reference, set when a pedido is shipped
+ */
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await addMissingColumns(queryInterface, 'pedidos', {
+      referenciaEnvio: { type: DataTypes.STRING(100), allowNull: true }
+    }, transaction);
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await queryInterface.removeColumn('pedidos', 'referenciaEnvio', { transaction });
+  }
+};
+
+export default migration;
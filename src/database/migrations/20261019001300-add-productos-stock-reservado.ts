@@ -0,0 +1,19 @@
+import { DataTypes, QueryInterface, Transaction } from 'sequelize';
+import { Migration, addMissingColumns } from '../migrator';
+
+/**
+ * Units held by active stock reservations, counted apart from stock
+ */
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await addMissingColumns(queryInterface, 'productos', {
+      stockReservado: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 0 }
+    }, transaction);
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+    await queryInterface.removeColumn('productos', 'stockReservado', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,215 @@
+import fs from 'fs';
+import path from 'path';
+import { DataTypes, Logging, ModelAttributeColumnOptions, QueryInterface, QueryTypes, Sequelize, Transaction } from 'sequelize';
+import { Logger } from '../utils/helpers';
+
+/**
+ * A versioned schema change
+ * Each migration runs in its own transaction, together with its bookkeeping row.
+ */
+export interface Migration {
+  up(queryInterface: QueryInterface, transaction: Transaction): Promise<void>;
+  down(queryInterface: QueryInterface, transaction: Transaction): Promise<void>;
+}
+
+export interface MigrationStatus {
+  name: string;
+  appliedAt: Date | null;
+}
+
+export const MIGRATIONS_TABLE = 'migrations';
+
+// <14-digit timestamp>-<kebab-case-name>.ts, or .js once compiled
+const MIGRATION_FILE = /^(\d{14}-[a-z0-9-]+)\.(ts|js)$/;
+
+// Serializes migrators started at the same time, e.g. several replicas booting
+const MIGRATION_LOCK_ID = 727364;
+
+const TEMPLATE = `import { QueryInterface, Transaction } from 'sequelize';
+import { Migration } from '../migrator';
+
+const migration: Migration = {
+  async up(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+  },
+
+  async down(queryInterface: QueryInterface, transaction: Transaction): Promise<void> {
+  }
+};
+
+export default migration;
+`;
+
+/**
+ * Add the columns a table does not have yet, returning their names
+ * Tables first created by sequelize.sync() from a newer model may already have some.
+ */
+export async function addMissingColumns(
+  queryInterface: QueryInterface,
+  table: string,
+  columns: Record<string, ModelAttributeColumnOptions>,
+  transaction: Transaction
+): Promise<string[]> {
+  const existing = await queryInterface.describeTable(table, { transaction } as Logging);
+  const missing = Object.keys(columns).filter(column => !(column in existing));
+
+  for (const column of missing) {
+    await queryInterface.addColumn(table, column, columns[column], { transaction });
+  }
+
+  return missing;
+}
+
+/**
+ * Applies and reverts the migrations in database/migrations, in file name order
+ * Applied migrations are recorded by name in the migrations table.
+ */
+export class Migrator {
+  constructor(
+    private readonly sequelize: Sequelize,
+    private readonly directory: string = path.join(__dirname, 'migrations')
+  ) {}
+
+  /**
+   * Every migration on disk with the time it was applied, or null when pending
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureTable();
+    const applied = await this.applied();
+
+    return this.names().map(name => ({ name, appliedAt: applied.get(name) || null }));
+  }
+
+  /**
+   * Names of the migrations not applied yet
+   */
+  async pending(): Promise<string[]> {
+    return (await this.status()).filter(migration => !migration.appliedAt).map(migration => migration.name);
+  }
+
+  /**
+   * Apply pending migrations, all of them or up to and including `to`
+   */
+  async up(options: { to?: string } = {}): Promise<string[]> {
+    const pending = await this.pending();
+    const last = options.to ? pending.indexOf(options.to) : pending.length - 1;
+
+    if (options.to && last < 0) {
+      throw new Error(`Migration ${options.to} is not pending`);
+    }
+
+    const done: string[] = [];
+    for (const name of pending.slice(0, last + 1)) {
+      if (await this.run(name, 'up')) {
+        done.push(name);
+      }
+    }
+
+    return done;
+  }
+
+  /**
+   * Revert the last `steps` applied migrations, newest first
+   */
+  async down(options: { steps?: number } = {}): Promise<string[]> {
+    const applied = (await this.status()).filter(migration => migration.appliedAt).map(migration => migration.name);
+    const targets = applied.slice(-(options.steps ?? 1)).reverse();
+
+    const done: string[] = [];
+    for (const name of targets) {
+      if (await this.run(name, 'down')) {
+        done.push(name);
+      }
+    }
+
+    return done;
+  }
+
+  /**
+   * Write an empty migration file named after the current UTC time
+   */
+  create(name: string): string {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    if (!slug) {
+      throw new Error('Migration name must contain letters or digits');
+    }
+
+    const timestamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+    const file = path.join(this.directory, `${timestamp}-${slug}.ts`);
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(file, TEMPLATE, { flag: 'wx' });
+    return file;
+  }
+
+  // Run one migration under the advisory lock; false when another process got there first
+  private async run(name: string, direction: 'up' | 'down'): Promise<boolean> {
+    const migration = this.load(name);
+
+    return this.sequelize.transaction(async (transaction) => {
+      await this.sequelize.query('SELECT pg_advisory_xact_lock(:lock)', {
+        replacements: { lock: MIGRATION_LOCK_ID },
+        transaction
+      });
+
+      const applied = await this.applied(transaction);
+      if (applied.has(name) === (direction === 'up')) {
+        return false;
+      }
+
+      Logger.info(`Migration ${direction}: ${name}`);
+      await migration[direction](this.sequelize.getQueryInterface(), transaction);
+
+      if (direction === 'up') {
+        await this.sequelize.query(`INSERT INTO ${MIGRATIONS_TABLE} (name, "appliedAt") VALUES (:name, NOW())`, {
+          replacements: { name },
+          transaction
+        });
+      } else {
+        await this.sequelize.query(`DELETE FROM ${MIGRATIONS_TABLE} WHERE name = :name`, {
+          replacements: { name },
+          transaction
+        });
+      }
+
+      return true;
+    });
+  }
+
+  private load(name: string): Migration {
+    const file = fs.readdirSync(this.directory).find(entry => entry.match(MIGRATION_FILE)?.[1] === name);
+    if (!file) {
+      throw new Error(`Migration ${name} not found in ${this.directory}`);
+    }
+
+    const module = require(path.join(this.directory, file));
+    return module.default || module;
+  }
+
+  private names(): string[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    const names = fs.readdirSync(this.directory)
+      .map(entry => entry.match(MIGRATION_FILE)?.[1])
+      .filter((name): name is string => !!name);
+
+    return [...new Set(names)].sort();
+  }
+
+  private async applied(transaction?: Transaction): Promise<Map<string, Date>> {
+    const rows = await this.sequelize.query<{ name: string; appliedAt: Date }>(
+      `SELECT name, "appliedAt" FROM ${MIGRATIONS_TABLE}`,
+      { type: QueryTypes.SELECT, transaction }
+    );
+
+    return new Map(rows.map(row => [row.name, new Date(row.appliedAt)]));
+  }
+
+  private async ensureTable(): Promise<void> {
+    await this.sequelize.getQueryInterface().createTable(MIGRATIONS_TABLE, {
+      name: { type: DataTypes.STRING(255), primaryKey: true },
+      appliedAt: { type: DataTypes.DATE, allowNull: false }
+    });
+  }
+}
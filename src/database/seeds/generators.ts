@@ -0,0 +1,215 @@
+import { DOCUMENT_TYPES, ORDER_STATUS } from '../../constants';
+import { PedidoEstado } from '../../models/PedidoEstadoHistorial';
+import { SeededRandom } from './SeededRandom';
+
+export interface GeneratedCliente {
+  nombre: string;
+  email: string;
+  telefono: string;
+  direccion: string;
+  documento: string;
+  tipoDocumento: 'cedula' | 'pasaporte' | 'nit';
+}
+
+export interface GeneratedProducto {
+  codigo: string;
+  nombre: string;
+  descripcion: string;
+  precio: number;
+  stock: number;
+  categoria: string;
+}
+
+/**
+ * A pedido to create through PedidoService and then walk to its final estado
+ * `key` identifies it within the dataset so a rerun can skip it.
+ */
+export interface PedidoPlan {
+  key: number;
+  clienteId: number;
+  usuarioId: number;
+  productos: Array<{ productoId: number; cantidad: number }>;
+  fecha: Date;
+  transitions: PedidoEstado[];
+}
+
+export interface PedidoPlanOptions {
+  count: number;
+  clienteIds: number[];
+  productoIds: number[];
+  usuarioIds: number[];
+  days: number;
+  now: Date;
+}
+
+const FIRST_NAMES = [
+  'Andrés', 'Camila', 'Carlos', 'Daniela', 'Diego', 'Juliana', 'Felipe', 'Laura', 'Santiago', 'Valentina',
+  'Sebastián', 'Mariana', 'Alejandro', 'Natalia', 'Juan', 'Paula', 'Mateo', 'Sofía', 'Nicolás', 'Isabella'
+];
+
+const LAST_NAMES = [
+  'García', 'Rodríguez', 'Martínez', 'López', 'González', 'Hernández', 'Pérez', 'Sánchez', 'Ramírez', 'Torres',
+  'Gómez', 'Díaz', 'Vargas', 'Rojas', 'Moreno', 'Castro', 'Ortiz', 'Jiménez', 'Restrepo', 'Ospina'
+];
+
+const COMPANY_NAMES = ['Deportes', 'Club', 'Academia', 'Gimnasio', 'Escuela Deportiva', 'Distribuidora'];
+
+const CITIES = ['Bogotá', 'Medellín', 'Cali', 'Barranquilla', 'Bucaramanga', 'Cartagena', 'Pereira', 'Manizales'];
+
+// Category, code prefix (PRODUCT_CODE_PATTERN) and the items sold in it
+const CATALOG: ReadonlyArray<[categoria: string, prefix: string, items: string[]]> = [
+  ['Fútbol', 'FUT', ['Balón', 'Guayos', 'Canilleras', 'Guantes de arquero', 'Camiseta']],
+  ['Tenis', 'TEN', ['Raqueta', 'Pelotas', 'Grip', 'Zapatillas de tenis', 'Muñequera']],
+  ['Running', 'RUN', ['Zapatillas', 'Camiseta técnica', 'Pantaloneta', 'Medias', 'Reloj GPS']],
+  ['Ciclismo', 'CIC', ['Casco', 'Guantes', 'Luces', 'Caramañola', 'Culotte']],
+  ['Natación', 'NAT', ['Gafas', 'Gorro', 'Traje de baño', 'Aletas', 'Tabla']],
+  ['Gimnasio', 'GYM', ['Mancuernas', 'Banda elástica', 'Colchoneta', 'Cuerda para saltar', 'Guantes de pesas']],
+  ['Baloncesto', 'BAL', ['Balón', 'Tenis de baloncesto', 'Camiseta', 'Tablero', 'Rodilleras']]
+];
+
+const BRANDS = ['Nike', 'Adidas', 'Puma', 'Wilson', 'Under Armour', 'Reebok', 'Speedo', 'Shimano'];
+const LINES = ['Pro', 'Elite', 'Classic', 'Academy', 'Match', 'Training', 'Sport'];
+
+// DIAN weights for the NIT verification digit, applied from the rightmost digit
+const NIT_WEIGHTS = [3, 7, 13, 17, 19, 23, 29, 37, 41, 43, 47, 53, 59, 67, 71];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Verification digit of a Colombian NIT
+ */
+export function nitCheckDigit(nit: string): number {
+  const digits = nit.split('').reverse();
+  const sum = digits.reduce((total, digit, index) => total + Number(digit) * NIT_WEIGHTS[index], 0);
+  const remainder = sum % 11;
+
+  return remainder > 1 ? 11 - remainder : remainder;
+}
+
+/**
+ * Clientes with unique documentos that pass VALIDATION's cedula, pasaporte and NIT patterns
+ */
+export function generateClientes(rng: SeededRandom, count: number): GeneratedCliente[] {
+  const documentos = new Set<string>();
+  const clientes: GeneratedCliente[] = [];
+
+  for (let i = 1; i <= count; i++) {
+    const roll = rng.next();
+    const tipoDocumento = roll < 0.8 ? DOCUMENT_TYPES.CEDULA : roll < 0.9 ? DOCUMENT_TYPES.PASAPORTE : DOCUMENT_TYPES.NIT;
+
+    let documento: string;
+    do {
+      documento = documentFor(rng, tipoDocumento);
+    } while (documentos.has(documento));
+    documentos.add(documento);
+
+    const nombre = tipoDocumento === DOCUMENT_TYPES.NIT
+      ? `${rng.pick(COMPANY_NAMES)} ${rng.pick(LAST_NAMES)} S.A.S.`
+      : `${rng.pick(FIRST_NAMES)} ${rng.pick(LAST_NAMES)} ${rng.pick(LAST_NAMES)}`;
+
+    clientes.push({
+      nombre,
+      email: `${slug(nombre)}.${i}@example.com`,
+      telefono: `+573${String(rng.int(0, 999999999)).padStart(9, '0')}`,
+      direccion: `Calle ${rng.int(1, 150)} # ${rng.int(1, 99)}-${rng.int(1, 99)}, ${rng.pick(CITIES)}`,
+      documento,
+      tipoDocumento
+    });
+  }
+
+  return clientes;
+}
+
+/**
+ * Productos spread evenly across the catalog categories, each with at least `minStock` units
+ */
+export function generateProductos(rng: SeededRandom, count: number, minStock: number): GeneratedProducto[] {
+  const productos: GeneratedProducto[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const [categoria, prefix, items] = CATALOG[i % CATALOG.length];
+    const item = rng.pick(items);
+    const brand = rng.pick(BRANDS);
+
+    productos.push({
+      codigo: `${prefix}-${String(Math.floor(i / CATALOG.length) + 1).padStart(4, '0')}`,
+      nombre: `${item} ${brand} ${rng.pick(LINES)}`,
+      descripcion: `${item} ${brand} para ${categoria.toLowerCase()}, ideal para entrenamiento y competencia`,
+      precio: rng.int(999, 49999) / 100,
+      stock: minStock + rng.int(0, minStock),
+      categoria
+    });
+  }
+
+  return productos;
+}
+
+/**
+ * Pedidos spread over the last `days` days, oldest first
+ * Older pedidos have mostly reached entregado or cancelado; recent ones are still open.
+ */
+export function generatePedidoPlans(rng: SeededRandom, options: PedidoPlanOptions): PedidoPlan[] {
+  const plans: Omit<PedidoPlan, 'key'>[] = [];
+
+  for (let i = 0; i < options.count; i++) {
+    const fecha = new Date(options.now.getTime() - Math.floor(rng.next() * options.days * DAY_MS));
+    const ageDays = (options.now.getTime() - fecha.getTime()) / DAY_MS;
+
+    plans.push({
+      clienteId: rng.pick(options.clienteIds),
+      usuarioId: rng.pick(options.usuarioIds),
+      productos: rng.sample(options.productoIds, rng.int(1, 4)).map(productoId => ({ productoId, cantidad: rng.int(1, 3) })),
+      fecha,
+      transitions: transitionsTo(finalEstado(rng, ageDays))
+    });
+  }
+
+  return plans
+    .sort((a, b) => a.fecha.getTime() - b.fecha.getTime())
+    .map((plan, index) => ({ key: index + 1, ...plan }));
+}
+
+function documentFor(rng: SeededRandom, tipo: string): string {
+  switch (tipo) {
+    case DOCUMENT_TYPES.NIT: {
+      const nit = rng.digits(9);
+      return `${nit}-${nitCheckDigit(nit)}`;
+    }
+    case DOCUMENT_TYPES.PASAPORTE:
+      return `${String.fromCharCode(65 + rng.int(0, 25))}${String.fromCharCode(65 + rng.int(0, 25))}${rng.digits(7)}`;
+    default:
+      return rng.digits(rng.int(8, 10));
+  }
+}
+
+function finalEstado(rng: SeededRandom, ageDays: number): PedidoEstado {
+  const roll = rng.next();
+
+  if (ageDays < 2) {
+    return roll < 0.6 ? ORDER_STATUS.PENDIENTE : ORDER_STATUS.CONFIRMADO;
+  }
+  if (ageDays < 7) {
+    return roll < 0.3 ? ORDER_STATUS.CONFIRMADO : roll < 0.7 ? ORDER_STATUS.ENVIADO : roll < 0.9 ? ORDER_STATUS.ENTREGADO : ORDER_STATUS.CANCELADO;
+  }
+  return roll < 0.8 ? ORDER_STATUS.ENTREGADO : roll < 0.95 ? ORDER_STATUS.CANCELADO : ORDER_STATUS.ENVIADO;
+}
+
+// Estados a new (pendiente) pedido moves through to reach `estado`
+function transitionsTo(estado: PedidoEstado): PedidoEstado[] {
+  switch (estado) {
+    case ORDER_STATUS.CONFIRMADO:
+      return [ORDER_STATUS.CONFIRMADO];
+    case ORDER_STATUS.ENVIADO:
+      return [ORDER_STATUS.CONFIRMADO, ORDER_STATUS.ENVIADO];
+    case ORDER_STATUS.ENTREGADO:
+      return [ORDER_STATUS.CONFIRMADO, ORDER_STATUS.ENVIADO, ORDER_STATUS.ENTREGADO];
+    case ORDER_STATUS.CANCELADO:
+      return [ORDER_STATUS.CANCELADO];
+    default:
+      return [];
+  }
+}
+
+function slug(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^a-z0-9]+/g, '.').replace(/^\.|\.$/g, '');
+}
@@ -1,117 +1,262 @@
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { Op, QueryTypes } from 'sequelize';
 import { Usuario } from '../../models/Usuario';
 import { Producto } from '../../models/Producto';
+import { Cliente } from '../../models/Cliente';
+import { Pedido } from '../../models/Pedido';
+import { PedidoService } from '../../services/PedidoService';
+import { config } from '../../config';
+import { ORDER_STATUS, TABLES, USER_ROLES } from '../../constants';
 import { database } from '../connection';
 import { Logger } from '../../utils/helpers';
+import { SeededRandom } from './SeededRandom';
+import { generateClientes, generatePedidoPlans, generateProductos } from './generators';
+
+export type SeedProfile = 'minimal' | 'demo' | 'load-test';
+
+export interface SeedSize {
+  vendedores: number;
+  clientes: number;
+  productos: number;
+  pedidos: number;
+  // Pedidos are spread over this many past days
+  days: number;
+}
+
+export interface SeedOptions extends Partial<SeedSize> {
+  profile: SeedProfile;
+  // RNG seed: the same seed and sizes always generate the same dataset
+  seed?: number;
+  // Empty every table first (never in production)
+  reset?: boolean;
+}
+
+export const SEED_PROFILES: Record<SeedProfile, SeedSize> = {
+  minimal: { vendedores: 0, clientes: 0, productos: 0, pedidos: 0, days: 0 },
+  demo: { vendedores: 3, clientes: 50, productos: 35, pedidos: 300, days: 90 },
+  'load-test': { vendedores: 20, clientes: 5000, productos: 700, pedidos: 20000, days: 365 }
+};
+
+const DEFAULT_SEED = 20240101;
+const DEMO_EMAIL_DOMAIN = 'demo.sportsline.com';
+const BATCH_SIZE = 500;
 
 export class SeedData {
-  static async seedUsuarios(): Promise<void> {
+  /**
+   * Admin account from SEED_ADMIN_* settings; an existing one is left untouched
+   */
+  static async seedAdmin(): Promise<void> {
     try {
-      // Check if admin user already exists
-      const existingAdmin = await Usuario.findOne({ where: { email: 'admin@sportsline.com' } });
-      
-      if (!existingAdmin) {
-        const hashedPassword = await bcrypt.hash('admin123', 10);
-        
-        await Usuario.create({
-          nombre: 'Administrador',
-          email: 'admin@sportsline.com',
-          password: hashedPassword,
-          rol: 'admin',
-          activo: true
-        });
-        
-        Logger.info('Admin user created successfully');
-      } else {
-        Logger.info('Admin user already exists');
+      const { adminName, adminEmail, adminPassword } = config.seed;
+
+      if (await Usuario.findOne({ where: { email: adminEmail } })) {
+        Logger.info(`Admin user ${adminEmail} already exists`);
+        return;
       }
 
-      // Check if vendor user already exists
-      const existingVendor = await Usuario.findOne({ where: { email: 'vendedor@sportsline.com' } });
-      
-      if (!existingVendor) {
-        const hashedPassword = await bcrypt.hash('vendedor123', 10);
-        
-        await Usuario.create({
-          nombre: 'Vendedor Principal',
-          email: 'vendedor@sportsline.com',
-          password: hashedPassword,
-          rol: 'vendedor',
-          activo: true
-        });
-        
-        Logger.info('Vendor user created successfully');
-      } else {
-        Logger.info('Vendor user already exists');
+      if (!adminPassword) {
+        throw new Error('SEED_ADMIN_PASSWORD must be set to create the admin user');
       }
+
+      await Usuario.create({
+        nombre: adminName,
+        email: adminEmail,
+        password: await bcrypt.hash(adminPassword, 10),
+        rol: USER_ROLES.ADMIN,
+        activo: true
+      });
+
+      Logger.info(`Admin user ${adminEmail} created successfully`);
     } catch (error) {
-      Logger.error('Error seeding usuarios:', error);
+      Logger.error('Error seeding admin:', error);
       throw error;
     }
   }
 
-  static async seedProductos(): Promise<void> {
+  /**
+   * Demo vendedores vendedor<n>@demo.sportsline.com; returns their ids
+   */
+  static async seedVendedores(count: number): Promise<number[]> {
     try {
-      const productos = [
-        {
-          codigo: 'PROD-001',
-          nombre: 'Balón de Fútbol Nike',
-          descripcion: 'Balón de fútbol oficial Nike, tamaño 5, ideal para partidos profesionales',
-          precio: 89.99,
-          stock: 50,
-          categoria: 'Fútbol',
-          activo: true
-        },
-        {
-          codigo: 'PROD-002',
-          nombre: 'Raqueta de Tenis Wilson',
-          descripcion: 'Raqueta de tenis Wilson Pro Staff, peso 300g, ideal para jugadores avanzados',
-          precio: 199.99,
-          stock: 25,
-          categoria: 'Tenis',
-          activo: true
-        },
-        {
-          codigo: 'PROD-003',
-          nombre: 'Zapatillas Running Adidas',
-          descripcion: 'Zapatillas de running Adidas Ultraboost, tecnología Boost para máximo confort',
-          precio: 149.99,
-          stock: 40,
-          categoria: 'Running',
+      const emails = Array.from({ length: count }, (_, i) => `vendedor${i + 1}@${DEMO_EMAIL_DOMAIN}`);
+      const existing = await Usuario.findAll({ where: { email: emails }, attributes: ['email'] });
+      const missing = emails.filter(email => !existing.some(usuario => usuario.email === email));
+
+      if (missing.length > 0) {
+        // Without SEED_DEMO_PASSWORD nobody can log in as them; they only own pedidos
+        const password = await bcrypt.hash(config.seed.demoPassword || crypto.randomBytes(24).toString('hex'), 10);
+
+        await Usuario.bulkCreate(missing.map(email => ({
+          nombre: `Vendedor ${email.split('@')[0].replace('vendedor', '')}`,
+          email,
+          password,
+          rol: USER_ROLES.VENDEDOR,
           activo: true
+        })));
+      }
+
+      Logger.info(`Vendedores: ${missing.length} created, ${count - missing.length} already present`);
+      return this.idsBy(Usuario, 'email', emails);
+    } catch (error) {
+      Logger.error('Error seeding vendedores:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generated clientes, matched to existing rows by documento; returns their ids
+   */
+  static async seedClientes(rng: SeededRandom, count: number): Promise<number[]> {
+    try {
+      const clientes = generateClientes(rng, count);
+      const documentos = clientes.map(cliente => cliente.documento);
+      const created = await this.insertMissing(Cliente, 'documento', clientes);
+
+      Logger.info(`Clientes: ${created} created, ${count - created} already present`);
+      return this.idsBy(Cliente, 'documento', documentos);
+    } catch (error) {
+      Logger.error('Error seeding clientes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generated productos, matched to existing rows by codigo; returns their ids
+   */
+  static async seedProductos(rng: SeededRandom, count: number, minStock: number): Promise<number[]> {
+    try {
+      const productos = generateProductos(rng, count, minStock);
+      const codigos = productos.map(producto => producto.codigo);
+      const created = await this.insertMissing(Producto, 'codigo', productos.map(producto => ({ ...producto, activo: true })));
+
+      Logger.info(`Productos: ${created} created, ${count - created} already present`);
+      return this.idsBy(Producto, 'codigo', codigos);
+    } catch (error) {
+      Logger.error('Error seeding productos:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pedidos created and moved through their estados by PedidoService, then backdated
+   * Each is tagged in observaciones with the profile and its number in the dataset,
+   * so a rerun only creates the ones that are missing.
+   */
+  static async seedPedidos(
+    rng: SeededRandom,
+    profile: SeedProfile,
+    size: SeedSize,
+    ids: { clienteIds: number[]; productoIds: number[]; usuarioIds: number[] }
+  ): Promise<void> {
+    try {
+      const tag = (key: number) => `[seed:${profile}:${key}]`;
+      const plans = generatePedidoPlans(rng, { count: size.pedidos, days: size.days, now: new Date(), ...ids });
+
+      const existing = await Pedido.findAll({
+        where: { observaciones: { [Op.like]: `[seed:${profile}:%` } },
+        attributes: ['observaciones']
+      });
+      const seeded = new Set(existing.map(pedido => pedido.observaciones));
+
+      const pedidoService = new PedidoService();
+      const sequelize = database.getSequelize();
+      let created = 0;
+      let failed = 0;
+
+      for (const plan of plans) {
+        if (seeded.has(tag(plan.key))) {
+          continue;
         }
-      ];
-
-      for (const producto of productos) {
-        const existingProduct = await Producto.findOne({ where: { codigo: producto.codigo } });
-        
-        if (!existingProduct) {
-          await Producto.create(producto);
-          Logger.info(`Product ${producto.codigo} created successfully`);
-        } else {
-          Logger.info(`Product ${producto.codigo} already exists`);
+
+        try {
+          const pedido = await pedidoService.createPedido({
+            clienteId: plan.clienteId,
+            productos: plan.productos,
+            observaciones: tag(plan.key)
+          }, plan.usuarioId);
+
+          for (const estado of plan.transitions) {
+            const referenciaEnvio = estado === ORDER_STATUS.ENVIADO ? `GUIA-${pedido.id}` : undefined;
+            await pedidoService.updatePedidoEstado(pedido.id, estado, plan.usuarioId, undefined, referenciaEnvio);
+          }
+
+          await sequelize.query(`UPDATE ${TABLES.PEDIDOS} SET fecha = :fecha, "createdAt" = :fecha WHERE id = :id`, {
+            replacements: { fecha: plan.fecha, id: pedido.id }
+          });
+          await sequelize.query(`UPDATE ${TABLES.PEDIDO_ESTADO_HISTORIAL} SET fecha = :fecha WHERE "pedidoId" = :id`, {
+            replacements: { fecha: plan.fecha, id: pedido.id }
+          });
+
+          created++;
+          if (created % BATCH_SIZE === 0) {
+            Logger.info(`Pedidos: ${created} created so far`);
+          }
+        } catch (error) {
+          // Typically stock running out on a small catalog; the rest of the dataset still loads
+          Logger.warn(`Skipping seed pedido ${plan.key}: ${error instanceof Error ? error.message : error}`);
+          failed++;
         }
       }
+
+      Logger.info(`Pedidos: ${created} created, ${seeded.size} already present, ${failed} failed`);
     } catch (error) {
-      Logger.error('Error seeding productos:', error);
+      Logger.error('Error seeding pedidos:', error);
       throw error;
     }
   }
 
-  static async runSeeds(): Promise<void> {
+  /**
+   * Empty every application table and restart ids; the migrations table is kept
+   */
+  static async reset(): Promise<void> {
     try {
-      Logger.info('Starting database seeding...');
-      
+      await database.getSequelize().query(`TRUNCATE ${Object.values(TABLES).join(', ')} RESTART IDENTITY CASCADE`);
+      Logger.info('All tables emptied');
+    } catch (error) {
+      Logger.error('Error resetting database:', error);
+      throw error;
+    }
+  }
+
+  static async runSeeds(options: SeedOptions = { profile: defaultProfile() }): Promise<void> {
+    const size: SeedSize = { ...SEED_PROFILES[options.profile], ...definedOnly(options) };
+
+    if (config.nodeEnv === 'production' && (options.reset || options.profile !== 'minimal')) {
+      throw new Error('Only the minimal profile, without --reset, can be seeded in production');
+    }
+
+    if (size.pedidos > 0 && (size.vendedores === 0 || size.clientes === 0 || size.productos === 0)) {
+      throw new Error('Seeding pedidos needs at least one vendedor, cliente and producto');
+    }
+
+    try {
+      Logger.info(`Starting database seeding (profile: ${options.profile})...`);
+
       // Connect to database
       await database.connect();
-      
-      // Sync database (create tables if they don't exist)
-      await database.sync();
-      
-      // Seed data
-      await this.seedUsuarios();
-      await this.seedProductos();
-      
+
+      // Bring the schema up to date before inserting rows
+      await database.migrate();
+
+      if (options.reset) {
+        await this.reset();
+      }
+
+      await this.seedAdmin();
+
+      // One generator per entity, so resizing one does not reshuffle the others
+      const seed = options.seed ?? DEFAULT_SEED;
+      const usuarioIds = await this.seedVendedores(size.vendedores);
+      const clienteIds = await this.seedClientes(new SeededRandom(seed), size.clientes);
+      // Roughly 5 units per pedido: keep enough stock for twice the expected demand
+      const minStock = Math.max(20, Math.ceil((size.pedidos * 10) / Math.max(size.productos, 1)));
+      const productoIds = await this.seedProductos(new SeededRandom(seed + 1), size.productos, minStock);
+
+      if (size.pedidos > 0) {
+        await this.seedPedidos(new SeededRandom(seed + 2), options.profile, size, { clienteIds, productoIds, usuarioIds });
+      }
+
       Logger.info('Database seeding completed successfully');
     } catch (error) {
       Logger.error('Error during database seeding:', error);
@@ -121,11 +266,101 @@ export class SeedData {
       await database.disconnect();
     }
   }
+
+  // Insert the rows whose key column is not taken yet; returns how many were inserted
+  private static async insertMissing<T extends object>(model: any, key: keyof T & string, rows: T[]): Promise<number> {
+    let created = 0;
+
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      const batch = rows.slice(i, i + BATCH_SIZE);
+      const existing = await model.findAll({ where: { [key]: batch.map(row => row[key]) }, attributes: [key] });
+      const taken = new Set(existing.map((row: any) => row[key]));
+      const missing = batch.filter(row => !taken.has(row[key]));
+
+      if (missing.length > 0) {
+        await model.bulkCreate(missing);
+        created += missing.length;
+      }
+    }
+
+    return created;
+  }
+
+  // Ids of the rows with the given key values, in the same order
+  private static async idsBy(model: any, key: string, values: string[]): Promise<number[]> {
+    if (values.length === 0) {
+      return [];
+    }
+
+    const rows = await database.getSequelize().query<{ id: number; key: string }>(
+      `SELECT id, "${key}" AS "key" FROM ${model.tableName} WHERE "${key}" IN (:values)`,
+      { replacements: { values }, type: QueryTypes.SELECT }
+    );
+    const idByKey = new Map(rows.map(row => [row.key, row.id]));
+
+    return values.map(value => idByKey.get(value)!);
+  }
+}
+
+/**
+ * Parse seed CLI arguments, e.g. --profile demo --pedidos 500 --seed 7 --reset
+ */
+export function parseSeedArgs(args: string[]): SeedOptions {
+  const options: SeedOptions = { profile: defaultProfile() };
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].split('=', 2);
+    const value = () => inline ?? args[++i];
+
+    switch (flag) {
+      case '--reset':
+        options.reset = true;
+        break;
+      case '--profile': {
+        const profile = value();
+        if (!(profile in SEED_PROFILES)) {
+          throw new Error(`Unknown seed profile "${profile}" (expected ${Object.keys(SEED_PROFILES).join(', ')})`);
+        }
+        options.profile = profile as SeedProfile;
+        break;
+      }
+      case '--seed':
+      case '--vendedores':
+      case '--clientes':
+      case '--productos':
+      case '--pedidos':
+      case '--days': {
+        const number = Number(value());
+        if (!Number.isInteger(number) || number < 0) {
+          throw new Error(`${flag} must be a non-negative integer`);
+        }
+        options[flag.slice(2) as 'seed' | keyof SeedSize] = number;
+        break;
+      }
+      default:
+        throw new Error(`Unknown option ${args[i]}`);
+    }
+  }
+
+  return options;
+}
+
+// Production only ever gets the admin account
+function defaultProfile(): SeedProfile {
+  return config.nodeEnv === 'production' ? 'minimal' : 'demo';
+}
+
+function definedOnly(options: SeedOptions): Partial<SeedSize> {
+  const { vendedores, clientes, productos, pedidos, days } = options;
+  return Object.fromEntries(
+    Object.entries({ vendedores, clientes, productos, pedidos, days }).filter(([, value]) => value !== undefined)
+  );
 }
 
 // Run seeds if this file is executed directly
 if (require.main === module) {
-  SeedData.runSeeds()
+  Promise.resolve()
+    .then(() => SeedData.runSeeds(parseSeedArgs(process.argv.slice(2))))
     .then(() => {
       console.log('Seeding completed');
       process.exit(0);
@@ -35,6 +35,7 @@ export interface AuthResponse {
 
 export interface RefreshTokenResponse {
   accessToken: string;
+  refreshToken: string;
 }
 
 export interface ProfileResponse {
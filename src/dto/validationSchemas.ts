@@ -1,4 +1,11 @@
 import Joi from 'joi';
+import { ORDER_STATUS, PEDIDO_FIELDS, PEDIDO_INCLUDES, PRODUCT_SEARCH } from '../constants';
+
+// Pattern for a comma-separated list of known values
+const csvOf = (values: readonly string[]): RegExp => {
+  const item = `(${values.map(value => value.replace('.', '\\.')).join('|')})`;
+  return new RegExp(`^${item}(,${item})*$`);
+};
 
 // Base validation schemas
 export const commonSchemas = {
@@ -11,6 +18,28 @@ export const commonSchemas = {
   limit: Joi.number().integer().min(1).max(100).default(10)
 };
 
+// Opt-in keyset pagination for list endpoints
+const cursorSchemas = {
+  pagination: Joi.string().valid('cursor'),
+  after: Joi.string().max(512),
+  before: Joi.string().max(512)
+};
+
+// filter[field][operator]=value and sort=-field,field; fields and operators are whitelisted per DAO
+const listQuerySchemas = {
+  filter: Joi.object().pattern(
+    /^[A-Za-z]+$/,
+    Joi.alternatives().try(
+      Joi.string().max(512),
+      Joi.object().pattern(/^[a-z]+$/, Joi.alternatives().try(
+        Joi.string().max(512),
+        Joi.array().items(Joi.string().max(512)).max(100)
+      ))
+    )
+  ),
+  sort: Joi.string().pattern(/^-?[A-Za-z]+(,-?[A-Za-z]+)*$/).max(200)
+};
+
 // Authentication validation schemas
 export const authSchemas = {
   login: Joi.object({
@@ -44,8 +73,10 @@ export const authSchemas = {
     activo: Joi.boolean().optional(),
     search: Joi.string().max(100).optional(),
     page: commonSchemas.page,
-    limit: commonSchemas.limit
-  }),
+    limit: commonSchemas.limit,
+    ...cursorSchemas,
+    ...listQuerySchemas
+  }).oxor('after', 'before'),
 
   usuarioParams: Joi.object({
     id: commonSchemas.id
@@ -81,16 +112,26 @@ export const productSchemas = {
     minPrecio: Joi.number().positive().optional(),
     maxPrecio: Joi.number().positive().optional(),
     page: commonSchemas.page,
-    limit: commonSchemas.limit
-  }),
+    limit: commonSchemas.limit,
+    ...cursorSchemas,
+    ...listQuerySchemas
+  }).oxor('after', 'before'),
 
   params: Joi.object({
     id: commonSchemas.id
   }),
 
+  search: Joi.object({
+    q: Joi.string().trim().min(2).max(100).required(),
+    categoria: Joi.string().max(50).optional(),
+    page: commonSchemas.page,
+    limit: Joi.number().integer().min(1).max(PRODUCT_SEARCH.MAX_LIMIT).default(PRODUCT_SEARCH.DEFAULT_LIMIT)
+  }),
+
   stockUpdate: Joi.object({
     cantidad: Joi.number().integer().min(0).required(),
-    operacion: Joi.string().valid('add', 'subtract', 'set').required()
+    operacion: Joi.string().valid('add', 'subtract', 'set').required(),
+    motivo: Joi.string().valid('ajuste_manual', 'recepcion').optional()
   })
 };
 
@@ -121,8 +162,10 @@ export const clientSchemas = {
     activo: Joi.boolean().optional(),
     search: Joi.string().max(100).optional(),
     page: commonSchemas.page,
-    limit: commonSchemas.limit
-  }),
+    limit: commonSchemas.limit,
+    ...cursorSchemas,
+    ...listQuerySchemas
+  }).oxor('after', 'before'),
 
   params: Joi.object({
     id: commonSchemas.id
@@ -143,9 +186,21 @@ export const orderSchemas = {
   }),
 
   update: Joi.object({
-    estado: Joi.string().valid('pendiente', 'confirmado', 'enviado', 'entregado', 'cancelado').optional()
+    estado: Joi.string().valid('pendiente', 'confirmado', 'enviado', 'entregado', 'cancelado').optional(),
+    motivo: Joi.string().max(500).optional(),
+    referenciaEnvio: Joi.string().max(100).optional()
   }).min(1),
 
+  bulkEstado: Joi.object({
+    ids: Joi.array().items(commonSchemas.id).min(1).max(100).required(),
+    estado: Joi.string().valid('pendiente', 'confirmado', 'enviado', 'entregado', 'cancelado').required(),
+    motivo: Joi.string().max(500).optional()
+  }),
+
+  cancel: Joi.object({
+    motivo: Joi.string().max(500).optional()
+  }),
+
   filters: Joi.object({
     clienteId: commonSchemas.id.optional(),
     productoId: commonSchemas.id.optional(),
@@ -153,11 +208,56 @@ export const orderSchemas = {
     fechaInicio: Joi.date().optional(),
     fechaFin: Joi.date().optional(),
     page: commonSchemas.page,
-    limit: commonSchemas.limit
-  }),
+    limit: commonSchemas.limit,
+    fields: Joi.string().pattern(csvOf(PEDIDO_FIELDS)).optional()
+      .messages({ 'string.pattern.base': `fields must be a comma-separated list of: ${PEDIDO_FIELDS.join(', ')}` }),
+    include: Joi.string().pattern(csvOf(PEDIDO_INCLUDES)).optional()
+      .messages({ 'string.pattern.base': `include must be a comma-separated list of: ${PEDIDO_INCLUDES.join(', ')}` }),
+    ...cursorSchemas,
+    ...listQuerySchemas
+  }).oxor('after', 'before'),
 
   params: Joi.object({
     id: commonSchemas.id
+  }),
+
+  detalles: Joi.object({
+    productos: Joi.array().items(
+      Joi.object({
+        productoId: commonSchemas.id,
+        cantidad: Joi.number().integer().min(1).required()
+      })
+    ).min(1).required()
+  }),
+
+  detalle: Joi.object({
+    productoId: commonSchemas.id,
+    cantidad: Joi.number().integer().min(1).required()
+  }),
+
+  detalleParams: Joi.object({
+    id: commonSchemas.id,
+    productoId: commonSchemas.id
+  })
+};
+
+// Analytics validation schemas
+export const analyticsSchemas = {
+  salesTimeSeries: Joi.object({
+    bucket: Joi.string().valid('day', 'week', 'month').default('day'),
+    from: Joi.date().iso().optional(),
+    to: Joi.date().iso().optional(),
+    timezone: Joi.string().max(64).custom((value, helpers) => {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return value;
+      } catch {
+        return helpers.error('any.invalid');
+      }
+    }).optional(),
+    estado: Joi.string().pattern(csvOf(Object.values(ORDER_STATUS))).optional()
+      .messages({ 'string.pattern.base': 'estado must be a comma-separated list of pedido estados' }),
+    groupBy: Joi.string().valid('categoria', 'usuario', 'cliente').optional()
   })
 };
 
@@ -171,10 +271,8 @@ export const encryptionSchemas = {
   }),
   
   decryptData: Joi.object({
-    encryptedData: Joi.string().required(),
-    encryptedKey: Joi.string().required(),
-    iv: Joi.string().required(),
-    privateKey: Joi.string().required()
+    envelope: Joi.alternatives(Joi.string(), Joi.object()).required(),
+    privateKey: Joi.string()
   }),
   
   encryptUserInfo: Joi.object({
@@ -183,10 +281,8 @@ export const encryptionSchemas = {
   }),
   
   decryptUserInfo: Joi.object({
-    encryptedData: Joi.string().required(),
-    encryptedKey: Joi.string().required(),
-    iv: Joi.string().required(),
-    privateKey: Joi.string().required()
+    envelope: Joi.alternatives(Joi.string(), Joi.object()).required(),
+    privateKey: Joi.string()
   }),
   
   hashData: Joi.object({
@@ -195,6 +291,15 @@ export const encryptionSchemas = {
   
   generateRandom: Joi.object({
     length: Joi.number().integer().min(8).max(256).optional()
+  }),
+
+  rotateKey: Joi.object({
+    keyId: Joi.string().pattern(/^[A-Za-z0-9._-]{1,64}$/).optional(),
+    batchSize: Joi.number().integer().min(1).max(1000).optional()
+  }),
+
+  updateKeyStatus: Joi.object({
+    status: Joi.string().valid('active', 'decrypt-only', 'retired').required()
   })
 };
 
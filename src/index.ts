@@ -1,74 +1,15 @@
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import dotenv from 'dotenv';
-import swaggerUi from 'swagger-ui-express';
-import { swaggerSpec } from './config/swagger';
+import { createApp } from './app';
+import { startServer } from './server';
+import { Logger } from './utils/helpers';
 
-// Import routes
-import authRoutes from './routes/auth';
-import tokenRoutes from './routes/token';
-import usuariosRoutes from './routes/usuarios';
-import productosRoutes from './routes/productos';
-import clientesRoutes from './routes/clientes';
-import pedidosRoutes from './routes/pedidos';
-import pedidosEncryptionRoutes from './routes/pedidos-encryption';
-import encryptionRoutes from './routes/encryption';
+export { createApp, startServer };
 
-// Import middlewares
-import { ErrorMiddleware } from './middlewares/ErrorMiddleware';
-
-// Load environment variables
-dotenv.config();
-
-const app = express();
-const PORT = process.env.PORT || 3000;
-
-// Swagger configuration is now imported from config/swagger.ts
-
-// Middleware
-app.use(helmet());
-app.use(cors());
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
-
-// Swagger documentation
-app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
-
-// Routes
-app.use('/api/auth', authRoutes);
-app.use('/api/token', tokenRoutes);
-app.use('/api/usuarios', usuariosRoutes);
-app.use('/api/productos', productosRoutes);
-app.use('/api/clientes', clientesRoutes);
-app.use('/api/pedidos', pedidosRoutes);
-app.use('/api/pedidos-encryption', pedidosEncryptionRoutes);
-app.use('/api/encryption', encryptionRoutes);
-
-// Basic route
-app.get('/', (req, res) => {
-  res.json({
-    message: 'SportsLine API',
-    version: '1.0.0',
-    status: 'running',
-    documentation: '/api-docs'
-  });
-});
-
-// Health check
-app.get('/health', (req, res) => {
-  res.json({
-    status: 'OK',
-    timestamp: new Date().toISOString()
+// Only start listening when run as the entry point, never when imported
+if (require.main === module) {
+  startServer({ handleSignals: true }).catch((error) => {
+    Logger.error('Startup aborted:', error instanceof Error ? error.message : error);
+    process.exit(1);
   });
-});
-
-// Error handling middleware
-app.use(ErrorMiddleware.errorHandler);
-
-// Start server
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-});
+}
 
-export default app;
+export default createApp;
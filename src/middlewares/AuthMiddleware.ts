@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { TokenService } from '../services/TokenService';
 import { AuthService } from '../services/AuthService';
+import { tokenDenylist } from '../services/TokenDenylist';
 import { ResponseHelper } from '../utils/helpers';
 import { Logger } from '../utils/helpers';
 
@@ -47,6 +48,12 @@ export class AuthMiddleware {
         return;
       }
 
+      // Check if token was revoked (logout-all, password change, deactivation)
+      if (await tokenDenylist.isRevoked(decoded)) {
+        ResponseHelper.error(res, 'Token has been revoked', 401);
+        return;
+      }
+
       // Get user from database to ensure they still exist and are active
       const user = await this.authService.getUserById(decoded.id);
       
@@ -164,7 +171,7 @@ export class AuthMiddleware {
       const decoded = await this.authService.verifyToken(token);
       
       // Check if token is expired
-      if (TokenService.isTokenExpired(token)) {
+      if (TokenService.isTokenExpired(token) || await tokenDenylist.isRevoked(decoded)) {
         next();
         return;
       }
@@ -379,38 +379,6 @@ export abstract class BaseMiddleware {
     }
   }
 
-  /**
-   * Rate limiting helper
-   */
-  protected checkRateLimit(req: Request, limit: number, windowMs: number): boolean {
-    // This is a simplified rate limiting implementation
-    // In production, you would use a proper rate limiting library
-    const key = req.ip;
-    const now = Date.now();
-    
-    // Store rate limit data in memory (in production, use Redis)
-    if (!global.rateLimitStore) {
-      global.rateLimitStore = new Map();
-    }
-    
-    const store = global.rateLimitStore;
-    const userLimit = store.get(key as string) || { count: 0, resetTime: now + windowMs };
-    
-    if (now > userLimit.resetTime) {
-      userLimit.count = 0;
-      userLimit.resetTime = now + windowMs;
-    }
-    
-    if (userLimit.count >= limit) {
-      return false;
-    }
-    
-    userLimit.count++;
-    store.set(key as string, userLimit);
-    
-    return true;
-  }
-
   /**
    * Generate audit log entry
    */
@@ -453,8 +421,3 @@ export abstract class BaseMiddleware {
     }
   }
 }
-
-// Extend global namespace for rate limiting
-declare global {
-  var rateLimitStore: Map<string, { count: number; resetTime: number }>;
-}
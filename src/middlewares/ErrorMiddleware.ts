@@ -1,12 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
 import { Logger } from '../utils/helpers';
+import { requestContext } from '../utils/logger';
+import { RequestIdMiddleware } from './RequestIdMiddleware';
 
 export class ErrorMiddleware {
   /**
    * Global error handler middleware
    */
   public static errorHandler = (error: any, req: Request, res: Response, next: NextFunction): void => {
-    Logger.error('Unhandled error:', error);
+    // Errors raised before RequestIdMiddleware.assign ran (e.g. malformed JSON) still get an id
+    const requestId = RequestIdMiddleware.resolve(req, res);
+    requestContext.run({ requestId }, () => Logger.error('Unhandled error:', error));
 
     // Default error response
     let statusCode = 500;
@@ -60,6 +64,7 @@ export class ErrorMiddleware {
       success: false,
       message,
       error: details,
+      requestId,
       ...(process.env.NODE_ENV === 'development' && { stack: error.stack })
     });
   };
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { PROMETHEUS_CONTENT_TYPE, httpRequestDuration, httpRequestsTotal, metrics } from '../utils/metrics';
+
+// Label for requests no route matched, so scanners cannot create a series per URL
+export const UNMATCHED_ROUTE = 'unmatched';
+
+export class MetricsMiddleware {
+  /**
+   * Count every request and observe its latency, labelled by route template
+   * The template is captured when Express assigns req.route: by the time the response
+   * finishes, routers that passed an error on have already reset req.baseUrl.
+   */
+  public static record = (req: Request, res: Response, next: NextFunction): void => {
+    const stopTimer = httpRequestDuration.startTimer();
+    let route: Request['route'];
+    let template: string | undefined;
+
+    Object.defineProperty(req, 'route', {
+      configurable: true,
+      enumerable: true,
+      get: () => route,
+      set: (value: Request['route']) => {
+        route = value;
+        template = value ? `${req.baseUrl}${value.path}` : undefined;
+      }
+    });
+
+    res.on('finish', () => {
+      const labels = { method: req.method, route: template || UNMATCHED_ROUTE, status: res.statusCode };
+      httpRequestsTotal.inc(labels);
+      stopTimer(labels);
+    });
+
+    next();
+  };
+
+  /**
+   * Serve the registry in Prometheus text format
+   * When METRICS_TOKEN is set, scrapers must send it as a bearer token.
+   */
+  public static expose = (req: Request, res: Response): void => {
+    if (config.metrics.token && !MetricsMiddleware.hasToken(req, config.metrics.token)) {
+      res.status(401).json({ success: false, message: 'Metrics token required' });
+      return;
+    }
+
+    res.set('Content-Type', PROMETHEUS_CONTENT_TYPE).send(metrics.render());
+  };
+
+  private static hasToken(req: Request, token: string): boolean {
+    const header = req.get('Authorization') || '';
+    const provided = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+    const expected = Buffer.from(token);
+
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  }
+}
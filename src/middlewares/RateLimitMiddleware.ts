@@ -0,0 +1,67 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { RateLimitDecision, RateLimitPolicy, RateLimiter, rateLimiter } from '../services/RateLimiter';
+import { Logger, ResponseHelper } from '../utils/helpers';
+import { rateLimitedTotal } from '../utils/metrics';
+
+export class RateLimitMiddleware {
+  /**
+   * Enforce a policy on the routes it is mounted on
+   * Policies keyed by user or role must come after AuthMiddleware.verifyToken to see the user.
+   * Every response carries RateLimit-Limit, -Remaining and -Reset for the policy; a store
+   * failure lets the request through rather than taking the API down.
+   */
+  public static limit = (policy: RateLimitPolicy, limiter: RateLimiter = rateLimiter) => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      if (!config.rateLimit.enabled) {
+        next();
+        return;
+      }
+
+      const identity = RateLimitMiddleware.identity(policy, req);
+      const limit = (req.user && policy.limitByRole?.[req.user.rol]) || policy.limit;
+
+      let decision: RateLimitDecision;
+      try {
+        decision = await limiter.consume(policy, identity, limit);
+      } catch (error) {
+        Logger.error(`Rate limit store failed for policy ${policy.name}:`, error);
+        next();
+        return;
+      }
+
+      RateLimitMiddleware.setHeaders(res, policy, decision);
+
+      if (decision.allowed) {
+        next();
+        return;
+      }
+
+      rateLimitedTotal.inc({ policy: policy.name });
+      Logger.warn(`Rate limit exceeded for ${identity} on policy ${policy.name}`);
+      res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+      ResponseHelper.error(res, 'Too many requests, please try again later', 429);
+    };
+  };
+
+  /**
+   * The key requests share a quota under: the client IP, the user id or the role
+   */
+  public static identity(policy: RateLimitPolicy, req: Request): string {
+    if (policy.keyBy === 'user' && req.user) {
+      return `user:${req.user.id}`;
+    }
+    if (policy.keyBy === 'role' && req.user) {
+      return `role:${req.user.rol}`;
+    }
+    return `ip:${req.ip || req.socket?.remoteAddress || 'unknown'}`;
+  }
+
+  private static setHeaders(res: Response, policy: RateLimitPolicy, decision: RateLimitDecision): void {
+    // A route policy runs after the global one; its headers replace the global ones
+    res.setHeader('RateLimit-Policy', `${decision.limit};w=${Math.ceil(policy.windowMs / 1000)}`);
+    res.setHeader('RateLimit-Limit', String(decision.limit));
+    res.setHeader('RateLimit-Remaining', String(decision.remaining));
+    res.setHeader('RateLimit-Reset', String(decision.resetSeconds));
+  }
+}
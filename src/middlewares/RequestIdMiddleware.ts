@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { requestContext } from '../utils/logger';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Incoming ids are echoed into headers and logs, so only accept short, plain tokens
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+export class RequestIdMiddleware {
+  /**
+   * Accept the caller's X-Request-Id or create one, echo it in the response and
+   * run the rest of the request inside its logging context
+   */
+  public static assign = (req: Request, res: Response, next: NextFunction): void => {
+    const requestId = RequestIdMiddleware.resolve(req, res);
+    requestContext.run({ requestId }, () => next());
+  };
+
+  /**
+   * The request's id, assigning one if no middleware has yet
+   * Used directly by handlers that may run before assign, e.g. for body parser errors.
+   */
+  public static resolve = (req: Request, res: Response): string => {
+    if (!req.requestId) {
+      const incoming = req.get(REQUEST_ID_HEADER);
+      req.requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+    }
+
+    if (!res.headersSent) {
+      res.setHeader(REQUEST_ID_HEADER, req.requestId);
+    }
+
+    return req.requestId;
+  };
+}
@@ -1,68 +1,34 @@
+import { AsyncResource } from 'async_hooks';
 import { Request, Response, NextFunction } from 'express';
 import { Logger } from '../utils/helpers';
 
 export class SecurityMiddleware {
-  /**
-   * Rate limiting middleware (simple implementation)
-   */
-  private static requestCounts = new Map<string, { count: number; resetTime: number }>();
-  
-  public static rateLimit = (maxRequests: number = 100, windowMs: number = 15 * 60 * 1000) => {
-    return (req: Request, res: Response, next: NextFunction): void => {
-      const clientId = req.ip || req.connection.remoteAddress || 'unknown';
-      const now = Date.now();
-      
-      const clientData = SecurityMiddleware.requestCounts.get(clientId);
-      
-      if (!clientData || now > clientData.resetTime) {
-        // Reset or initialize client data
-        SecurityMiddleware.requestCounts.set(clientId, {
-          count: 1,
-          resetTime: now + windowMs
-        });
-        next();
-        return;
-      }
-      
-      if (clientData.count >= maxRequests) {
-        Logger.warn(`Rate limit exceeded for client: ${clientId}`);
-        res.status(429).json({
-          success: false,
-          message: 'Too many requests, please try again later',
-          retryAfter: Math.ceil((clientData.resetTime - now) / 1000)
-        });
-        return;
-      }
-      
-      clientData.count++;
-      next();
-    };
-  };
-
   /**
    * Request logging middleware
    */
   public static requestLogger = (req: Request, res: Response, next: NextFunction): void => {
     const start = Date.now();
-    
-    res.on('finish', () => {
-      const duration = Date.now() - start;
+
+    // 'finish' fires outside the request's async context; bind keeps its request id
+    res.on('finish', AsyncResource.bind(() => {
       const logData = {
         method: req.method,
-        url: req.url,
+        url: req.originalUrl,
         status: res.statusCode,
-        duration: `${duration}ms`,
+        durationMs: Date.now() - start,
         ip: req.ip,
         userAgent: req.get('User-Agent')
       };
-      
-      if (res.statusCode >= 400) {
-        Logger.error('HTTP Request Error:', logData);
+
+      if (res.statusCode >= 500) {
+        Logger.error('HTTP request failed', logData);
+      } else if (res.statusCode >= 400) {
+        Logger.warn('HTTP request rejected', logData);
       } else {
-        Logger.info('HTTP Request:', logData);
+        Logger.info('HTTP request', logData);
       }
-    });
-    
+    }));
+
     next();
   };
 
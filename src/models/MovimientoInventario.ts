@@ -0,0 +1,112 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { database } from '../database/connection';
+
+export type MotivoMovimiento = 'venta' | 'cancelacion' | 'ajuste_manual' | 'recepcion';
+
+// MovimientoInventario attributes interface
+export interface MovimientoInventarioAttributes {
+  id: number;
+  productoId: number;
+  delta: number;
+  stockResultante: number;
+  motivo: MotivoMovimiento;
+  pedidoId?: number | null;
+  usuarioId?: number | null;
+  fecha: Date;
+  createdAt?: Date;
+}
+
+// MovimientoInventario creation attributes (optional id)
+export interface MovimientoInventarioCreationAttributes extends Optional<MovimientoInventarioAttributes, 'id' | 'pedidoId' | 'usuarioId' | 'fecha' | 'createdAt'> {}
+
+// MovimientoInventario model class
+export class MovimientoInventario extends Model<MovimientoInventarioAttributes, MovimientoInventarioCreationAttributes> implements MovimientoInventarioAttributes {
+  public id!: number;
+  public productoId!: number;
+  public delta!: number;
+  public stockResultante!: number;
+  public motivo!: MotivoMovimiento;
+  public pedidoId?: number | null;
+  public usuarioId?: number | null;
+  public fecha!: Date;
+  public readonly createdAt!: Date;
+}
+
+const appendOnly = (): never => {
+  throw new Error('movimientos_inventario is append-only');
+};
+
+// Initialize MovimientoInventario model
+MovimientoInventario.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    productoId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'productos',
+        key: 'id'
+      }
+    },
+    // Signed change applied to Producto.stock
+    delta: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    stockResultante: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    motivo: {
+      type: DataTypes.ENUM('venta', 'cancelacion', 'ajuste_manual', 'recepcion'),
+      allowNull: false,
+    },
+    pedidoId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'pedidos',
+        key: 'id'
+      }
+    },
+    usuarioId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'usuarios',
+        key: 'id'
+      }
+    },
+    fecha: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize: database.getSequelize(),
+    tableName: 'movimientos_inventario',
+    timestamps: true,
+    updatedAt: false,
+    indexes: [
+      { fields: ['productoId', 'fecha'] },
+      { fields: ['pedidoId'] }
+    ],
+    // Rows are never changed once written; corrections are new movements
+    hooks: {
+      beforeUpdate: appendOnly,
+      beforeBulkUpdate: appendOnly,
+      beforeDestroy: appendOnly,
+      beforeBulkDestroy: appendOnly
+    }
+  }
+);
+
+export default MovimientoInventario;
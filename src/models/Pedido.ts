@@ -10,12 +10,15 @@ export interface PedidoAttributes {
   total: number;
   estado: 'pendiente' | 'confirmado' | 'enviado' | 'entregado' | 'cancelado';
   observaciones?: string;
+  datosCifrados?: string | null;
+  claveId?: string | null;
+  referenciaEnvio?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
 // Pedido creation attributes (optional id)
-export interface PedidoCreationAttributes extends Optional<PedidoAttributes, 'id' | 'observaciones' | 'createdAt' | 'updatedAt'> {}
+export interface PedidoCreationAttributes extends Optional<PedidoAttributes, 'id' | 'observaciones' | 'datosCifrados' | 'claveId' | 'referenciaEnvio' | 'createdAt' | 'updatedAt'> {}
 
 // Pedido model class
 export class Pedido extends Model<PedidoAttributes, PedidoCreationAttributes> implements PedidoAttributes {
@@ -26,6 +29,9 @@ export class Pedido extends Model<PedidoAttributes, PedidoCreationAttributes> im
   public total!: number;
   public estado!: 'pendiente' | 'confirmado' | 'enviado' | 'entregado' | 'cancelado';
   public observaciones?: string;
+  public datosCifrados?: string | null;
+  public claveId?: string | null;
+  public referenciaEnvio?: string | null;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -75,11 +81,29 @@ Pedido.init(
       type: DataTypes.TEXT,
       allowNull: true,
     },
+    // Encrypted snapshot of the sensitive pedido data (EncryptedPedidoData as JSON)
+    datosCifrados: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    // Id of the key that encrypted datosCifrados, used to find rows pending rotation
+    claveId: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    // Carrier tracking reference, required to move the pedido to enviado
+    referenciaEnvio: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
   },
   {
     sequelize: database.getSequelize(),
     tableName: 'pedidos',
     timestamps: true,
+    indexes: [
+      { fields: ['claveId'] }
+    ]
   }
 );
 
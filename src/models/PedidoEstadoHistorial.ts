@@ -0,0 +1,89 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { database } from '../database/connection';
+
+export type PedidoEstado = 'pendiente' | 'confirmado' | 'enviado' | 'entregado' | 'cancelado';
+
+// PedidoEstadoHistorial attributes interface
+export interface PedidoEstadoHistorialAttributes {
+  id: number;
+  pedidoId: number;
+  estadoAnterior?: PedidoEstado | null; // null for the creation entry
+  estadoNuevo: PedidoEstado;
+  usuarioId?: number | null;
+  motivo?: string | null;
+  fecha: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// PedidoEstadoHistorial creation attributes (optional id)
+export interface PedidoEstadoHistorialCreationAttributes extends Optional<PedidoEstadoHistorialAttributes, 'id' | 'estadoAnterior' | 'usuarioId' | 'motivo' | 'fecha' | 'createdAt' | 'updatedAt'> {}
+
+// PedidoEstadoHistorial model class
+export class PedidoEstadoHistorial extends Model<PedidoEstadoHistorialAttributes, PedidoEstadoHistorialCreationAttributes> implements PedidoEstadoHistorialAttributes {
+  public id!: number;
+  public pedidoId!: number;
+  public estadoAnterior?: PedidoEstado | null;
+  public estadoNuevo!: PedidoEstado;
+  public usuarioId?: number | null;
+  public motivo?: string | null;
+  public fecha!: Date;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// Initialize PedidoEstadoHistorial model
+PedidoEstadoHistorial.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    pedidoId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'pedidos',
+        key: 'id'
+      },
+      onDelete: 'CASCADE'
+    },
+    estadoAnterior: {
+      type: DataTypes.ENUM('pendiente', 'confirmado', 'enviado', 'entregado', 'cancelado'),
+      allowNull: true,
+    },
+    estadoNuevo: {
+      type: DataTypes.ENUM('pendiente', 'confirmado', 'enviado', 'entregado', 'cancelado'),
+      allowNull: false,
+    },
+    usuarioId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'usuarios',
+        key: 'id'
+      }
+    },
+    motivo: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    fecha: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize: database.getSequelize(),
+    tableName: 'pedido_estado_historial',
+    timestamps: true,
+    indexes: [
+      { fields: ['pedidoId', 'fecha'] },
+      { fields: ['estadoNuevo', 'fecha'] }
+    ]
+  }
+);
+
+export default PedidoEstadoHistorial;
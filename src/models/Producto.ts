@@ -9,6 +9,8 @@ export interface ProductoAttributes {
   descripcion?: string;
   precio: number;
   stock: number;
+  stockReservado: number;
+  disponible?: number;
   categoria: string;
   activo: boolean;
   createdAt?: Date;
@@ -16,7 +18,7 @@ export interface ProductoAttributes {
 }
 
 // Producto creation attributes (optional id)
-export interface ProductoCreationAttributes extends Optional<ProductoAttributes, 'id' | 'activo' | 'createdAt' | 'updatedAt'> {}
+export interface ProductoCreationAttributes extends Optional<ProductoAttributes, 'id' | 'stockReservado' | 'disponible' | 'activo' | 'createdAt' | 'updatedAt'> {}
 
 // Producto model class
 export class Producto extends Model<ProductoAttributes, ProductoCreationAttributes> implements ProductoAttributes {
@@ -26,6 +28,8 @@ export class Producto extends Model<ProductoAttributes, ProductoCreationAttribut
   public descripcion?: string;
   public precio!: number;
   public stock!: number;
+  public stockReservado!: number;
+  public readonly disponible!: number;
   public categoria!: string;
   public activo!: boolean;
   public readonly createdAt!: Date;
@@ -68,6 +72,21 @@ Producto.init(
         min: 0,
       },
     },
+    // Units held by pendiente pedidos; they leave stock only when the pedido is confirmado
+    stockReservado: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
+    disponible: {
+      type: DataTypes.VIRTUAL,
+      get(this: Producto): number {
+        return this.getDataValue('stock') - (this.getDataValue('stockReservado') || 0);
+      },
+    },
     categoria: {
       type: DataTypes.STRING(50),
       allowNull: false,
@@ -0,0 +1,109 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { database } from '../database/connection';
+
+export type RefreshTokenRevokeReason = 'logout' | 'rotated' | 'reuse_detected' | 'logout_all';
+
+// RefreshToken attributes interface
+export interface RefreshTokenAttributes {
+  id: number;
+  jti: string;
+  usuarioId: number;
+  familyId: string;
+  userAgent?: string;
+  ipAddress?: string;
+  issuedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: RefreshTokenRevokeReason | null;
+  replacedBy?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// RefreshToken creation attributes (optional id)
+export interface RefreshTokenCreationAttributes extends Optional<RefreshTokenAttributes, 'id' | 'userAgent' | 'ipAddress' | 'revokedAt' | 'revokedReason' | 'replacedBy' | 'createdAt' | 'updatedAt'> {}
+
+// RefreshToken model class
+export class RefreshToken extends Model<RefreshTokenAttributes, RefreshTokenCreationAttributes> implements RefreshTokenAttributes {
+  public id!: number;
+  public jti!: string;
+  public usuarioId!: number;
+  public familyId!: string;
+  public userAgent?: string;
+  public ipAddress?: string;
+  public issuedAt!: Date;
+  public expiresAt!: Date;
+  public revokedAt?: Date | null;
+  public revokedReason?: RefreshTokenRevokeReason | null;
+  public replacedBy?: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// Initialize RefreshToken model
+RefreshToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    jti: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    usuarioId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'usuarios',
+        key: 'id'
+      }
+    },
+    familyId: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    userAgent: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+    },
+    issuedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    revokedReason: {
+      type: DataTypes.ENUM('logout', 'rotated', 'reuse_detected', 'logout_all'),
+      allowNull: true,
+    },
+    replacedBy: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize: database.getSequelize(),
+    tableName: 'refresh_tokens',
+    timestamps: true,
+    indexes: [
+      { fields: ['usuarioId'] },
+      { fields: ['familyId'] }
+    ]
+  }
+);
+
+export default RefreshToken;
@@ -0,0 +1,87 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { database } from '../database/connection';
+
+export type EstadoReserva = 'activa' | 'consumida' | 'liberada';
+
+// ReservaStock attributes interface
+export interface ReservaStockAttributes {
+  id: number;
+  pedidoId: number;
+  productoId: number;
+  cantidad: number;
+  estado: EstadoReserva;
+  expiraEn: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// ReservaStock creation attributes (optional id)
+export interface ReservaStockCreationAttributes extends Optional<ReservaStockAttributes, 'id' | 'estado' | 'createdAt' | 'updatedAt'> {}
+
+// ReservaStock model class
+export class ReservaStock extends Model<ReservaStockAttributes, ReservaStockCreationAttributes> implements ReservaStockAttributes {
+  public id!: number;
+  public pedidoId!: number;
+  public productoId!: number;
+  public cantidad!: number;
+  public estado!: EstadoReserva;
+  public expiraEn!: Date;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// Initialize ReservaStock model
+ReservaStock.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    pedidoId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'pedidos',
+        key: 'id'
+      },
+      onDelete: 'CASCADE'
+    },
+    productoId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'productos',
+        key: 'id'
+      }
+    },
+    cantidad: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 1,
+      },
+    },
+    // activa holds Producto.stockReservado; consumida became a real decrement; liberada was given back
+    estado: {
+      type: DataTypes.ENUM('activa', 'consumida', 'liberada'),
+      allowNull: false,
+      defaultValue: 'activa',
+    },
+    expiraEn: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  },
+  {
+    sequelize: database.getSequelize(),
+    tableName: 'reservas_stock',
+    timestamps: true,
+    indexes: [
+      { fields: ['pedidoId'] },
+      { fields: ['estado', 'expiraEn'] }
+    ]
+  }
+);
+
+export default ReservaStock;
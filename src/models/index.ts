@@ -10,11 +10,12 @@
 │ password        │    │ descripcion     │    │ telefono        │
 │ rol             │    │ precio          │    │ direccion       │
 │ activo          │    │ stock           │    │ documento (UK)  │
-│ createdAt       │    │ categoria       │    │ tipoDocumento   │
-│ updatedAt       │    │ activo          │    │ activo          │
-└─────────────────┘    │ createdAt       │    │ createdAt       │
-                       │ updatedAt       │    │ updatedAt       │
-                       └─────────────────┘    └─────────────────┘
+│ createdAt       │    │ stockReservado  │    │ tipoDocumento   │
+│ updatedAt       │    │ categoria       │    │ activo          │
+└─────────────────┘    │ activo          │    │ createdAt       │
+                       │ createdAt       │    │ updatedAt       │
+                       │ updatedAt       │    └─────────────────┘
+                       └─────────────────┘
                                 │                        │
                                 │                        │
                                 ▼                        ▼
@@ -28,6 +29,9 @@
                        │ total                                  │
                        │ estado                                 │
                        │ observaciones                          │
+                       │ datosCifrados                          │
+                       │ claveId                                │
+                       │ referenciaEnvio                        │
                        │ createdAt                              │
                        │ updatedAt                              │
                        └─────────────────────────────────────────┘
@@ -46,11 +50,73 @@
                        │ updatedAt                              │
                        └─────────────────────────────────────────┘
 
+                       ┌─────────────────────────────────────────┐
+                       │       PEDIDO_ESTADO_HISTORIAL          │
+                       ├─────────────────────────────────────────┤
+                       │ id (PK)                                │
+                       │ pedidoId (FK) -> PEDIDOS.id            │
+                       │ estadoAnterior                         │
+                       │ estadoNuevo                            │
+                       │ usuarioId (FK) -> USUARIOS.id          │
+                       │ motivo                                 │
+                       │ fecha                                  │
+                       └─────────────────────────────────────────┘
+
+                       ┌─────────────────────────────────────────┐
+                       │        MOVIMIENTOS_INVENTARIO          │
+                       ├─────────────────────────────────────────┤
+                       │ id (PK)                                │
+                       │ productoId (FK) -> PRODUCTOS.id         │
+                       │ delta                                  │
+                       │ stockResultante                        │
+                       │ motivo                                 │
+                       │ pedidoId (FK) -> PEDIDOS.id            │
+                       │ usuarioId (FK) -> USUARIOS.id          │
+                       │ fecha                                  │
+                       └─────────────────────────────────────────┘
+
+                       ┌─────────────────────────────────────────┐
+                       │            RESERVAS_STOCK              │
+                       ├─────────────────────────────────────────┤
+                       │ id (PK)                                │
+                       │ pedidoId (FK) -> PEDIDOS.id            │
+                       │ productoId (FK) -> PRODUCTOS.id         │
+                       │ cantidad                               │
+                       │ estado                                 │
+                       │ expiraEn                               │
+                       │ createdAt                              │
+                       │ updatedAt                              │
+                       └─────────────────────────────────────────┘
+
+                       ┌─────────────────────────────────────────┐
+                       │           REFRESH_TOKENS               │
+                       ├─────────────────────────────────────────┤
+                       │ id (PK)                                │
+                       │ jti (UK)                               │
+                       │ usuarioId (FK) -> USUARIOS.id          │
+                       │ familyId                               │
+                       │ userAgent                              │
+                       │ ipAddress                              │
+                       │ issuedAt                               │
+                       │ expiresAt                              │
+                       │ revokedAt                              │
+                       │ revokedReason                          │
+                       │ replacedBy                             │
+                       └─────────────────────────────────────────┘
+
 RELATIONSHIPS:
 - USUARIOS (1) ── (N) PEDIDOS
+- USUARIOS (1) ── (N) REFRESH_TOKENS
 - CLIENTES (1) ── (N) PEDIDOS  
 - PEDIDOS (1) ── (N) DETALLE_PEDIDOS
+- PEDIDOS (1) ── (N) PEDIDO_ESTADO_HISTORIAL
+- USUARIOS (1) ── (N) PEDIDO_ESTADO_HISTORIAL
 - PRODUCTOS (1) ── (N) DETALLE_PEDIDOS
+- PRODUCTOS (1) ── (N) MOVIMIENTOS_INVENTARIO
+- PEDIDOS (1) ── (N) MOVIMIENTOS_INVENTARIO
+- USUARIOS (1) ── (N) MOVIMIENTOS_INVENTARIO
+- PEDIDOS (1) ── (N) RESERVAS_STOCK
+- PRODUCTOS (1) ── (N) RESERVAS_STOCK
 
 CONSTRAINTS:
 - USUARIOS.email must be unique
@@ -58,10 +124,14 @@ CONSTRAINTS:
 - CLIENTES.documento must be unique
 - USUARIOS.rol must be 'admin' or 'vendedor'
 - CLIENTES.tipoDocumento must be 'cedula', 'pasaporte', or 'nit'
-- PRODUCTOS.precio and stock must be >= 0
+- PRODUCTOS.precio, stock and stockReservado must be >= 0
 - PEDIDOS.estado must be 'pendiente', 'confirmado', 'enviado', 'entregado', or 'cancelado'
 - DETALLE_PEDIDOS.cantidad must be >= 1
 - DETALLE_PEDIDOS.precioUnitario and subtotal must be >= 0
+- REFRESH_TOKENS.jti must be unique
+- PEDIDO_ESTADO_HISTORIAL.estadoAnterior is null only for the creation entry
+- MOVIMIENTOS_INVENTARIO is append-only; motivo must be 'venta', 'cancelacion', 'ajuste_manual', or 'recepcion'
+- RESERVAS_STOCK.estado must be 'activa', 'consumida', or 'liberada'; PRODUCTOS.stockReservado is the sum of activa cantidades
 */
 
 // Import all models
@@ -70,6 +140,10 @@ import Producto from './Producto';
 import Cliente from './Cliente';
 import Pedido from './Pedido';
 import DetallePedido from './DetallePedido';
+import RefreshToken from './RefreshToken';
+import PedidoEstadoHistorial from './PedidoEstadoHistorial';
+import MovimientoInventario from './MovimientoInventario';
+import ReservaStock from './ReservaStock';
 
 // Define relationships
 Usuario.hasMany(Pedido, { foreignKey: 'usuarioId', as: 'pedidos' });
@@ -84,15 +158,44 @@ DetallePedido.belongsTo(Pedido, { foreignKey: 'pedidoId', as: 'pedido' });
 Producto.hasMany(DetallePedido, { foreignKey: 'productoId', as: 'detallePedidos' });
 DetallePedido.belongsTo(Producto, { foreignKey: 'productoId', as: 'producto' });
 
+Usuario.hasMany(RefreshToken, { foreignKey: 'usuarioId', as: 'refreshTokens' });
+RefreshToken.belongsTo(Usuario, { foreignKey: 'usuarioId', as: 'usuario' });
+
+Pedido.hasMany(PedidoEstadoHistorial, { foreignKey: 'pedidoId', as: 'historial' });
+PedidoEstadoHistorial.belongsTo(Pedido, { foreignKey: 'pedidoId', as: 'pedido' });
+
+Usuario.hasMany(PedidoEstadoHistorial, { foreignKey: 'usuarioId', as: 'cambiosEstado' });
+PedidoEstadoHistorial.belongsTo(Usuario, { foreignKey: 'usuarioId', as: 'usuario' });
+
+Producto.hasMany(MovimientoInventario, { foreignKey: 'productoId', as: 'movimientos' });
+MovimientoInventario.belongsTo(Producto, { foreignKey: 'productoId', as: 'producto' });
+
+Pedido.hasMany(MovimientoInventario, { foreignKey: 'pedidoId', as: 'movimientos' });
+MovimientoInventario.belongsTo(Pedido, { foreignKey: 'pedidoId', as: 'pedido' });
+
+Usuario.hasMany(MovimientoInventario, { foreignKey: 'usuarioId', as: 'movimientosInventario' });
+MovimientoInventario.belongsTo(Usuario, { foreignKey: 'usuarioId', as: 'usuario' });
+
+Pedido.hasMany(ReservaStock, { foreignKey: 'pedidoId', as: 'reservas' });
+ReservaStock.belongsTo(Pedido, { foreignKey: 'pedidoId', as: 'pedido' });
+
+Producto.hasMany(ReservaStock, { foreignKey: 'productoId', as: 'reservas' });
+ReservaStock.belongsTo(Producto, { foreignKey: 'productoId', as: 'producto' });
+
 export interface DatabaseRelationships {
   // Usuario relationships
   Usuario: {
     pedidos: 'hasMany';
+    refreshTokens: 'hasMany';
+    cambiosEstado: 'hasMany';
+    movimientosInventario: 'hasMany';
   };
   
   // Producto relationships
   Producto: {
     detallePedidos: 'hasMany';
+    movimientos: 'hasMany';
+    reservas: 'hasMany';
   };
   
   // Cliente relationships
@@ -105,6 +208,9 @@ export interface DatabaseRelationships {
     cliente: 'belongsTo';
     usuario: 'belongsTo';
     detalles: 'hasMany';
+    historial: 'hasMany';
+    movimientos: 'hasMany';
+    reservas: 'hasMany';
   };
   
   // DetallePedido relationships
@@ -112,6 +218,30 @@ export interface DatabaseRelationships {
     pedido: 'belongsTo';
     producto: 'belongsTo';
   };
+
+  // RefreshToken relationships
+  RefreshToken: {
+    usuario: 'belongsTo';
+  };
+
+  // PedidoEstadoHistorial relationships
+  PedidoEstadoHistorial: {
+    pedido: 'belongsTo';
+    usuario: 'belongsTo';
+  };
+
+  // MovimientoInventario relationships
+  MovimientoInventario: {
+    producto: 'belongsTo';
+    pedido: 'belongsTo';
+    usuario: 'belongsTo';
+  };
+
+  // ReservaStock relationships
+  ReservaStock: {
+    pedido: 'belongsTo';
+    producto: 'belongsTo';
+  };
 }
 
 // Export all models
@@ -120,5 +250,9 @@ export {
   Producto,
   Cliente,
   Pedido,
-  DetallePedido
+  DetallePedido,
+  RefreshToken,
+  PedidoEstadoHistorial,
+  MovimientoInventario,
+  ReservaStock
 };
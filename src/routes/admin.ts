@@ -0,0 +1,134 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/AdminController';
+import { AuthMiddleware } from '../middlewares/AuthMiddleware';
+
+const router = Router();
+const adminController = new AdminController();
+const authMiddleware = new AuthMiddleware();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RedactedConfig:
+ *       type: object
+ *       description: Running configuration; secrets show "[REDACTED]" when set and null otherwise
+ *       properties:
+ *         port:
+ *           type: number
+ *           example: 3000
+ *         nodeEnv:
+ *           type: string
+ *           enum: [development, test, production]
+ *         database:
+ *           type: object
+ *           properties:
+ *             url:
+ *               type: string
+ *               example: postgresql://postgres:REDACTED@db:5432/sportsline_db
+ *         jwt:
+ *           type: object
+ *           properties:
+ *             secret:
+ *               type: string
+ *               example: "[REDACTED]"
+ *             refreshSecret:
+ *               type: string
+ *               example: "[REDACTED]"
+ *             expiresIn:
+ *               type: string
+ *               example: 1h
+ *             refreshExpiresIn:
+ *               type: string
+ *               example: 7d
+ *         encryption:
+ *           type: object
+ *           properties:
+ *             aesKey:
+ *               type: string
+ *               example: "[REDACTED]"
+ *             keyId:
+ *               type: string
+ *               example: default
+ *             keystorePath:
+ *               type: string
+ *               example: ./keystore/keys.json
+ *             rsaPublicKey:
+ *               type: string
+ *               nullable: true
+ *             rsaPrivateKey:
+ *               type: string
+ *               nullable: true
+ *               example: "[REDACTED]"
+ *         reservations:
+ *           type: object
+ *           properties:
+ *             ttlMinutes:
+ *               type: number
+ *               example: 30
+ *             sweepIntervalSeconds:
+ *               type: number
+ *               example: 60
+ *         logging:
+ *           type: object
+ *         metrics:
+ *           type: object
+ *           properties:
+ *             token:
+ *               type: string
+ *               nullable: true
+ *               example: "[REDACTED]"
+ *         seed:
+ *           type: object
+ *         sources:
+ *           type: object
+ *           properties:
+ *             envFiles:
+ *               type: array
+ *               items:
+ *                 type: string
+ *               example: [".env.production", ".env"]
+ *             defaults:
+ *               type: array
+ *               description: Variables left at their development default (never in production)
+ *               items:
+ *                 type: string
+ *               example: []
+ */
+
+/**
+ * @swagger
+ * /admin/config:
+ *   get:
+ *     summary: Get the running configuration with secrets redacted
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Configuration retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/RedactedConfig'
+ *                 message:
+ *                   type: string
+ *                   example: Configuration retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get('/config',
+  authMiddleware.verifyToken,
+  authMiddleware.requireAdmin,
+  adminController.getConfig
+);
+
+export default router;
@@ -2,6 +2,9 @@ import { Router } from 'express';
 import { AnalyticsController } from '../controllers/AnalyticsController';
 import { AuthMiddleware } from '../middlewares/AuthMiddleware';
 import { ValidationMiddleware } from '../middlewares/ValidationMiddleware';
+import { RateLimitMiddleware } from '../middlewares/RateLimitMiddleware';
+import { RATE_LIMIT_POLICIES } from '../constants';
+import { analyticsSchemas } from '../dto/validationSchemas';
 
 const router = Router();
 const analyticsController = new AnalyticsController();
@@ -74,6 +77,72 @@ const authMiddleware = new AuthMiddleware();
  *             nits:
  *               type: number
  *               example: 20
+ *         pedidos:
+ *           type: object
+ *           properties:
+ *             ventas:
+ *               type: object
+ *               description: Pedidos confirmados, enviados o entregados por periodo
+ *               properties:
+ *                 hoy:
+ *                   $ref: '#/components/schemas/SalesTotals'
+ *                 semana:
+ *                   $ref: '#/components/schemas/SalesTotals'
+ *                 mes:
+ *                   $ref: '#/components/schemas/SalesTotals'
+ *             pendientes:
+ *               type: object
+ *               properties:
+ *                 pedidos:
+ *                   type: number
+ *                   example: 12
+ *                 valor:
+ *                   type: number
+ *                   example: 3450.00
+ *                 masAntiguo:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *             topVendedores:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   usuarioId:
+ *                     type: number
+ *                     example: 2
+ *                   nombre:
+ *                     type: string
+ *                     example: "Ana Vendedora"
+ *                   email:
+ *                     type: string
+ *                     example: "ana@sportsline.com"
+ *                   pedidos:
+ *                     type: number
+ *                     example: 18
+ *                   ventas:
+ *                     type: number
+ *                     example: 5400.00
+ *             topProductos:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   productoId:
+ *                     type: number
+ *                     example: 7
+ *                   codigo:
+ *                     type: string
+ *                     example: "FUT-001"
+ *                   nombre:
+ *                     type: string
+ *                     example: "Balón de Fútbol"
+ *                   unidades:
+ *                     type: number
+ *                     example: 40
+ *                   ventas:
+ *                     type: number
+ *                     example: 3200.00
  *         summary:
  *           type: object
  *           properties:
@@ -92,21 +161,130 @@ const authMiddleware = new AuthMiddleware();
  *             recentClientes:
  *               type: number
  *               example: 5
- *     GlobalSearchResponse:
+ *             pedidosPendientes:
+ *               type: number
+ *               example: 12
+ *             ventasEsteMes:
+ *               type: number
+ *               example: 18250.00
+ *     SalesTotals:
  *       type: object
  *       properties:
- *         usuarios:
+ *         pedidos:
+ *           type: number
+ *           example: 42
+ *         ventas:
+ *           type: number
+ *           example: 18250.00
+ *     SalesPoint:
+ *       type: object
+ *       properties:
+ *         bucket:
+ *           type: string
+ *           description: Start of the bucket in the requested timezone
+ *           example: "2024-01-15"
+ *         pedidos:
+ *           type: number
+ *           example: 4
+ *         ventas:
+ *           type: number
+ *           example: 820.50
+ *     SalesTimeSeries:
+ *       type: object
+ *       properties:
+ *         bucket:
+ *           type: string
+ *           enum: [day, week, month]
+ *         timezone:
+ *           type: string
+ *           example: "America/Bogota"
+ *         from:
+ *           type: string
+ *           format: date-time
+ *         to:
+ *           type: string
+ *           format: date-time
+ *         estados:
  *           type: array
  *           items:
- *             type: object
- *         productos:
+ *             type: string
+ *           example: ["confirmado", "enviado", "entregado"]
+ *         groupBy:
+ *           type: string
+ *           nullable: true
+ *           enum: [categoria, usuario, cliente]
+ *         totals:
+ *           $ref: '#/components/schemas/SalesTotals'
+ *         series:
  *           type: array
  *           items:
- *             type: object
- *         clientes:
+ *             $ref: '#/components/schemas/SalesPoint'
+ *         groups:
  *           type: array
+ *           description: Only with groupBy; sorted by ventas
  *           items:
  *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 example: "Fútbol"
+ *               nombre:
+ *                 type: string
+ *                 example: "Fútbol"
+ *               totals:
+ *                 $ref: '#/components/schemas/SalesTotals'
+ *               series:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/SalesPoint'
+ *     SearchHit:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [usuario, producto, cliente, pedido]
+ *           example: pedido
+ *         id:
+ *           type: number
+ *           example: 42
+ *         path:
+ *           type: string
+ *           example: /api/pedidos/42
+ *         title:
+ *           type: string
+ *           example: "Pedido #42"
+ *         subtitle:
+ *           type: string
+ *           nullable: true
+ *           example: "Juan Pérez · pendiente"
+ *         field:
+ *           type: string
+ *           description: Field the match was found in
+ *           example: cliente
+ *         highlight:
+ *           type: string
+ *           example: "<mark>Juan</mark> Pérez"
+ *         score:
+ *           type: number
+ *           example: 0.72
+ *     GlobalSearchResponse:
+ *       type: object
+ *       properties:
+ *         results:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/SearchHit'
+ *         totals:
+ *           type: object
+ *           properties:
+ *             usuario:
+ *               type: number
+ *             producto:
+ *               type: number
+ *             cliente:
+ *               type: number
+ *             pedido:
+ *               type: number
  *         totalResults:
  *           type: number
  *           example: 15
@@ -236,6 +414,8 @@ const authMiddleware = new AuthMiddleware();
  *                   example: Dashboard statistics retrieved successfully
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
  *       500:
  *         description: Internal server error
  */
@@ -245,11 +425,89 @@ router.get('/dashboard',
   analyticsController.getDashboardStatistics
 );
 
+/**
+ * @swagger
+ * /analytics/sales/timeseries:
+ *   get:
+ *     summary: Get the sales time series
+ *     description: Pedido count and revenue per day, week (starting Monday) or month, aggregated in the database. Every bucket in the range is returned, with zeros when nothing was sold.
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: bucket
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: day
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the range (defaults to 30 days, 12 weeks or 12 months before to)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the range, exclusive (defaults to now)
+ *       - in: query
+ *         name: timezone
+ *         schema:
+ *           type: string
+ *           default: UTC
+ *         description: IANA timezone used to cut the buckets
+ *       - in: query
+ *         name: estado
+ *         schema:
+ *           type: string
+ *           example: confirmado,enviado,entregado
+ *         description: Comma-separated pedido estados (defaults to confirmado, enviado and entregado)
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [categoria, usuario, cliente]
+ *     responses:
+ *       200:
+ *         description: Sales time series retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SalesTimeSeries'
+ *                 message:
+ *                   type: string
+ *                   example: Sales time series retrieved successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/sales/timeseries',
+  authMiddleware.verifyToken,
+  authMiddleware.requireAdmin,
+  ValidationMiddleware.validateQuery(analyticsSchemas.salesTimeSeries),
+  analyticsController.getSalesTimeSeries
+);
+
 /**
  * @swagger
  * /analytics/search:
  *   get:
  *     summary: Perform global search across all entities
+ *     description: Matches usuarios, productos, clientes and pedidos (by id, cliente nombre or documento and observaciones) ignoring accents and case, and merges them into one list ranked by relevance. Vendedores get no usuarios and only their own pedidos.
  *     tags: [Analytics]
  *     security:
  *       - bearerAuth: []
@@ -268,7 +526,7 @@ router.get('/dashboard',
  *           minimum: 1
  *           maximum: 50
  *           default: 10
- *         description: Maximum number of results per entity
+ *         description: Maximum number of results
  *     responses:
  *       200:
  *         description: Global search completed successfully
@@ -289,12 +547,17 @@ router.get('/dashboard',
  *         description: Validation error
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       429:
+ *         description: Search rate limit exceeded (bursts of 30 per user, refilled over a minute; 120 for admins)
  *       500:
  *         description: Internal server error
  */
 router.get('/search',
   authMiddleware.verifyToken,
   authMiddleware.requireAdminOrVendedor,
+  RateLimitMiddleware.limit(RATE_LIMIT_POLICIES.SEARCH),
   ValidationMiddleware.validateSearchTerm,
   analyticsController.globalSearch
 );
@@ -325,12 +588,14 @@ router.get('/search',
  *                   example: Inventory overview retrieved successfully
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
  *       500:
  *         description: Internal server error
  */
 router.get('/inventory',
   authMiddleware.verifyToken,
-  authMiddleware.requireAdminOrVendedor,
+  authMiddleware.requireAdmin,
   analyticsController.getInventoryOverview
 );
 
@@ -360,12 +625,14 @@ router.get('/inventory',
  *                   example: Customer analytics retrieved successfully
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
  *       500:
  *         description: Internal server error
  */
 router.get('/customers',
   authMiddleware.verifyToken,
-  authMiddleware.requireAdminOrVendedor,
+  authMiddleware.requireAdmin,
   analyticsController.getCustomerAnalytics
 );
 
@@ -373,7 +640,8 @@ router.get('/customers',
  * @swagger
  * /analytics/health:
  *   get:
- *     summary: Get system health status
+ *     summary: Get business health status
+ *     description: Business rule violations and data alerts such as low stock. Service health is reported by /health/ready.
  *     tags: [Analytics]
  *     security:
  *       - bearerAuth: []
@@ -395,6 +663,8 @@ router.get('/customers',
  *                   example: System health status retrieved successfully
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
  *       500:
  *         description: Internal server error
  */
@@ -417,6 +687,8 @@ router.get('/health',
  *         description: Entity relationships retrieved successfully
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
  *       500:
  *         description: Internal server error
  */
@@ -439,6 +711,8 @@ router.get('/relationships',
  *         description: Business rules validation completed
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
  *       500:
  *         description: Internal server error
  */
@@ -1,8 +1,12 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/AuthController';
+import { AuthMiddleware } from '../middlewares/AuthMiddleware';
+import { RateLimitMiddleware } from '../middlewares/RateLimitMiddleware';
+import { RATE_LIMIT_POLICIES } from '../constants';
 
 const router = Router();
 const authController = new AuthController();
+const authMiddleware = new AuthMiddleware();
 
 /**
  * @swagger
@@ -103,10 +107,12 @@ const authController = new AuthController();
  *         description: Validation error
  *       409:
  *         description: User already exists
+ *       429:
+ *         description: Too many registrations from this IP (5 per hour)
  *       500:
  *         description: Internal server error
  */
-router.post('/register', authController.register);
+router.post('/register', RateLimitMiddleware.limit(RATE_LIMIT_POLICIES.REGISTER), authController.register);
 
 /**
  * @swagger
@@ -131,10 +137,12 @@ router.post('/register', authController.register);
  *         description: Validation error
  *       401:
  *         description: Invalid credentials
+ *       429:
+ *         description: Too many login attempts from this IP (10 per 15 minutes)
  *       500:
  *         description: Internal server error
  */
-router.post('/login', authController.login);
+router.post('/login', RateLimitMiddleware.limit(RATE_LIMIT_POLICIES.LOGIN), authController.login);
 
 /**
  * @swagger
@@ -190,4 +198,37 @@ router.get('/profile', authController.getProfile);
  */
 router.put('/profile', authController.updateProfile);
 
+/**
+ * @swagger
+ * /auth/logout-all:
+ *   post:
+ *     summary: Log out every session of a user
+ *     description: Revokes all refresh tokens and every access token issued so far. Admins may target another user with usuarioId.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               usuarioId:
+ *                 type: number
+ *                 example: 2
+ *     responses:
+ *       200:
+ *         description: All sessions logged out successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required to target another user
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/logout-all', authMiddleware.verifyToken, authController.logoutAll);
+
 export default router;
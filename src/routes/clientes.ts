@@ -176,6 +176,34 @@ const authMiddleware = new AuthMiddleware();
  *           maximum: 100
  *           default: 10
  *         description: Items per page
+ *       - in: query
+ *         name: pagination
+ *         schema:
+ *           type: string
+ *           enum: [cursor]
+ *         description: Use cursor pagination (no total count); the response carries nextCursor and prevCursor
+ *       - in: query
+ *         name: after
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from a previous nextCursor; implies cursor pagination
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from a previous prevCursor; implies cursor pagination
+ *       - in: query
+ *         name: filter
+ *         style: deepObject
+ *         explode: true
+ *         schema:
+ *           type: object
+ *         description: "filter[field][operator]=value, e.g. filter[tipoDocumento][in]=cedula,nit. Fields: nombre, email, documento, tipoDocumento, activo, createdAt. Operators: eq, ne, gt, gte, lt, lte, in, nin, like"
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *         description: "Comma separated fields, prefixed with - for descending. Fields: nombre, email, documento, tipoDocumento, createdAt, updatedAt"
  *     responses:
  *       200:
  *         description: Clientes retrieved successfully
@@ -54,6 +54,7 @@ const authMiddleware = new AuthMiddleware();
  * /pedidos-encryption/{id}/encrypt:
  *   post:
  *     summary: Encrypt pedido data
+ *     description: The encrypted copy is also stored on the pedido and re-encrypted on key rotation
  *     tags: [Pedidos Encryption]
  *     security:
  *       - bearerAuth: []
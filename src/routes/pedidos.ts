@@ -113,6 +113,16 @@ const authMiddleware = new AuthMiddleware();
  *           type: string
  *           enum: [pendiente, confirmado, enviado, entregado, cancelado]
  *           example: confirmado
+ *         motivo:
+ *           type: string
+ *           maxLength: 500
+ *           description: Reason recorded in the pedido historial
+ *           example: "Pago verificado"
+ *         referenciaEnvio:
+ *           type: string
+ *           maxLength: 100
+ *           description: Carrier tracking reference, required when moving to enviado unless already stored
+ *           example: "SERV-123456789"
  *     PedidoListResponse:
  *       type: object
  *       properties:
@@ -249,6 +259,46 @@ router.post('/',
  *           maximum: 100
  *           default: 10
  *         description: Items per page
+ *       - in: query
+ *         name: pagination
+ *         schema:
+ *           type: string
+ *           enum: [cursor]
+ *         description: Use cursor pagination (no total count); the response carries nextCursor and prevCursor
+ *       - in: query
+ *         name: after
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from a previous nextCursor; implies cursor pagination
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from a previous prevCursor; implies cursor pagination
+ *       - in: query
+ *         name: filter
+ *         style: deepObject
+ *         explode: true
+ *         schema:
+ *           type: object
+ *         description: "filter[field][operator]=value, e.g. filter[total][gte]=100. Fields: clienteId, usuarioId, estado, fecha, total, createdAt. Operators: eq, ne, gt, gte, lt, lte, in, nin, like"
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *         description: "Comma separated fields, prefixed with - for descending. Fields: fecha, total, estado, createdAt, updatedAt"
+ *       - in: query
+ *         name: include
+ *         schema:
+ *           type: string
+ *           example: detalles.producto,cliente,usuario
+ *         description: Comma-separated associations to eager-load (detalles, detalles.producto, cliente, usuario). Defaults to detalles
+ *       - in: query
+ *         name: fields
+ *         schema:
+ *           type: string
+ *           example: id,fecha,total,estado
+ *         description: Comma-separated pedido columns to return; id is always included
  *     responses:
  *       200:
  *         description: Pedidos retrieved successfully
@@ -343,9 +393,60 @@ router.get('/:id',
  *         description: Unauthorized
  *       404:
  *         description: Pedido not found
+ *       409:
+ *         description: Invalid estado transition; the response lists the allowed next estados
  *       500:
  *         description: Internal server error
  */
+/**
+ * @swagger
+ * /pedidos/estado:
+ *   put:
+ *     summary: Move several pedidos to the same estado
+ *     description: Each pedido goes through the order state machine in its own transaction. Pedidos that cannot make the transition are reported in `failed` without blocking the rest.
+ *     tags: [Pedidos]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ids
+ *               - estado
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items:
+ *                   type: number
+ *                 example: [1, 2, 3]
+ *               estado:
+ *                 type: string
+ *                 enum: [pendiente, confirmado, enviado, entregado, cancelado]
+ *                 example: confirmado
+ *               motivo:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Updated ids and the failures with their status and allowed next estados
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/estado',
+  authMiddleware.verifyToken,
+  authMiddleware.requireAdminOrVendedor,
+  ValidationMiddleware.validateBody(orderSchemas.bulkEstado),
+  pedidoController.updatePedidosEstado
+);
+
 router.put('/:id/estado',
   authMiddleware.verifyToken,
   authMiddleware.requireAdminOrVendedor,
@@ -493,15 +594,26 @@ router.get('/statistics',
  *         schema:
  *           type: number
  *         description: Pedido ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               motivo:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Cliente desistió de la compra"
  *     responses:
  *       200:
  *         description: Pedido cancelled and stock restored successfully
- *       400:
- *         description: Pedido cannot be cancelled
  *       401:
  *         description: Unauthorized
  *       404:
  *         description: Pedido not found
+ *       409:
+ *         description: Pedido cannot be cancelled from its current estado
  *       500:
  *         description: Internal server error
  */
@@ -509,9 +621,194 @@ router.put('/:id/cancel',
   authMiddleware.verifyToken,
   authMiddleware.requireAdminOrVendedor,
   ValidationMiddleware.validateParams(orderSchemas.params),
+  ValidationMiddleware.validateBody(orderSchemas.cancel),
   pedidoController.cancelPedido
 );
 
+/**
+ * @swagger
+ * /pedidos/{id}/historial:
+ *   get:
+ *     summary: Get the estado timeline of a pedido
+ *     description: Every estado transition in chronological order, with the previous and new estado, the usuario who made it, when, and the optional motivo.
+ *     tags: [Pedidos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: Pedido ID
+ *     responses:
+ *       200:
+ *         description: Pedido historial retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Pedido not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/historial',
+  authMiddleware.verifyToken,
+  authMiddleware.requireAdminOrVendedor,
+  ValidationMiddleware.validateParams(orderSchemas.params),
+  pedidoController.getPedidoHistorial
+);
+
+/**
+ * @swagger
+ * /pedidos/{id}/detalles:
+ *   put:
+ *     summary: Replace the lines of a pendiente pedido
+ *     description: Only the stock difference against the current lines is reserved or returned. Existing lines keep their unit price; new lines use the current producto price.
+ *     tags: [Pedidos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: Pedido ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - productos
+ *             properties:
+ *               productos:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     productoId:
+ *                       type: number
+ *                       example: 1
+ *                     cantidad:
+ *                       type: number
+ *                       example: 3
+ *     responses:
+ *       200:
+ *         description: Pedido detalles updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Pedido or producto not found
+ *       409:
+ *         description: Pedido is no longer pendiente or stock is insufficient
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     summary: Add a producto line to a pendiente pedido
+ *     description: If the producto is already in the pedido its cantidad is increased
+ *     tags: [Pedidos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: Pedido ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - productoId
+ *               - cantidad
+ *             properties:
+ *               productoId:
+ *                 type: number
+ *                 example: 2
+ *               cantidad:
+ *                 type: number
+ *                 example: 1
+ *     responses:
+ *       200:
+ *         description: Pedido detalle added successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Pedido or producto not found
+ *       409:
+ *         description: Pedido is no longer pendiente or stock is insufficient
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:id/detalles',
+  authMiddleware.verifyToken,
+  authMiddleware.requireAdminOrVendedor,
+  ValidationMiddleware.validateParams(orderSchemas.params),
+  ValidationMiddleware.validateBody(orderSchemas.detalles),
+  pedidoController.updateDetalles
+);
+
+router.post('/:id/detalles',
+  authMiddleware.verifyToken,
+  authMiddleware.requireAdminOrVendedor,
+  ValidationMiddleware.validateParams(orderSchemas.params),
+  ValidationMiddleware.validateBody(orderSchemas.detalle),
+  pedidoController.addDetalle
+);
+
+/**
+ * @swagger
+ * /pedidos/{id}/detalles/{productoId}:
+ *   delete:
+ *     summary: Remove a producto line from a pendiente pedido
+ *     description: The removed cantidad is returned to stock. The last line cannot be removed; cancel the pedido instead.
+ *     tags: [Pedidos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: Pedido ID
+ *       - in: path
+ *         name: productoId
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: Producto ID
+ *     responses:
+ *       200:
+ *         description: Pedido detalle removed successfully
+ *       400:
+ *         description: The last line cannot be removed
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Pedido or line not found
+ *       409:
+ *         description: Pedido is no longer pendiente
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:id/detalles/:productoId',
+  authMiddleware.verifyToken,
+  authMiddleware.requireAdminOrVendedor,
+  ValidationMiddleware.validateParams(orderSchemas.detalleParams),
+  pedidoController.removeDetalle
+);
+
 /**
  * @swagger
  * /pedidos/estado/{estado}:
@@ -677,9 +974,23 @@ router.get('/summary',
  *           maximum: 100
  *           default: 10
  *         description: Items per page
+ *       - in: query
+ *         name: filter
+ *         style: deepObject
+ *         explode: true
+ *         schema:
+ *           type: object
+ *         description: "filter[field][operator]=value, e.g. filter[total][gte]=100. Fields: clienteId, usuarioId, estado, fecha, total, createdAt. Operators: eq, ne, gt, gte, lt, lte, in, nin, like"
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *         description: "Comma separated fields, prefixed with - for descending. Fields: fecha, total, estado, createdAt, updatedAt"
  *     responses:
  *       200:
  *         description: Pedidos with advanced filters retrieved successfully
+ *       400:
+ *         description: Filter or sort not allowed
  *       401:
  *         description: Unauthorized
  *       500:
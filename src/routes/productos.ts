@@ -34,6 +34,14 @@ const authMiddleware = new AuthMiddleware();
  *         stock:
  *           type: number
  *           example: 50
+ *         stockReservado:
+ *           type: number
+ *           description: Units held by pendiente pedidos
+ *           example: 5
+ *         disponible:
+ *           type: number
+ *           description: stock - stockReservado
+ *           example: 45
  *         categoria:
  *           type: string
  *           example: Fútbol
@@ -115,6 +123,11 @@ const authMiddleware = new AuthMiddleware();
  *           type: string
  *           enum: [add, subtract, set]
  *           example: add
+ *         motivo:
+ *           type: string
+ *           enum: [ajuste_manual, recepcion]
+ *           description: Reason recorded in the kardex (default ajuste_manual)
+ *           example: recepcion
  *     ProductoListResponse:
  *       type: object
  *       properties:
@@ -170,7 +183,7 @@ const authMiddleware = new AuthMiddleware();
  *       - in: query
  *         name: search
  *         schema:
- *           type: string
+ *         description: Full-text search over nombre, codigo, categoria and descripcion (accent-insensitive)
  *         description: Search by name, code, or description
  *       - in: query
  *         name: minPrecio
@@ -199,6 +212,34 @@ const authMiddleware = new AuthMiddleware();
  *           maximum: 100
  *           default: 10
  *         description: Items per page
+ *       - in: query
+ *         name: pagination
+ *         schema:
+ *           type: string
+ *           enum: [cursor]
+ *         description: Use cursor pagination (no total count); the response carries nextCursor and prevCursor
+ *       - in: query
+ *         name: after
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from a previous nextCursor; implies cursor pagination
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from a previous prevCursor; implies cursor pagination
+ *       - in: query
+ *         name: filter
+ *         style: deepObject
+ *         explode: true
+ *         schema:
+ *           type: object
+ *         description: "filter[field][operator]=value, e.g. filter[precio][lte]=50000. Fields: codigo, nombre, categoria, precio, stock, stockReservado, activo, createdAt. Operators: eq, ne, gt, gte, lt, lte, in, nin, like"
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *         description: "Comma separated fields, prefixed with - for descending. Fields: codigo, nombre, categoria, precio, stock, createdAt, updatedAt"
  *     responses:
  *       200:
  *         description: Productos retrieved successfully
@@ -388,7 +429,7 @@ router.post('/',
  *       404:
  *         description: Producto not found
  *       409:
- *         description: Product code already exists
+ *         description: Product code already exists, or stock below the units reserved by pendiente pedidos
  *       500:
  *         description: Internal server error
  */
@@ -464,6 +505,8 @@ router.delete('/:id',
  *         description: Unauthorized
  *       404:
  *         description: Producto not found
+ *       409:
+ *         description: Stock set below the units reserved by pendiente pedidos
  *       500:
  *         description: Internal server error
  */
@@ -474,6 +517,49 @@ router.put('/:id/stock',
   productoController.updateStock
 );
 
+/**
+ * @swagger
+ * /productos/{id}/movimientos:
+ *   get:
+ *     summary: Get the stock movements (kardex) of a producto
+ *     description: Newest first. `saldoMovimientos` is the sum of every recorded delta and `diferencia` is the current stock minus that sum, which is 0 when the kardex reconciles.
+ *     tags: [Productos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: number
+ *         description: Producto ID
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: number
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Stock movements retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Producto not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:id/movimientos',
+  authMiddleware.verifyToken,
+  authMiddleware.requireAdminOrVendedor,
+  ValidationMiddleware.validateParams(productSchemas.params),
+  productoController.getMovimientos
+);
+
 /**
  * @swagger
  * /productos/categoria/{categoria}:
@@ -522,7 +608,8 @@ router.get('/categoria/:categoria',
  * @swagger
  * /productos/search:
  *   get:
- *     summary: Search productos
+ *     summary: Full-text search of active productos, ranked by relevance
+ *     description: Matches nombre, codigo, categoria and descripcion ignoring accents and case, with Spanish stemming. The last word is prefix-matched, so partial input works for typeahead. Matches are wrapped in <mark> in the highlight fields.
  *     tags: [Productos]
  *     security:
  *       - bearerAuth: []
@@ -533,10 +620,70 @@ router.get('/categoria/:categoria',
  *         schema:
  *           type: string
  *           minLength: 2
+ *           maxLength: 100
  *         description: Search term
+ *       - in: query
+ *         name: categoria
+ *         schema:
+ *           type: string
+ *         description: Restrict results to one categoria
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 20
+ *         description: Items per page
  *     responses:
  *       200:
  *         description: Search completed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     productos:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/Producto'
+ *                           - type: object
+ *                             properties:
+ *                               rank:
+ *                                 type: number
+ *                                 example: 0.6
+ *                               highlight:
+ *                                 type: object
+ *                                 properties:
+ *                                   nombre:
+ *                                     type: string
+ *                                     example: <mark>Balón</mark> de fútbol
+ *                                   descripcion:
+ *                                     type: string
+ *                                     nullable: true
+ *                     total:
+ *                       type: number
+ *                     page:
+ *                       type: number
+ *                     limit:
+ *                       type: number
+ *                     searchTerm:
+ *                       type: string
  *       400:
  *         description: Validation error
  *       401:
@@ -547,6 +694,7 @@ router.get('/categoria/:categoria',
 router.get('/search',
   authMiddleware.verifyToken,
   authMiddleware.requireAdminOrVendedor,
+  ValidationMiddleware.validateQuery(productSchemas.search),
   productoController.searchProductos
 );
 
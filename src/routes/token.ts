@@ -28,6 +28,10 @@ const tokenController = new TokenController();
  *             accessToken:
  *               type: string
  *               example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *             refreshToken:
+ *               type: string
+ *               description: Rotated refresh token; the one sent in the request is no longer valid
+ *               example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
  *         message:
  *           type: string
  *           example: Access token refreshed successfully
@@ -65,6 +69,7 @@ const tokenController = new TokenController();
  * /auth/refresh:
  *   post:
  *     summary: Refresh access token
+ *     description: Rotates the refresh token. Reusing an already rotated refresh token revokes every token of that session.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -93,6 +98,7 @@ router.post('/refresh', tokenController.refreshToken);
  * /auth/revoke:
  *   post:
  *     summary: Revoke refresh token (logout)
+ *     description: Revokes the refresh token and every token rotated from the same login, logging that device out.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -105,6 +111,8 @@ router.post('/refresh', tokenController.refreshToken);
  *         description: Token revoked successfully
  *       400:
  *         description: Validation error
+ *       401:
+ *         description: Invalid refresh token
  *       500:
  *         description: Internal server error
  */
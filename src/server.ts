@@ -0,0 +1,186 @@
+import http from 'http';
+import { createApp } from './app';
+import { config } from './config';
+import { database } from './database/connection';
+import { Migrator } from './database/migrator';
+import { healthService } from './services/HealthService';
+import { keyManager } from './services/KeyManager';
+import { reservationScheduler } from './services/ReservationScheduler';
+import { Logger } from './utils/helpers';
+
+/**
+ * A step that must succeed, in order, before the server accepts connections
+ */
+export interface StartupHook {
+  name: string;
+  run(): Promise<void> | void;
+}
+
+export interface ServerOptions {
+  // Anything http.createServer accepts; createApp() by default
+  app?: http.RequestListener;
+  port?: number;
+  hooks?: StartupHook[];
+  // How long in-flight requests get to finish before their connections are closed
+  shutdownTimeoutMs?: number;
+  // Shut down and exit on SIGTERM and SIGINT
+  handleSignals?: boolean;
+}
+
+export interface RunningServer {
+  server: http.Server;
+  shutdown(reason?: string): Promise<void>;
+}
+
+/**
+ * Report where the configuration came from
+ * It was validated when ./config was first imported: an invalid environment never gets here.
+ */
+function reportConfig(): void {
+  if (config.sources.envFiles.length > 0) {
+    Logger.info(`Configuration loaded from: ${config.sources.envFiles.join(', ')}`);
+  }
+  if (config.sources.defaults.length > 0 && config.nodeEnv !== 'test') {
+    Logger.warn(`Using development defaults for: ${config.sources.defaults.join(', ')}`);
+  }
+}
+
+/**
+ * Refuse to serve a production schema that is behind the code
+ */
+async function checkMigrations(): Promise<void> {
+  const pending = await new Migrator(database.getSequelize()).pending();
+
+  if (pending.length === 0) {
+    return;
+  }
+
+  const message = `${pending.length} pending migration(s): ${pending.join(', ')}. Run "npm run migrate"`;
+  if (config.nodeEnv === 'production') {
+    throw new Error(message);
+  }
+  Logger.warn(message);
+}
+
+/**
+ * Load the keystore now rather than on the first encrypted request
+ */
+function loadKeys(): void {
+  keyManager.getActiveKey('A256GCM');
+}
+
+export const startupHooks: StartupHook[] = [
+  { name: 'config', run: reportConfig },
+  { name: 'database', run: () => database.connect() },
+  { name: 'migrations', run: checkMigrations },
+  { name: 'keys', run: loadKeys }
+];
+
+/**
+ * Run the startup hooks, then listen
+ * The returned shutdown() stops accepting connections, marks the instance not ready,
+ * lets requests in flight finish up to the deadline, then closes the database pool.
+ */
+export async function startServer(options: ServerOptions = {}): Promise<RunningServer> {
+  const {
+    app = createApp(),
+    port = config.port,
+    hooks = startupHooks,
+    shutdownTimeoutMs = config.shutdown.timeoutMs,
+    handleSignals = false
+  } = options;
+
+  for (const hook of hooks) {
+    try {
+      await hook.run();
+    } catch (error) {
+      Logger.error(`Startup hook "${hook.name}" failed:`, error);
+      throw error;
+    }
+  }
+
+  const server = http.createServer();
+  const inFlight = new Set<http.ServerResponse>();
+  let draining = false;
+
+  // Registered before the app so every request is tracked before it is handled
+  server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+    if (draining) {
+      res.setHeader('Connection', 'close');
+    }
+    inFlight.add(res);
+    res.on('close', () => inFlight.delete(res));
+  });
+  server.on('request', app);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address();
+  Logger.info(`Server running on port ${typeof address === 'object' && address ? address.port : port}`);
+  reservationScheduler.start();
+
+  const drainAndClose = async (reason: string): Promise<void> => {
+    draining = true;
+    Logger.info(`Shutting down (${reason}), ${inFlight.size} request(s) in flight`);
+
+    healthService.markShuttingDown();
+    reservationScheduler.stop();
+
+    // Keep-alive clients must not send another request on a connection about to close
+    for (const res of inFlight) {
+      if (!res.headersSent) {
+        res.setHeader('Connection', 'close');
+      }
+    }
+
+    const closed = new Promise<void>(resolve => server.close(() => resolve()));
+    server.closeIdleConnections();
+
+    let timer: NodeJS.Timeout | undefined;
+    const drained = await Promise.race([
+      closed.then(() => true),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), shutdownTimeoutMs);
+      })
+    ]);
+    clearTimeout(timer);
+
+    if (!drained) {
+      Logger.warn(`Shutdown deadline of ${shutdownTimeoutMs}ms reached, closing ${inFlight.size} request(s) still in flight`);
+      server.closeAllConnections();
+      await closed;
+    }
+
+    await database.disconnect();
+    Logger.info('Shutdown complete');
+  };
+
+  let shuttingDown: Promise<void> | null = null;
+  const shutdown = (reason: string = 'shutdown'): Promise<void> => {
+    shuttingDown = shuttingDown || drainAndClose(reason);
+    return shuttingDown;
+  };
+
+  if (handleSignals) {
+    // once: a second signal falls back to the default handler and kills the process
+    for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+      process.once(signal, () => {
+        shutdown(signal).then(
+          () => process.exit(0),
+          (error) => {
+            Logger.error('Error during shutdown:', error);
+            process.exit(1);
+          }
+        );
+      });
+    }
+  }
+
+  return { server, shutdown };
+}
@@ -1,8 +1,13 @@
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { Transaction } from 'sequelize';
 import { Usuario } from '../models/Usuario';
+import { RefreshTokenDAO } from '../dao/RefreshTokenDAO';
 import { Logger } from '../utils/helpers';
+import { loginAttemptsTotal } from '../utils/metrics';
 import { LoginDTO, RegisterDTO } from '../dto/AuthDTO';
 import { TokenService } from './TokenService';
+import { tokenDenylist } from './TokenDenylist';
 
 export interface LoginResult {
   user: {
@@ -16,7 +21,18 @@ export interface LoginResult {
   refreshToken: string;
 }
 
+export interface TokenContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
 export class AuthService {
+  private refreshTokenDAO: RefreshTokenDAO;
+
+  constructor() {
+    this.refreshTokenDAO = new RefreshTokenDAO();
+  }
+
   /**
    * Register a new user
    */
@@ -45,7 +61,7 @@ export class AuthService {
   /**
    * Login user and return tokens
    */
-  async login(loginData: LoginDTO): Promise<LoginResult | null> {
+  async login(loginData: LoginDTO, context: TokenContext = {}): Promise<LoginResult | null> {
     try {
       // Find user by email
       const user = await Usuario.findOne({ 
@@ -57,6 +73,7 @@ export class AuthService {
 
       if (!user) {
         Logger.warn(`Login attempt with non-existent email: ${loginData.email}`);
+        loginAttemptsTotal.inc({ result: 'unknown_email' });
         return null;
       }
 
@@ -65,17 +82,15 @@ export class AuthService {
       
       if (!isPasswordValid) {
         Logger.warn(`Invalid password attempt for user: ${user.email}`);
+        loginAttemptsTotal.inc({ result: 'invalid_password' });
         return null;
       }
 
       // Generate tokens
-      const { accessToken, refreshToken } = TokenService.generateTokenPair({
-        id: user.id,
-        email: user.email,
-        rol: user.rol
-      });
+      const { accessToken, refreshToken } = await this.issueTokens(user, context);
 
       Logger.info(`User logged in successfully: ${user.email}`);
+      loginAttemptsTotal.inc({ result: 'success' });
 
       return {
         user: {
@@ -109,13 +124,30 @@ export class AuthService {
 
   /**
    * Refresh access token using refresh token
+   * Every refresh rotates the refresh token; presenting an already rotated
+   * token is treated as theft and revokes the whole token family
    */
-  async refreshAccessToken(refreshToken: string): Promise<{ accessToken: string } | null> {
+  async refreshAccessToken(refreshToken: string, context: TokenContext = {}): Promise<{ accessToken: string; refreshToken: string } | null> {
     try {
-      const decoded = await this.verifyToken(refreshToken);
-      
-      if (decoded.type !== 'refresh') {
-        throw new Error('Invalid token type');
+      const decoded = TokenService.verifyRefreshToken(refreshToken);
+
+      const stored = await this.refreshTokenDAO.findByJti(decoded.jti!);
+
+      if (!stored || stored.usuarioId !== decoded.id) {
+        Logger.warn(`Unknown refresh token presented for user: ${decoded.id}`);
+        return null;
+      }
+
+      if (stored.revokedAt) {
+        if (stored.revokedReason === 'rotated') {
+          Logger.warn(`Refresh token reuse detected for user: ${stored.usuarioId}`);
+          await this.refreshTokenDAO.revokeFamily(stored.familyId, 'reuse_detected');
+        }
+        return null;
+      }
+
+      if (stored.expiresAt <= new Date()) {
+        return null;
       }
 
       const user = await Usuario.findByPk(decoded.id);
@@ -124,21 +156,85 @@ export class AuthService {
         return null;
       }
 
-      const newAccessToken = TokenService.generateAccessToken({
-        id: user.id,
-        email: user.email,
-        rol: user.rol
+      const newJti = crypto.randomUUID();
+
+      // The old token is only consumed if its replacement is stored too
+      const tokens = await this.refreshTokenDAO.withTransaction(async (transaction) => {
+        // Losing this race means another request already rotated the same token
+        const rotated = await this.refreshTokenDAO.markRotated(stored.jti, newJti, { transaction });
+        if (!rotated) {
+          return null;
+        }
+
+        return this.issueTokens(user, context, { family: stored.familyId, jti: newJti, transaction });
       });
+
+      if (!tokens) {
+        Logger.warn(`Concurrent refresh token reuse detected for user: ${stored.usuarioId}`);
+        await this.refreshTokenDAO.revokeFamily(stored.familyId, 'reuse_detected');
+        return null;
+      }
       
       Logger.info(`Access token refreshed for user: ${user.email}`);
       
-      return { accessToken: newAccessToken };
+      return tokens;
     } catch (error) {
       Logger.error('Error refreshing access token:', error);
       return null;
     }
   }
 
+  /**
+   * Revoke a refresh token and every token rotated from the same login
+   * Only a token still live in the refresh_tokens table can log its family out.
+   */
+  async revokeRefreshToken(refreshToken: string): Promise<boolean> {
+    let decoded;
+
+    try {
+      decoded = TokenService.verifyRefreshToken(refreshToken);
+    } catch (error) {
+      return false;
+    }
+
+    try {
+      const stored = await this.refreshTokenDAO.findByJti(decoded.jti!);
+
+      if (!stored || stored.usuarioId !== decoded.id || stored.familyId !== decoded.family) {
+        Logger.warn(`Unknown refresh token presented for logout by user: ${decoded.id}`);
+        return false;
+      }
+
+      if (stored.revokedAt || stored.expiresAt <= new Date()) {
+        return false;
+      }
+
+      await this.refreshTokenDAO.revokeFamily(stored.familyId, 'logout');
+      Logger.info(`Refresh token revoked for user: ${decoded.id}`);
+      return true;
+    } catch (error) {
+      Logger.error('Error revoking refresh token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invalidate every session of a user
+   * Revokes all refresh tokens and denylists every access token issued so far
+   */
+  async logoutAll(usuarioId: number): Promise<number> {
+    try {
+      const revoked = await this.refreshTokenDAO.revokeAllForUsuario(usuarioId, 'logout_all');
+      await tokenDenylist.revokeAllForUser(usuarioId);
+
+      Logger.info(`All sessions invalidated for user: ${usuarioId}`);
+      return revoked;
+    } catch (error) {
+      Logger.error('Error invalidating user sessions:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get user by ID
    */
@@ -168,6 +264,10 @@ export class AuthService {
       }
 
       await user.update(updateData);
+
+      if (updateData.password || updateData.activo === false) {
+        await this.logoutAll(user.id);
+      }
       
       Logger.info(`User updated: ${user.email}`);
       return user;
@@ -200,6 +300,7 @@ export class AuthService {
       
       // Update password
       await user.update({ password: hashedNewPassword });
+      await this.logoutAll(user.id);
       
       Logger.info(`Password changed for user: ${user.email}`);
       return true;
@@ -275,13 +376,9 @@ export class AuthService {
   /**
    * Generate tokens for user
    */
-  async generateTokens(user: Usuario): Promise<{ accessToken: string; refreshToken: string; expiresIn: number }> {
+  async generateTokens(user: Usuario, context: TokenContext = {}): Promise<{ accessToken: string; refreshToken: string; expiresIn: number }> {
     try {
-      const { accessToken, refreshToken } = TokenService.generateTokenPair({
-        id: user.id,
-        email: user.email,
-        rol: user.rol
-      });
+      const { accessToken, refreshToken } = await this.issueTokens(user, context);
 
       return {
         accessToken,
@@ -293,4 +390,39 @@ export class AuthService {
       throw error;
     }
   }
+
+  /**
+   * Sign a token pair and persist the refresh token
+   */
+  private async issueTokens(
+    user: Usuario,
+    context: TokenContext,
+    options: { family?: string; jti?: string; transaction?: Transaction } = {}
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const jti = options.jti || crypto.randomUUID();
+    const family = options.family || crypto.randomUUID();
+
+    const tokens = TokenService.generateTokenPair({
+      id: user.id,
+      email: user.email,
+      rol: user.rol
+    }, { jti, family });
+
+    const expiresAt = TokenService.getTokenExpiration(tokens.refreshToken);
+    if (!expiresAt) {
+      throw new Error('Unable to determine refresh token expiration');
+    }
+
+    await this.refreshTokenDAO.create({
+      jti,
+      usuarioId: user.id,
+      familyId: family,
+      userAgent: context.userAgent?.substring(0, 255),
+      ipAddress: context.ipAddress,
+      issuedAt: new Date(),
+      expiresAt
+    }, { transaction: options.transaction });
+
+    return tokens;
+  }
 }
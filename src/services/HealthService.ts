@@ -0,0 +1,210 @@
+import { monitorEventLoopDelay } from 'perf_hooks';
+import { Sequelize } from 'sequelize';
+import { config } from '../config';
+import { database } from '../database/connection';
+import { Migrator } from '../database/migrator';
+import { Logger } from '../utils/helpers';
+import { HybridEncryptionService } from './HybridEncryptionService';
+
+/**
+ * A dependency the API needs to serve traffic
+ * run() throws when the dependency is unusable; what it returns is reported as details.
+ */
+export interface HealthCheck {
+  name: string;
+  run(): Promise<Record<string, unknown> | void>;
+}
+
+export interface HealthCheckResult {
+  status: 'pass' | 'fail';
+  durationMs: number;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'not_ready';
+  timestamp: string;
+  checks: Record<string, HealthCheckResult>;
+}
+
+export interface LivenessReport {
+  status: 'alive';
+  timestamp: string;
+  uptimeSeconds: number;
+}
+
+/**
+ * The database answers a round trip
+ */
+export function databaseCheck(sequelize: () => Sequelize): HealthCheck {
+  return {
+    name: 'database',
+    run: async () => {
+      await sequelize().authenticate({ logging: false });
+    }
+  };
+}
+
+/**
+ * Every migration on disk has been applied
+ * Once up to date the answer is kept: new migrations only arrive with a new deploy.
+ */
+export function migrationsCheck(sequelize: () => Sequelize): HealthCheck {
+  let upToDate = false;
+
+  return {
+    name: 'migrations',
+    run: async () => {
+      if (upToDate) {
+        return { pending: 0 };
+      }
+
+      const pending = await new Migrator(sequelize()).pending();
+      if (pending.length > 0) {
+        throw new Error(`${pending.length} pending migration(s): ${pending.join(', ')}`);
+      }
+
+      upToDate = true;
+      return { pending: 0 };
+    }
+  };
+}
+
+/**
+ * The active data key is loaded and round-trips a value
+ */
+export function encryptionCheck(encryptionService: HybridEncryptionService = new HybridEncryptionService()): HealthCheck {
+  return {
+    name: 'encryption',
+    run: async () => {
+      const probe = 'health-check';
+      const envelope = await encryptionService.encrypt(probe);
+
+      if (await encryptionService.decrypt(envelope) !== probe) {
+        throw new Error('Data key failed to round-trip a value');
+      }
+
+      return { keyId: JSON.parse(envelope).kid };
+    }
+  };
+}
+
+/**
+ * The event loop is not blocked for longer than maxLagMs
+ * Lag is the 99th percentile delay of a timer since the previous check.
+ */
+export function eventLoopCheck(maxLagMs: number, resolutionMs: number = 10): HealthCheck {
+  const histogram = monitorEventLoopDelay({ resolution: resolutionMs });
+  histogram.enable();
+
+  return {
+    name: 'eventLoop',
+    run: async () => {
+      // Samples include the timer's own resolution
+      const lag = (nanoseconds: number) => Math.max(0, Math.round(nanoseconds / 1e6 - resolutionMs));
+      const details = {
+        p99LagMs: histogram.count > 0 ? lag(histogram.percentile(99)) : 0,
+        maxLagMs: histogram.count > 0 ? lag(histogram.max) : 0,
+        thresholdMs: maxLagMs
+      };
+      histogram.reset();
+
+      if (details.p99LagMs > maxLagMs) {
+        throw Object.assign(new Error(`Event loop lag ${details.p99LagMs}ms exceeds ${maxLagMs}ms`), { details });
+      }
+
+      return details;
+    }
+  };
+}
+
+/**
+ * Liveness and readiness probes
+ * Liveness only says the process answers; readiness runs every dependency check
+ * concurrently, each bounded by the timeout, and is ready only when all pass.
+ */
+export class HealthService {
+  private readonly startedAt = Date.now();
+  private shuttingDown = false;
+
+  constructor(
+    private readonly checks: HealthCheck[],
+    private readonly timeoutMs: number = config.health.timeoutMs
+  ) {}
+
+  liveness(): LivenessReport {
+    return {
+      status: 'alive',
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000)
+    };
+  }
+
+  /**
+   * Report not ready from now on, so load balancers stop routing here while requests drain
+   */
+  markShuttingDown(): void {
+    this.shuttingDown = true;
+  }
+
+  async readiness(): Promise<ReadinessReport> {
+    if (this.shuttingDown) {
+      return {
+        status: 'not_ready',
+        timestamp: new Date().toISOString(),
+        checks: { shutdown: { status: 'fail', durationMs: 0, message: 'Shutting down' } }
+      };
+    }
+
+    const results = await Promise.all(this.checks.map(check => this.runCheck(check)));
+
+    const checks: Record<string, HealthCheckResult> = {};
+    this.checks.forEach((check, i) => {
+      checks[check.name] = results[i];
+    });
+
+    const ready = results.every(result => result.status === 'pass');
+    if (!ready) {
+      const failed = this.checks.filter((_, i) => results[i].status === 'fail').map(check => check.name);
+      Logger.warn(`Readiness check failed: ${failed.join(', ')}`);
+    }
+
+    return {
+      status: ready ? 'ready' : 'not_ready',
+      timestamp: new Date().toISOString(),
+      checks
+    };
+  }
+
+  private async runCheck(check: HealthCheck): Promise<HealthCheckResult> {
+    const start = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+    });
+
+    try {
+      const details = await Promise.race([check.run(), timeout]);
+      return { status: 'pass', durationMs: Date.now() - start, ...(details ? { details } : {}) };
+    } catch (error: any) {
+      return {
+        status: 'fail',
+        durationMs: Date.now() - start,
+        message: error?.message || String(error),
+        ...(error?.details ? { details: error.details } : {})
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const healthService = new HealthService([
+  databaseCheck(() => database.getSequelize()),
+  migrationsCheck(() => database.getSequelize()),
+  encryptionCheck(),
+  eventLoopCheck(config.health.maxEventLoopLagMs)
+]);
+export default healthService;
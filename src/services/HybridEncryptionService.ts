@@ -1,22 +1,48 @@
 import crypto from 'crypto';
-import { config } from '../config';
 import { Logger } from '../utils/helpers';
+import { keyManager, KeyManager } from './KeyManager';
 
-export interface EncryptionResult {
-  encryptedData: string;
-  encryptedKey: string;
+export const ENVELOPE_VERSION = 1;
+
+export type EnvelopeAlgorithm = 'A256GCM' | 'RSA-OAEP-256+A256GCM';
+
+/**
+ * Self-describing ciphertext
+ * Serialized as JSON; every binary field is hex encoded
+ */
+export interface EncryptionEnvelope {
+  v: number;
+  alg: EnvelopeAlgorithm;
+  kid: string;
   iv: string;
+  tag: string;
+  ct: string;
+  ek?: string; // RSA-wrapped data key, hybrid envelopes only
 }
 
 export interface DecryptionResult {
   decryptedData: string;
 }
 
+/**
+ * Raised for ciphertexts that are not a readable envelope
+ * (malformed, unknown version/algorithm, or pre-envelope legacy payloads)
+ */
+export class EncryptionEnvelopeError extends Error {
+  public readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionEnvelopeError';
+  }
+}
+
 export class HybridEncryptionService {
   private readonly algorithm = 'aes-256-gcm';
   private readonly keyLength = 32; // 256 bits
-  private readonly ivLength = 16; // 128 bits
+  private readonly ivLength = 12; // 96 bits, recommended for GCM
   private readonly tagLength = 16; // 128 bits
+  private readonly aad = 'sportsline-api';
 
   /**
    * Generate RSA key pair
@@ -62,14 +88,15 @@ export class HybridEncryptionService {
 
   /**
    * Encrypt data with AES-256-GCM
+   * aad is bound to the ciphertext and must be passed again to decrypt
    */
-  public encryptWithAES(data: string, aesKey: string): { encryptedData: string; iv: string; tag: string } {
+  public encryptWithAES(data: string, aesKey: string, aad: string = this.aad): { encryptedData: string; iv: string; tag: string } {
     try {
       const key = Buffer.from(aesKey, 'hex');
       const iv = crypto.randomBytes(this.ivLength);
       
-      const cipher = crypto.createCipher(this.algorithm, key);
-      cipher.setAAD(Buffer.from('sportsline-api', 'utf8'));
+      const cipher = crypto.createCipheriv(this.algorithm, key, iv, { authTagLength: this.tagLength });
+      cipher.setAAD(Buffer.from(aad, 'utf8'));
       
       let encrypted = cipher.update(data, 'utf8', 'hex');
       encrypted += cipher.final('hex');
@@ -90,14 +117,18 @@ export class HybridEncryptionService {
   /**
    * Decrypt data with AES-256-GCM
    */
-  public decryptWithAES(encryptedData: string, aesKey: string, iv: string, tag: string): string {
+  public decryptWithAES(encryptedData: string, aesKey: string, iv: string, tag: string, aad: string = this.aad): string {
     try {
       const key = Buffer.from(aesKey, 'hex');
       const ivBuffer = Buffer.from(iv, 'hex');
       const tagBuffer = Buffer.from(tag, 'hex');
+
+      if (tagBuffer.length !== this.tagLength) {
+        throw new Error('Invalid authentication tag length');
+      }
       
-      const decipher = crypto.createDecipher(this.algorithm, key);
-      decipher.setAAD(Buffer.from('sportsline-api', 'utf8'));
+      const decipher = crypto.createDecipheriv(this.algorithm, key, ivBuffer, { authTagLength: this.tagLength });
+      decipher.setAAD(Buffer.from(aad, 'utf8'));
       decipher.setAuthTag(tagBuffer);
       
       let decrypted = decipher.update(encryptedData, 'hex', 'utf8');
@@ -155,13 +186,15 @@ export class HybridEncryptionService {
   /**
    * Hybrid encryption: Encrypt data with AES, then encrypt AES key with RSA
    */
-  public hybridEncrypt(data: string, rsaPublicKey: string): EncryptionResult {
+  public hybridEncrypt(data: string, rsaPublicKey: string): EncryptionEnvelope {
     try {
+      const header = { v: ENVELOPE_VERSION, alg: 'RSA-OAEP-256+A256GCM' as EnvelopeAlgorithm, kid: this.getPublicKeyId(rsaPublicKey) };
+
       // Generate AES key
       const aesKey = this.generateAESKey();
       
       // Encrypt data with AES
-      const aesResult = this.encryptWithAES(data, aesKey);
+      const aesResult = this.encryptWithAES(data, aesKey, this.envelopeAAD(header));
       
       // Encrypt AES key with RSA
       const encryptedAESKey = this.encryptAESKeyWithRSA(aesKey, rsaPublicKey);
@@ -169,9 +202,11 @@ export class HybridEncryptionService {
       Logger.info('Data encrypted using hybrid encryption');
       
       return {
-        encryptedData: aesResult.encryptedData,
-        encryptedKey: encryptedAESKey,
-        iv: aesResult.iv
+        ...header,
+        iv: aesResult.iv,
+        tag: aesResult.tag,
+        ct: aesResult.encryptedData,
+        ek: encryptedAESKey
       };
     } catch (error) {
       Logger.error('Error in hybrid encryption:', error);
@@ -182,13 +217,19 @@ export class HybridEncryptionService {
   /**
    * Hybrid decryption: Decrypt AES key with RSA, then decrypt data with AES
    */
-  public hybridDecrypt(encryptedData: string, encryptedKey: string, iv: string, rsaPrivateKey: string): DecryptionResult {
+  public hybridDecrypt(envelope: EncryptionEnvelope | string, rsaPrivateKey: string): DecryptionResult {
+    const parsed = this.parseEnvelope(envelope);
+
+    if (parsed.alg !== 'RSA-OAEP-256+A256GCM' || !parsed.ek) {
+      throw new EncryptionEnvelopeError(`Envelope algorithm ${parsed.alg} cannot be decrypted with an RSA private key`);
+    }
+
     try {
       // Decrypt AES key with RSA
-      const aesKey = this.decryptAESKeyWithRSA(encryptedKey, rsaPrivateKey);
+      const aesKey = this.decryptAESKeyWithRSA(parsed.ek, rsaPrivateKey);
       
       // Decrypt data with AES
-      const decryptedData = this.decryptWithAES(encryptedData, aesKey, iv, '');
+      const decryptedData = this.decryptWithAES(parsed.ct, aesKey, parsed.iv, parsed.tag, this.envelopeAAD(parsed));
       
       Logger.info('Data decrypted using hybrid decryption');
       
@@ -204,7 +245,7 @@ export class HybridEncryptionService {
   /**
    * Encrypt sensitive user data
    */
-  public encryptUserData(userData: any, rsaPublicKey: string): EncryptionResult {
+  public encryptUserData(userData: any, rsaPublicKey: string): EncryptionEnvelope {
     try {
       const sensitiveFields = ['password', 'email', 'documento'];
       const dataToEncrypt: any = {};
@@ -231,12 +272,15 @@ export class HybridEncryptionService {
   /**
    * Decrypt sensitive user data
    */
-  public decryptUserData(encryptedData: string, encryptedKey: string, iv: string, rsaPrivateKey: string): any {
+  public decryptUserData(envelope: EncryptionEnvelope | string, rsaPrivateKey: string): any {
     try {
-      const result = this.hybridDecrypt(encryptedData, encryptedKey, iv, rsaPrivateKey);
+      const result = this.hybridDecrypt(envelope, rsaPrivateKey);
       return JSON.parse(result.decryptedData);
     } catch (error) {
       Logger.error('Error decrypting user data:', error);
+      if (error instanceof EncryptionEnvelopeError) {
+        throw error;
+      }
       throw new Error('Failed to decrypt user data');
     }
   }
@@ -266,25 +310,24 @@ export class HybridEncryptionService {
   }
 
   /**
-   * Generic encrypt method for simple data
+   * Encrypt data with the active data key
+   * Returns a serialized envelope suitable for storage
    */
   public async encrypt(data: string): Promise<string> {
+    const dataKey = keyManager.getActiveKey('A256GCM');
+
     try {
-      // Generate a random AES key
-      const aesKey = crypto.randomBytes(this.keyLength).toString('hex');
-      
-      // Use default RSA keys from config or generate new ones
-      const rsaKeys = this.generateRSAKeyPair();
-      
-      // Encrypt the data
-      const result = this.hybridEncrypt(data, rsaKeys.publicKey);
-      
-      // Return a combined string with all necessary data
-      return JSON.stringify({
-        encryptedData: result.encryptedData,
-        encryptedKey: result.encryptedKey,
-        iv: result.iv
-      });
+      const header = { v: ENVELOPE_VERSION, alg: 'A256GCM' as EnvelopeAlgorithm, kid: dataKey.id };
+      const aesResult = this.encryptWithAES(data, dataKey.key!, this.envelopeAAD(header));
+
+      const envelope: EncryptionEnvelope = {
+        ...header,
+        iv: aesResult.iv,
+        tag: aesResult.tag,
+        ct: aesResult.encryptedData
+      };
+
+      return JSON.stringify(envelope);
     } catch (error) {
       Logger.error('Error in generic encrypt:', error);
       throw new Error('Failed to encrypt data');
@@ -292,27 +335,95 @@ export class HybridEncryptionService {
   }
 
   /**
-   * Generic decrypt method for simple data
+   * Decrypt a serialized envelope produced by encrypt()
    */
   public async decrypt(encryptedDataString: string): Promise<string> {
+    const envelope = this.parseEnvelope(encryptedDataString);
+
+    if (envelope.alg !== 'A256GCM') {
+      throw new EncryptionEnvelopeError(`Envelope algorithm ${envelope.alg} requires an RSA private key`);
+    }
+
+    const dataKey = keyManager.getDecryptionKey(envelope.kid);
+
+    if (dataKey.algorithm !== 'A256GCM') {
+      throw new EncryptionEnvelopeError(`Encryption key ${envelope.kid} is not an AES key`);
+    }
+
     try {
-      const encryptedData = JSON.parse(encryptedDataString);
-      
-      // Use default RSA keys from config
-      const rsaKeys = this.generateRSAKeyPair();
-      
-      // Decrypt the data
-      const result = this.hybridDecrypt(
-        encryptedData.encryptedData,
-        encryptedData.encryptedKey,
-        encryptedData.iv,
-        rsaKeys.privateKey
-      );
-      
-      return result.decryptedData;
+      return this.decryptWithAES(envelope.ct, dataKey.key!, envelope.iv, envelope.tag, this.envelopeAAD(envelope));
     } catch (error) {
       Logger.error('Error in generic decrypt:', error);
       throw new Error('Failed to decrypt data');
     }
   }
+
+  /**
+   * Re-encrypt an envelope under the active data key
+   * Envelopes already on the active key are returned unchanged
+   */
+  public async reencrypt(encryptedDataString: string): Promise<string> {
+    const envelope = this.parseEnvelope(encryptedDataString);
+
+    if (envelope.kid === keyManager.getActiveKey('A256GCM').id) {
+      return encryptedDataString;
+    }
+
+    return this.encrypt(await this.decrypt(encryptedDataString));
+  }
+
+  /**
+   * Parse and validate a serialized envelope
+   * Payloads written before envelopes were introduced are rejected explicitly
+   */
+  public parseEnvelope(input: EncryptionEnvelope | string): EncryptionEnvelope {
+    let envelope: any = input;
+
+    if (typeof input === 'string') {
+      try {
+        envelope = JSON.parse(input);
+      } catch (error) {
+        throw new EncryptionEnvelopeError('Malformed encryption envelope');
+      }
+    }
+
+    if (!envelope || typeof envelope !== 'object') {
+      throw new EncryptionEnvelopeError('Malformed encryption envelope');
+    }
+
+    if (envelope.v === undefined && 'encryptedData' in envelope) {
+      throw new EncryptionEnvelopeError('Legacy ciphertext format is not supported; the data must be encrypted again');
+    }
+
+    if (envelope.v !== ENVELOPE_VERSION) {
+      throw new EncryptionEnvelopeError(`Unsupported encryption envelope version: ${envelope.v}`);
+    }
+
+    if (!['A256GCM', 'RSA-OAEP-256+A256GCM'].includes(envelope.alg)) {
+      throw new EncryptionEnvelopeError(`Unsupported encryption algorithm: ${envelope.alg}`);
+    }
+
+    for (const field of ['kid', 'iv', 'tag', 'ct']) {
+      if (typeof envelope[field] !== 'string' || (field !== 'ct' && envelope[field].length === 0)) {
+        throw new EncryptionEnvelopeError(`Encryption envelope is missing field: ${field}`);
+      }
+    }
+
+    return envelope as EncryptionEnvelope;
+  }
+
+  /**
+   * Identify an RSA public key by the SHA-256 fingerprint of its DER encoding
+   */
+  public getPublicKeyId(rsaPublicKey: string): string {
+    return KeyManager.publicKeyId(rsaPublicKey);
+  }
+
+  /**
+   * Envelope header bound to the ciphertext as additional authenticated data,
+   * so tampering with v/alg/kid makes decryption fail
+   */
+  private envelopeAAD(header: Pick<EncryptionEnvelope, 'v' | 'alg' | 'kid'>): string {
+    return `${this.aad}|${header.v}|${header.alg}|${header.kid}`;
+  }
 }
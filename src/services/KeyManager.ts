@@ -0,0 +1,350 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { Logger } from '../utils/helpers';
+
+export type KeyStatus = 'active' | 'decrypt-only' | 'retired';
+
+export type KeyAlgorithm = 'A256GCM' | 'RSA-OAEP-256';
+
+// server keys encrypt the API's own data; client keys were generated for API callers
+export type KeyPurpose = 'server' | 'client';
+
+/**
+ * A named key version
+ * AES keys carry `key` (64 hex chars), RSA keys carry PEM `publicKey`/`privateKey`
+ */
+export interface KeyVersion {
+  id: string;
+  algorithm: KeyAlgorithm;
+  status: KeyStatus;
+  createdAt: string;
+  // 'server' when absent
+  purpose?: KeyPurpose;
+  key?: string;
+  publicKey?: string;
+  privateKey?: string;
+}
+
+/**
+ * Key metadata safe to expose over the API
+ */
+export interface KeyInfo {
+  id: string;
+  algorithm: KeyAlgorithm;
+  status: KeyStatus;
+  createdAt: string;
+  purpose: KeyPurpose;
+  publicKey?: string;
+}
+
+export class KeyManagerError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'KeyManagerError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Holds every key version used for encryption
+ * Keys come from the keystore at config.encryption.keystorePath, either a JSON
+ * file ({ "keys": [...] }) or a directory with one JSON file per key. Without a
+ * keystore, the AES_KEY/RSA_* environment keys are the only versions.
+ * There is at most one active key per algorithm; decrypt-only keys can still
+ * open old ciphertexts and retired keys cannot be used at all.
+ */
+export class KeyManager {
+  private keys: Map<string, KeyVersion> = new Map();
+  private loaded = false;
+
+  constructor(private readonly keystorePath: string | undefined = config.encryption.keystorePath) {}
+
+  /**
+   * Key used for new ciphertexts
+   */
+  getActiveKey(algorithm: KeyAlgorithm): KeyVersion {
+    this.ensureLoaded();
+
+    for (const key of this.keys.values()) {
+      if (key.algorithm === algorithm && key.status === 'active') {
+        return key;
+      }
+    }
+
+    throw new KeyManagerError(`No active ${algorithm} key configured`, 500);
+  }
+
+  /**
+   * Key able to open a ciphertext stamped with the given key id
+   */
+  getDecryptionKey(id: string): KeyVersion {
+    this.ensureLoaded();
+    const key = this.keys.get(id);
+
+    if (!key) {
+      throw new KeyManagerError(`Unknown encryption key id: ${id}`);
+    }
+
+    if (key.status === 'retired') {
+      throw new KeyManagerError(`Encryption key ${id} is retired`);
+    }
+
+    return key;
+  }
+
+  /**
+   * Private key of a client key pair, for decrypting on a caller's request
+   * Server keys are refused, so envelopes sealed to them cannot be opened through the API.
+   */
+  getClientPrivateKey(id: string): string {
+    const key = this.getDecryptionKey(id);
+
+    if (key.purpose !== 'client' || !key.privateKey) {
+      throw new KeyManagerError(`Encryption key ${id} cannot be used to decrypt on request`, 403);
+    }
+
+    return key.privateKey;
+  }
+
+  /**
+   * List key versions without key material
+   */
+  listKeys(): KeyInfo[] {
+    this.ensureLoaded();
+
+    return Array.from(this.keys.values()).map(({ id, algorithm, status, createdAt, purpose, publicKey }) => ({
+      id, algorithm, status, createdAt, purpose: purpose || 'server', ...(publicKey ? { publicKey } : {})
+    }));
+  }
+
+  /**
+   * Register a key version
+   * Adding an active key demotes the current active key of that algorithm to decrypt-only
+   */
+  addKey(key: KeyVersion): KeyInfo {
+    this.ensureLoaded();
+
+    if (this.keys.has(key.id)) {
+      throw new KeyManagerError(`Encryption key ${key.id} already exists`, 409);
+    }
+
+    this.assertValid(key);
+
+    if (key.status === 'active') {
+      for (const existing of this.keys.values()) {
+        if (existing.algorithm === key.algorithm && existing.status === 'active') {
+          existing.status = 'decrypt-only';
+        }
+      }
+    }
+
+    this.keys.set(key.id, key);
+    this.persist();
+
+    Logger.info(`Encryption key added: ${key.id} (${key.algorithm}, ${key.status})`);
+    return this.listKeys().find(info => info.id === key.id)!;
+  }
+
+  /**
+   * Register an RSA key pair generated for a client, as a decrypt-only client key
+   * Clients encrypt to its public key; the server keeps encrypting with the configured
+   * active RSA key. The private key must survive restarts, so a keystore is required.
+   */
+  addKeyPair(publicKey: string, privateKey: string): KeyInfo {
+    this.ensureLoaded();
+
+    if (!this.keystorePath) {
+      throw new KeyManagerError('Generating key pairs requires a keystore (KEYSTORE_PATH)', 409);
+    }
+
+    return this.addKey({
+      id: KeyManager.publicKeyId(publicKey),
+      algorithm: 'RSA-OAEP-256',
+      status: 'decrypt-only',
+      purpose: 'client',
+      createdAt: new Date().toISOString(),
+      publicKey,
+      privateKey
+    });
+  }
+
+  /**
+   * Generate a new active AES key; the previous one becomes decrypt-only
+   */
+  rotate(id?: string): { keyId: string; previousKeyId: string | null } {
+    this.ensureLoaded();
+
+    if (!this.keystorePath) {
+      throw new KeyManagerError('Key rotation requires a keystore (KEYSTORE_PATH)', 409);
+    }
+
+    let previousKeyId: string | null = null;
+    try {
+      previousKeyId = this.getActiveKey('A256GCM').id;
+    } catch (error) {
+      previousKeyId = null;
+    }
+
+    const keyId = id || `k${new Date().toISOString().replace(/[-:.TZ]/g, '').substring(0, 14)}`;
+
+    this.addKey({
+      id: keyId,
+      algorithm: 'A256GCM',
+      status: 'active',
+      createdAt: new Date().toISOString(),
+      key: crypto.randomBytes(32).toString('hex')
+    });
+
+    Logger.info(`Encryption key rotated: ${previousKeyId} -> ${keyId}`);
+    return { keyId, previousKeyId };
+  }
+
+  /**
+   * Change the status of a key version
+   */
+  setStatus(id: string, status: KeyStatus): KeyInfo {
+    this.ensureLoaded();
+    const key = this.keys.get(id);
+
+    if (!key) {
+      throw new KeyManagerError(`Unknown encryption key id: ${id}`, 404);
+    }
+
+    if (key.status === 'active' && status !== 'active') {
+      throw new KeyManagerError(`Encryption key ${id} is active; rotate to a new key first`, 409);
+    }
+
+    if (status === 'active') {
+      for (const existing of this.keys.values()) {
+        if (existing.algorithm === key.algorithm && existing.status === 'active') {
+          existing.status = 'decrypt-only';
+        }
+      }
+    }
+
+    key.status = status;
+    this.persist();
+
+    Logger.info(`Encryption key ${id} set to ${status}`);
+    return this.listKeys().find(info => info.id === id)!;
+  }
+
+  /**
+   * Drop cached keys so the next call reloads the keystore
+   */
+  reload(): void {
+    this.keys.clear();
+    this.loaded = false;
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) {
+      return;
+    }
+
+    const stored = this.keystorePath ? this.readKeystore(this.keystorePath) : [];
+
+    for (const key of stored.length > 0 ? stored : this.environmentKeys()) {
+      this.assertValid(key);
+      this.keys.set(key.id, key);
+    }
+
+    this.loaded = true;
+    Logger.info(`Key manager loaded ${this.keys.size} key(s)${this.keystorePath ? ` from ${this.keystorePath}` : ' from environment'}`);
+  }
+
+  /**
+   * Keys from AES_KEY / RSA_* used when no keystore exists yet
+   */
+  private environmentKeys(): KeyVersion[] {
+    const createdAt = new Date(0).toISOString();
+    const keys: KeyVersion[] = [{
+      id: config.encryption.keyId,
+      algorithm: 'A256GCM',
+      status: 'active',
+      createdAt,
+      // The config loader only accepts 64 hex chars
+      key: config.encryption.aesKey
+    }];
+
+    if (config.encryption.rsaPublicKey && config.encryption.rsaPrivateKey) {
+      keys.push({
+        id: KeyManager.publicKeyId(config.encryption.rsaPublicKey),
+        algorithm: 'RSA-OAEP-256',
+        status: 'active',
+        createdAt,
+        publicKey: config.encryption.rsaPublicKey,
+        privateKey: config.encryption.rsaPrivateKey
+      });
+    }
+
+    return keys;
+  }
+
+  private readKeystore(keystorePath: string): KeyVersion[] {
+    if (!fs.existsSync(keystorePath)) {
+      return [];
+    }
+
+    if (fs.statSync(keystorePath).isDirectory()) {
+      return fs.readdirSync(keystorePath)
+        .filter(file => file.endsWith('.json'))
+        .sort()
+        .map(file => JSON.parse(fs.readFileSync(path.join(keystorePath, file), 'utf8')) as KeyVersion);
+    }
+
+    const content = JSON.parse(fs.readFileSync(keystorePath, 'utf8'));
+    return Array.isArray(content) ? content : content.keys || [];
+  }
+
+  private persist(): void {
+    if (!this.keystorePath) {
+      return;
+    }
+
+    const keys = Array.from(this.keys.values());
+
+    if (fs.existsSync(this.keystorePath) && fs.statSync(this.keystorePath).isDirectory()) {
+      for (const key of keys) {
+        fs.writeFileSync(path.join(this.keystorePath, `${key.id}.json`), JSON.stringify(key, null, 2), { mode: 0o600 });
+      }
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(this.keystorePath), { recursive: true });
+    fs.writeFileSync(this.keystorePath, JSON.stringify({ keys }, null, 2), { mode: 0o600 });
+  }
+
+  private assertValid(key: KeyVersion): void {
+    if (!key.id || !/^[A-Za-z0-9._-]{1,64}$/.test(key.id)) {
+      throw new KeyManagerError(`Invalid encryption key id: ${key.id}`);
+    }
+
+    if (!['active', 'decrypt-only', 'retired'].includes(key.status)) {
+      throw new KeyManagerError(`Invalid status for encryption key ${key.id}: ${key.status}`);
+    }
+
+    if (key.algorithm === 'A256GCM' && !/^[0-9a-f]{64}$/.test(key.key || '')) {
+      throw new KeyManagerError(`Encryption key ${key.id} must be 64 hex characters`);
+    }
+
+    if (key.algorithm === 'RSA-OAEP-256' && (!key.publicKey || !key.privateKey)) {
+      throw new KeyManagerError(`RSA key ${key.id} needs publicKey and privateKey`);
+    }
+  }
+
+  /**
+   * Identify an RSA public key by the SHA-256 fingerprint of its DER encoding
+   */
+  static publicKeyId(rsaPublicKey: string): string {
+    const der = crypto.createPublicKey(rsaPublicKey).export({ type: 'spki', format: 'der' });
+    return crypto.createHash('sha256').update(der).digest('hex').substring(0, 16);
+  }
+}
+
+export const keyManager = new KeyManager();
+export default keyManager;
@@ -1,5 +1,7 @@
 import { Pedido, DetallePedido } from '../models';
+import { PedidoDAO } from '../dao/PedidoDAO';
 import { HybridEncryptionService } from './HybridEncryptionService';
+import { keyManager } from './KeyManager';
 import { Logger } from '../utils/helpers';
 
 export interface EncryptedPedidoData {
@@ -26,11 +28,20 @@ export interface DetalleEncryptionData {
   subtotal: number;
 }
 
+export interface PedidoReencryptionResult {
+  keyId: string;
+  processed: number;
+  reencrypted: number;
+  failed: number[];
+}
+
 export class PedidoEncryptionService {
   private encryptionService: HybridEncryptionService;
+  private pedidoDAO: PedidoDAO;
 
   constructor() {
     this.encryptionService = new HybridEncryptionService();
+    this.pedidoDAO = new PedidoDAO();
   }
 
   /**
@@ -83,6 +94,94 @@ export class PedidoEncryptionService {
     }
   }
 
+  /**
+   * Encrypt pedido data and store it on the pedido
+   */
+  async storeEncryptedPedidoData(pedido: Pedido): Promise<EncryptedPedidoData> {
+    try {
+      const encryptedData = await this.encryptPedidoData(pedido);
+      const keyId = this.encryptionService.parseEnvelope(encryptedData.encryptedMetadata!).kid;
+
+      await this.pedidoDAO.update(pedido.id, {
+        datosCifrados: JSON.stringify(encryptedData),
+        claveId: keyId
+      });
+
+      return encryptedData;
+
+    } catch (error) {
+      Logger.error('Error storing encrypted pedido data', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-encrypt every envelope of an encrypted pedido under the active key
+   */
+  async reencryptPedidoData(encryptedData: EncryptedPedidoData): Promise<EncryptedPedidoData> {
+    const reencrypted: EncryptedPedidoData = { pedidoId: encryptedData.pedidoId };
+
+    if (encryptedData.encryptedObservaciones) {
+      reencrypted.encryptedObservaciones = await this.encryptionService.reencrypt(encryptedData.encryptedObservaciones);
+    }
+
+    if (encryptedData.encryptedDetalles) {
+      reencrypted.encryptedDetalles = await this.encryptionService.reencrypt(encryptedData.encryptedDetalles);
+    }
+
+    if (encryptedData.encryptedMetadata) {
+      reencrypted.encryptedMetadata = await this.encryptionService.reencrypt(encryptedData.encryptedMetadata);
+    }
+
+    return reencrypted;
+  }
+
+  /**
+   * Move every stored pedido payload to the active key, batchSize rows at a time
+   * Rows that fail are reported and skipped so one bad payload doesn't block the rest
+   */
+  async reencryptStoredPedidos(batchSize: number = 100): Promise<PedidoReencryptionResult> {
+    const keyId = keyManager.getActiveKey('A256GCM').id;
+    const result: PedidoReencryptionResult = { keyId, processed: 0, reencrypted: 0, failed: [] };
+    let lastId = 0;
+
+    Logger.info('Re-encrypting stored pedido data', { keyId, batchSize });
+
+    while (true) {
+      const pedidos = await this.pedidoDAO.findEncryptedNotUsingKey(keyId, lastId, batchSize);
+
+      if (pedidos.length === 0) {
+        break;
+      }
+
+      for (const pedido of pedidos) {
+        result.processed++;
+
+        try {
+          const reencrypted = await this.reencryptPedidoData(JSON.parse(pedido.datosCifrados!));
+          const replaced = await this.pedidoDAO.replaceEncryptedData(
+            pedido.id,
+            pedido.claveId ?? null,
+            JSON.stringify(reencrypted),
+            keyId
+          );
+
+          if (replaced) {
+            result.reencrypted++;
+          }
+        } catch (error) {
+          Logger.error(`Error re-encrypting pedido ${pedido.id}`, error);
+          result.failed.push(pedido.id);
+        }
+      }
+
+      lastId = pedidos[pedidos.length - 1].id;
+    }
+
+    Logger.info('Stored pedido data re-encrypted', result);
+    return result;
+  }
+
   /**
    * Decrypt pedido data
    */
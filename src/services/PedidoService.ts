@@ -3,8 +3,13 @@ import { ProductoDAO } from '../dao/ProductoDAO';
 import { ClienteDAO } from '../dao/ClienteDAO';
 import { UsuarioDAO } from '../dao/UsuarioDAO';
 import { Pedido, DetallePedido, Producto, Cliente, Usuario } from '../models';
+import { PedidoEstado } from '../models/PedidoEstadoHistorial';
+import { PedidoEstadoHistorialDAO } from '../dao/PedidoEstadoHistorialDAO';
 import { Logger } from '../utils/helpers';
+import { pedidosCreatedTotal } from '../utils/metrics';
 import { HybridEncryptionService } from './HybridEncryptionService';
+import { pedidoStateMachine, PedidoTransitionError } from './PedidoStateMachine';
+import { StockReservationService } from './StockReservationService';
 
 export interface PedidoCreateData {
   clienteId: number;
@@ -15,6 +20,24 @@ export interface PedidoCreateData {
   observaciones?: string;
 }
 
+export interface PedidoLineInput {
+  productoId: number;
+  cantidad: number;
+}
+
+/**
+ * Business rule violation with the HTTP status it maps to
+ */
+export class PedidoError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'PedidoError';
+    this.statusCode = statusCode;
+  }
+}
+
 export interface PedidoFilters {
   clienteId?: number;
   usuarioId?: number;
@@ -39,10 +62,14 @@ export class PedidoService {
   private productoDAO: ProductoDAO;
   private clienteDAO: ClienteDAO;
   private usuarioDAO: UsuarioDAO;
+  private historialDAO: PedidoEstadoHistorialDAO;
+  private reservationService: StockReservationService;
   private encryptionService: HybridEncryptionService;
 
   constructor() {
+    this.reservationService = new StockReservationService();
     this.pedidoDAO = new PedidoDAO();
+    this.historialDAO = new PedidoEstadoHistorialDAO();
     this.productoDAO = new ProductoDAO();
     this.clienteDAO = new ClienteDAO();
     this.usuarioDAO = new UsuarioDAO();
@@ -50,7 +77,7 @@ export class PedidoService {
   }
 
   /**
-   * Create a new pedido with stock validation and automatic inventory reduction
+   * Create a new pedido with stock validation; its units are reserved until it is confirmado
    */
   async createPedido(data: PedidoCreateData, usuarioId: number): Promise<Pedido> {
     try {
@@ -97,20 +124,24 @@ export class PedidoService {
         });
       }
 
-      // Create pedido with transaction
-      const pedido = await this.pedidoDAO.createWithDetalles({
-        clienteId: data.clienteId,
-        usuarioId,
-        total,
-        estado: 'pendiente',
-        observaciones: data.observaciones,
-        detalles
-      });
+      // Create pedido and reserve its stock atomically: any failure rolls back both
+      const pedido = await this.pedidoDAO.withTransaction(async (transaction) => {
+        const created = await this.pedidoDAO.createWithDetalles({
+          clienteId: data.clienteId,
+          usuarioId,
+          total,
+          estado: 'pendiente',
+          observaciones: data.observaciones,
+          detalles
+        }, { transaction });
 
-      // Reduce stock for each producto
-      await this.reduceStock(data.productos);
+        await this.reservationService.reserve(created.id, data.productos, transaction);
+
+        return created;
+      });
 
       Logger.info('Pedido created successfully', { pedidoId: pedido.id });
+      pedidosCreatedTotal.inc({ estado: pedido.estado });
       return pedido;
 
     } catch (error) {
@@ -172,21 +203,25 @@ export class PedidoService {
 
   /**
    * Update pedido estado
+   * The order state machine validates the move and runs its guards and side effects
    */
-  async updatePedidoEstado(id: number, estado: string): Promise<Pedido | null> {
+  async updatePedidoEstado(id: number, estado: string, usuarioId?: number, motivo?: string, referenciaEnvio?: string): Promise<Pedido | null> {
     try {
       Logger.info('Updating pedido estado', { id, estado });
 
       const pedido = await this.pedidoDAO.findById(id);
       if (!pedido) {
-        throw new Error('Pedido not found');
+        throw new PedidoError('Pedido not found', 404);
       }
 
-      // Validate estado transition
-      this.validateEstadoTransition(pedido.estado, estado);
+      // Fail fast; the DAO checks again under the row lock
+      pedidoStateMachine.assertTransition(pedido.estado, estado as PedidoEstado);
+
+      const updatedPedido = await this.pedidoDAO.updateEstado(id, estado as PedidoEstado, { usuarioId, motivo, referenciaEnvio });
+      if (!updatedPedido) {
+        throw new PedidoError('Pedido not found', 404);
+      }
 
-      const updatedPedido = await this.pedidoDAO.update(id, { estado: estado as any });
-      
       Logger.info('Pedido estado updated successfully', { id, estado });
       return updatedPedido;
     } catch (error) {
@@ -195,6 +230,63 @@ export class PedidoService {
     }
   }
 
+  /**
+   * Move several pedidos to the same estado
+   * Each pedido transitions in its own transaction, so one refusal does not block the rest
+   */
+  async updatePedidosEstado(ids: number[], estado: PedidoEstado, usuarioId?: number, motivo?: string): Promise<{
+    updated: number[];
+    failed: Array<{ id: number; message: string; statusCode: number; allowed?: PedidoEstado[] }>;
+  }> {
+    const updated: number[] = [];
+    const failed: Array<{ id: number; message: string; statusCode: number; allowed?: PedidoEstado[] }> = [];
+
+    for (const id of Array.from(new Set(ids))) {
+      try {
+        const pedido = await this.pedidoDAO.updateEstado(id, estado, { usuarioId, motivo });
+
+        if (pedido) {
+          updated.push(id);
+        } else {
+          failed.push({ id, message: 'Pedido not found', statusCode: 404 });
+        }
+      } catch (error) {
+        if (error instanceof PedidoTransitionError) {
+          failed.push({ id, message: error.message, statusCode: error.statusCode, allowed: error.allowed });
+          continue;
+        }
+
+        if (error instanceof Error && error.message.startsWith('Insufficient stock')) {
+          failed.push({ id, message: error.message, statusCode: 409 });
+          continue;
+        }
+
+        Logger.error('Error updating pedidos estado', error);
+        throw error;
+      }
+    }
+
+    Logger.info('Bulk pedido estado update finished', { estado, updated: updated.length, failed: failed.length });
+    return { updated, failed };
+  }
+
+  /**
+   * Get the estado timeline of a pedido
+   */
+  async getPedidoHistorial(id: number) {
+    try {
+      const pedido = await this.pedidoDAO.findById(id);
+      if (!pedido) {
+        throw new PedidoError('Pedido not found', 404);
+      }
+
+      return await this.historialDAO.findByPedido(id);
+    } catch (error) {
+      Logger.error('Error getting pedido historial', error);
+      throw error;
+    }
+  }
+
   /**
    * Get pedidos by cliente
    */
@@ -289,42 +381,163 @@ export class PedidoService {
   }
 
   /**
-   * Cancel pedido and restore stock
+   * Cancel pedido; the state machine restores the stock of its lines
    */
-  async cancelPedido(id: number): Promise<Pedido | null> {
+  async cancelPedido(id: number, usuarioId?: number, motivo?: string): Promise<Pedido | null> {
     try {
       Logger.info('Cancelling pedido', { id });
 
-      const pedido = await this.pedidoDAO.findByIdWithDetalles(id);
-      if (!pedido) {
-        throw new Error('Pedido not found');
+      const cancelled = await this.pedidoDAO.updateEstado(id, 'cancelado', { usuarioId, motivo });
+      if (!cancelled) {
+        throw new PedidoError('Pedido not found', 404);
       }
 
-      // Check if pedido can be cancelled
-      if (pedido.estado === 'entregado') {
-        throw new Error('Cannot cancel delivered pedido');
-      }
+      Logger.info('Pedido cancelled and stock restored successfully', { id });
+      return cancelled;
+    } catch (error) {
+      Logger.error('Error cancelling pedido', error);
+      throw error;
+    }
+  }
 
-      if (pedido.estado === 'cancelado') {
-        throw new Error('Pedido is already cancelled');
-      }
+  /**
+   * Replace every line of a pendiente pedido
+   */
+  async updateDetalles(id: number, productos: PedidoLineInput[]): Promise<Pedido> {
+    return this.editDetalles(id, () => productos);
+  }
 
-      // Update estado to cancelled
-      const updatedPedido = await this.pedidoDAO.update(id, { estado: 'cancelado' });
+  /**
+   * Add a line to a pendiente pedido, or add to its cantidad if the producto is already ordered
+   */
+  async addDetalle(id: number, item: PedidoLineInput): Promise<Pedido> {
+    return this.editDetalles(id, (current) => [...current, item]);
+  }
 
-      // Restore stock
-      if (pedido.detalles && pedido.detalles.length > 0) {
-        await this.restoreStock(pedido.detalles);
+  /**
+   * Remove the line of a producto from a pendiente pedido
+   */
+  async removeDetalle(id: number, productoId: number): Promise<Pedido> {
+    return this.editDetalles(id, (current) => {
+      if (!current.some(line => line.productoId === productoId)) {
+        throw new PedidoError(`Producto ${productoId} is not part of pedido ${id}`, 404);
       }
 
-      Logger.info('Pedido cancelled and stock restored successfully', { id });
-      return updatedPedido;
+      return current.filter(line => line.productoId !== productoId);
+    });
+  }
+
+  /**
+   * Apply a line edit to a pendiente pedido in one transaction
+   * Only the difference against the current lines is taken from or returned to
+   * stock. Existing lines keep the price they were ordered at; new lines use
+   * the current producto price.
+   */
+  private async editDetalles(
+    id: number,
+    edit: (current: PedidoLineInput[]) => PedidoLineInput[]
+  ): Promise<Pedido> {
+    try {
+      Logger.info('Editing pedido detalles', { id });
+
+      const pedido = await this.pedidoDAO.withTransaction(async (transaction) => {
+        // Lock the pedido row so concurrent edits and estado changes serialize
+        const current = await this.pedidoDAO.findByIdWithDetalles(id, { transaction, lock: true });
+        if (!current) {
+          throw new PedidoError('Pedido not found', 404);
+        }
+
+        if (current.estado !== 'pendiente') {
+          throw new PedidoError(`Pedido detalles can only be edited while pendiente (current estado: ${current.estado})`, 409);
+        }
+
+        const currentLines = (current.detalles || []).map(detalle => ({
+          productoId: detalle.productoId,
+          cantidad: detalle.cantidad
+        }));
+        const requested = this.mergeLines(edit(currentLines));
+
+        if (requested.length === 0) {
+          throw new PedidoError('A pedido needs at least one producto; cancel it instead', 400);
+        }
+
+        // Price and validate productos that are new to the pedido
+        const newIds = requested
+          .map(line => line.productoId)
+          .filter(productoId => !current.detalles.some(detalle => detalle.productoId === productoId));
+        const newProductos = newIds.length > 0 ? await this.productoDAO.findByIds(newIds) : [];
+
+        const detalles = requested.map(line => {
+          const existing = current.detalles.find(detalle => detalle.productoId === line.productoId);
+          const producto = newProductos.find(p => p.id === line.productoId);
+
+          if (!existing && (!producto || !producto.activo)) {
+            throw new PedidoError(`Producto ${line.productoId} not found or inactive`, 404);
+          }
+
+          const precioUnitario = Number(existing ? existing.precioUnitario : producto!.precio);
+          return {
+            productoId: line.productoId,
+            cantidad: line.cantidad,
+            precioUnitario,
+            subtotal: this.roundCurrency(precioUnitario * line.cantidad)
+          };
+        });
+
+        // Move only the stock difference, in productoId order like createPedido.
+        // Pedidos created before reservations existed still move real stock.
+        const reserved = await this.reservationService.usesReservations(id, transaction);
+        const productoIds = new Set([...currentLines, ...requested].map(line => line.productoId));
+        for (const productoId of Array.from(productoIds).sort((a, b) => a - b)) {
+          const before = currentLines.find(line => line.productoId === productoId)?.cantidad || 0;
+          const after = requested.find(line => line.productoId === productoId)?.cantidad || 0;
+          const delta = after - before;
+
+          if (reserved) {
+            if (delta !== 0 && !await this.reservationService.adjust(id, productoId, delta, transaction)) {
+              throw new PedidoError(`Producto ${productoId} not found`, 404);
+            }
+          } else if (delta > 0) {
+            const producto = await this.productoDAO.reduceStock(productoId, delta, { transaction, motivo: 'venta', pedidoId: id });
+            if (!producto) {
+              throw new PedidoError(`Producto ${productoId} not found`, 404);
+            }
+          } else if (delta < 0) {
+            await this.productoDAO.increaseStock(productoId, -delta, { transaction, motivo: 'cancelacion', pedidoId: id });
+          }
+        }
+
+        const total = this.roundCurrency(detalles.reduce((sum, detalle) => sum + detalle.subtotal, 0));
+        await this.pedidoDAO.replaceDetalles(id, detalles, total, { transaction });
+
+        return this.pedidoDAO.findByIdWithDetalles(id, { transaction });
+      });
+
+      Logger.info('Pedido detalles updated successfully', { id });
+      return pedido as Pedido;
     } catch (error) {
-      Logger.error('Error cancelling pedido', error);
+      Logger.error('Error editing pedido detalles', error);
       throw error;
     }
   }
 
+  /**
+   * Collapse repeated productos into a single line
+   */
+  private mergeLines(lines: PedidoLineInput[]): PedidoLineInput[] {
+    const merged = new Map<number, number>();
+
+    for (const line of lines) {
+      merged.set(line.productoId, (merged.get(line.productoId) || 0) + line.cantidad);
+    }
+
+    return Array.from(merged, ([productoId, cantidad]) => ({ productoId, cantidad }));
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
   /**
    * Validate productos and check stock availability
    */
@@ -343,49 +556,14 @@ export class PedidoService {
         throw new Error(`Producto ${item.productoId} not found`);
       }
 
-      if (producto.stock < item.cantidad) {
-        throw new Error(`Insufficient stock for producto ${producto.nombre}. Available: ${producto.stock}, Required: ${item.cantidad}`);
+      if (producto.disponible < item.cantidad) {
+        throw new Error(`Insufficient stock for producto ${producto.nombre}. Available: ${producto.disponible}, Required: ${item.cantidad}`);
       }
     }
 
     return productosData;
   }
 
-  /**
-   * Reduce stock for productos
-   */
-  private async reduceStock(productos: Array<{ productoId: number; cantidad: number }>): Promise<void> {
-    for (const item of productos) {
-      await this.productoDAO.reduceStock(item.productoId, item.cantidad);
-    }
-  }
-
-  /**
-   * Restore stock for productos
-   */
-  private async restoreStock(detalles: DetallePedido[]): Promise<void> {
-    for (const detalle of detalles) {
-      await this.productoDAO.increaseStock(detalle.productoId, detalle.cantidad);
-    }
-  }
-
-  /**
-   * Validate estado transition
-   */
-  private validateEstadoTransition(currentEstado: string, newEstado: string): void {
-    const validTransitions: Record<string, string[]> = {
-      'pendiente': ['confirmado', 'cancelado'],
-      'confirmado': ['enviado', 'cancelado'],
-      'enviado': ['entregado'],
-      'entregado': [], // No transitions from entregado
-      'cancelado': [] // No transitions from cancelado
-    };
-
-    if (!validTransitions[currentEstado]?.includes(newEstado)) {
-      throw new Error(`Invalid estado transition from ${currentEstado} to ${newEstado}`);
-    }
-  }
-
   /**
    * Encrypt sensitive pedido data
    */
@@ -0,0 +1,228 @@
+import { EventEmitter } from 'events';
+import { Transaction } from 'sequelize';
+import { ORDER_STATUS_TRANSITIONS } from '../constants';
+import { ProductoDAO } from '../dao/ProductoDAO';
+import { DetallePedido } from '../models/DetallePedido';
+import { Pedido } from '../models/Pedido';
+import { PedidoEstado } from '../models/PedidoEstadoHistorial';
+import { stockReservationService } from './StockReservationService';
+import { Logger } from '../utils/helpers';
+
+/**
+ * One estado change in flight
+ * `pedido` is the row locked by the caller and still holds the previous estado
+ */
+export interface PedidoTransition {
+  pedido: Pedido;
+  from: PedidoEstado;
+  to: PedidoEstado;
+  usuarioId?: number;
+  motivo?: string;
+  referenciaEnvio?: string;
+  transaction: Transaction;
+}
+
+/**
+ * Runs before the estado is written; throws to refuse the transition
+ */
+export type TransitionGuard = (transition: PedidoTransition) => void | Promise<void>;
+
+/**
+ * Runs after the estado is written, inside the same transaction
+ */
+export type TransitionEffect = (transition: PedidoTransition) => Promise<void>;
+
+/**
+ * Payload of the 'transition' event, emitted once the transaction commits
+ */
+export interface PedidoTransitionEvent {
+  pedidoId: number;
+  from: PedidoEstado;
+  to: PedidoEstado;
+  usuarioId?: number;
+  motivo?: string;
+  fecha: Date;
+}
+
+export class PedidoTransitionError extends Error {
+  public readonly statusCode: number;
+
+  constructor(
+    message: string,
+    public readonly from: PedidoEstado,
+    public readonly to: PedidoEstado,
+    public readonly allowed: PedidoEstado[],
+    statusCode: number = 409
+  ) {
+    super(message);
+    this.name = 'PedidoTransitionError';
+    this.statusCode = statusCode;
+  }
+}
+
+interface TransitionHook<T> {
+  from?: PedidoEstado;
+  to: PedidoEstado;
+  run: T;
+}
+
+/**
+ * Order state machine
+ * Every estado change goes through transition(): the move is checked against
+ * ORDER_STATUS_TRANSITIONS, the guards registered for it run, the caller writes
+ * the new estado, the side effects run in the same transaction, and a
+ * 'transition' event is emitted after commit.
+ */
+export class PedidoStateMachine extends EventEmitter {
+  private guards: TransitionHook<TransitionGuard>[] = [];
+  private effects: TransitionHook<TransitionEffect>[] = [];
+
+  constructor(private readonly transitions: Readonly<Record<PedidoEstado, readonly PedidoEstado[]>> = ORDER_STATUS_TRANSITIONS) {
+    super();
+  }
+
+  /**
+   * Estados reachable from the given one
+   */
+  allowedTransitions(from: PedidoEstado): PedidoEstado[] {
+    return [...(this.transitions[from] || [])];
+  }
+
+  canTransition(from: PedidoEstado, to: PedidoEstado): boolean {
+    return this.allowedTransitions(from).includes(to);
+  }
+
+  /**
+   * Throw a 409 listing the allowed next estados unless from -> to is a valid move
+   */
+  assertTransition(from: PedidoEstado, to: PedidoEstado): void {
+    if (this.canTransition(from, to)) {
+      return;
+    }
+
+    const allowed = this.allowedTransitions(from);
+    throw new PedidoTransitionError(
+      `Invalid estado transition from ${from} to ${to}; allowed: ${allowed.length > 0 ? allowed.join(', ') : 'none'}`,
+      from,
+      to,
+      allowed
+    );
+  }
+
+  /**
+   * Register a guard for transitions into `to`, optionally only when coming from `from`
+   */
+  addGuard(to: PedidoEstado, guard: TransitionGuard, from?: PedidoEstado): this {
+    this.guards.push({ from, to, run: guard });
+    return this;
+  }
+
+  /**
+   * Register a side effect for transitions into `to`, optionally only when coming from `from`
+   */
+  addEffect(to: PedidoEstado, effect: TransitionEffect, from?: PedidoEstado): this {
+    this.effects.push({ from, to, run: effect });
+    return this;
+  }
+
+  /**
+   * Validate and run a transition; `apply` persists the new estado
+   */
+  async transition<T>(transition: PedidoTransition, apply: (transition: PedidoTransition) => Promise<T>): Promise<T> {
+    const { from, to } = transition;
+
+    this.assertTransition(from, to);
+
+    for (const guard of this.hooksFor(this.guards, transition)) {
+      await guard(transition);
+    }
+
+    const result = await apply(transition);
+
+    for (const effect of this.hooksFor(this.effects, transition)) {
+      await effect(transition);
+    }
+
+    const event: PedidoTransitionEvent = {
+      pedidoId: transition.pedido.id,
+      from,
+      to,
+      usuarioId: transition.usuarioId,
+      motivo: transition.motivo,
+      fecha: new Date()
+    };
+
+    // Listeners only hear about changes that were actually committed
+    transition.transaction.afterCommit(() => {
+      this.emit('transition', event);
+      this.emit(`transition:${to}`, event);
+    });
+
+    return result;
+  }
+
+  private hooksFor<T>(hooks: TransitionHook<T>[], transition: PedidoTransition): T[] {
+    return hooks
+      .filter(hook => hook.to === transition.to && (!hook.from || hook.from === transition.from))
+      .map(hook => hook.run);
+  }
+}
+
+/**
+ * Shipping a pedido needs the carrier reference, either in the request or already stored
+ */
+export const requireReferenciaEnvio: TransitionGuard = ({ pedido, from, to, referenciaEnvio }) => {
+  if (!referenciaEnvio && !pedido.referenciaEnvio) {
+    throw new PedidoTransitionError('A shipping reference (referenciaEnvio) is required to mark a pedido as enviado', from, to, [], 400);
+  }
+};
+
+/**
+ * Confirming a pedido turns its stock reservations into real decrements
+ */
+export const consumeReservations: TransitionEffect = async ({ pedido, usuarioId, transaction }) => {
+  const consumed = await stockReservationService.consume(pedido.id, { usuarioId }, transaction);
+
+  if (consumed > 0) {
+    Logger.info(`Stock reservations consumed for confirmed pedido: ${pedido.id}`);
+  }
+};
+
+/**
+ * Give back the stock held by the lines of a cancelled pedido
+ * A pendiente pedido only holds reservations, unless it was created before reservations
+ * existed; once confirmado its units really left stock.
+ * Productos are updated in id order so concurrent cancellations lock rows consistently
+ */
+export const restoreStock: TransitionEffect = async ({ pedido, from, usuarioId, transaction }) => {
+  if (from === 'pendiente' && await stockReservationService.usesReservations(pedido.id, transaction)) {
+    await stockReservationService.release(pedido.id, transaction);
+    Logger.info(`Stock reservations released for cancelled pedido: ${pedido.id}`);
+    return;
+  }
+
+  const productoDAO = new ProductoDAO();
+  const detalles = await DetallePedido.findAll({
+    where: { pedidoId: pedido.id },
+    order: [['productoId', 'ASC']],
+    transaction
+  });
+
+  for (const detalle of detalles) {
+    await productoDAO.increaseStock(detalle.productoId, detalle.cantidad, {
+      transaction,
+      motivo: 'cancelacion',
+      pedidoId: pedido.id,
+      usuarioId
+    });
+  }
+
+  Logger.info(`Stock restored for cancelled pedido: ${pedido.id}`);
+};
+
+export const pedidoStateMachine = new PedidoStateMachine()
+  .addGuard('enviado', requireReferenciaEnvio)
+  .addEffect('confirmado', consumeReservations)
+  .addEffect('cancelado', restoreStock);
+
+export default pedidoStateMachine;
@@ -0,0 +1,166 @@
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+// Who shares a quota: each client IP, each user, or every user of a role
+// Anonymous requests fall back to their IP for 'user' and 'role'
+export type RateLimitIdentity = 'ip' | 'user' | 'role';
+
+/**
+ * A named limit applied to some routes
+ * sliding-window: at most `limit` requests in any `windowMs`, estimated from the current
+ * and previous fixed windows. token-bucket: bursts of up to `limit` requests, refilled
+ * evenly over `windowMs`.
+ */
+export interface RateLimitPolicy {
+  name: string;
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowMs: number;
+  keyBy: RateLimitIdentity;
+  // Per-role limits for authenticated requests, overriding `limit`
+  limitByRole?: Readonly<Record<string, number>>;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the quota is fully available again
+  resetSeconds: number;
+  // Seconds until the next request can be allowed, when this one was not
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Storage for rate limit counters and buckets
+ * update() must apply `fn` atomically for the key. A shared store (e.g. Redis) can
+ * implement it with optimistic locking, re-running `fn` until its write wins, which
+ * makes limits hold across every API instance.
+ */
+export interface RateLimitStore {
+  get<T>(key: string): Promise<T | null>;
+  update<T>(key: string, ttlMs: number, fn: (current: T | null) => T): Promise<T>;
+}
+
+/**
+ * Default in-process store
+ * Expired entries are pruned at most once per minute, on write.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries: Map<string, { value: unknown; expiresAt: number }> = new Map();
+  private nextPruneAt = 0;
+
+  constructor(private readonly pruneIntervalMs: number = 60 * 1000) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value as T;
+  }
+
+  async update<T>(key: string, ttlMs: number, fn: (current: T | null) => T): Promise<T> {
+    const now = Date.now();
+    this.prune(now);
+
+    const entry = this.entries.get(key);
+    const value = fn(entry && entry.expiresAt > now ? entry.value as T : null);
+    this.entries.set(key, { value, expiresAt: now + ttlMs });
+
+    return value;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private prune(now: number): void {
+    if (now < this.nextPruneAt) {
+      return;
+    }
+
+    this.nextPruneAt = now + this.pruneIntervalMs;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Applies rate limit policies against a store
+ * Rejected requests do not use up quota, so a client that backs off recovers.
+ */
+export class RateLimiter {
+  constructor(private readonly store: RateLimitStore = new MemoryRateLimitStore()) {}
+
+  /**
+   * Count one request of `identity` against the policy
+   */
+  async consume(policy: RateLimitPolicy, identity: string, limit: number = policy.limit, now: number = Date.now()): Promise<RateLimitDecision> {
+    const key = `ratelimit:${policy.name}:${identity}`;
+
+    return policy.algorithm === 'token-bucket'
+      ? this.takeToken(key, limit, policy.windowMs, now)
+      : this.hitWindow(key, limit, policy.windowMs, now);
+  }
+
+  private async hitWindow(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitDecision> {
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const previous = (await this.store.get<number>(`${key}:${windowStart - windowMs}`)) ?? 0;
+    // Share of the previous window still inside the sliding window
+    const carried = previous * (1 - (now - windowStart) / windowMs);
+
+    let allowed = false;
+    const current = await this.store.update<number>(`${key}:${windowStart}`, windowMs * 2, (count) => {
+      allowed = carried + (count ?? 0) < limit;
+      return (count ?? 0) + (allowed ? 1 : 0);
+    });
+
+    const resetSeconds = Math.ceil((windowStart + windowMs - now) / 1000);
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - carried - current)),
+      resetSeconds,
+      ...(allowed ? {} : { retryAfterSeconds: Math.max(1, resetSeconds) })
+    };
+  }
+
+  private async takeToken(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitDecision> {
+    const refillPerMs = limit / windowMs;
+
+    let allowed = false;
+    // An idle bucket is full again after windowMs, so it can expire then
+    const state = await this.store.update<TokenBucketState>(key, windowMs, (bucket) => {
+      const tokens = bucket ? Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs) : limit;
+      allowed = tokens >= 1;
+      return { tokens: allowed ? tokens - 1 : tokens, updatedAt: now };
+    });
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.floor(state.tokens),
+      resetSeconds: Math.ceil((limit - state.tokens) / refillPerMs / 1000),
+      ...(allowed ? {} : { retryAfterSeconds: Math.max(1, Math.ceil((1 - state.tokens) / refillPerMs / 1000)) })
+    };
+  }
+}
+
+export const rateLimiter = new RateLimiter();
+export default rateLimiter;
@@ -0,0 +1,93 @@
+import { config } from '../config';
+import { PedidoDAO } from '../dao/PedidoDAO';
+import { ReservaStockDAO } from '../dao/ReservaStockDAO';
+import { Logger } from '../utils/helpers';
+import { PedidoTransitionError } from './PedidoStateMachine';
+import { stockReservationService } from './StockReservationService';
+
+export const RESERVATION_EXPIRED_MOTIVO = 'Reserva de stock expirada';
+
+/**
+ * In-process scheduler that cancels pendiente pedidos whose stock reservation expired
+ * Cancelling goes through the order state machine, which releases the reservation
+ * and records the change in the pedido historial.
+ */
+export class ReservationScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+  private pedidoDAO: PedidoDAO;
+  private reservaDAO: ReservaStockDAO;
+
+  constructor(private readonly intervalSeconds: number = config.reservations.sweepIntervalSeconds) {
+    this.pedidoDAO = new PedidoDAO();
+    this.reservaDAO = new ReservaStockDAO();
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => Logger.error('Error sweeping expired stock reservations:', error));
+    }, this.intervalSeconds * 1000);
+
+    // Never keep the process alive just for the sweep
+    this.timer.unref();
+    Logger.info(`Stock reservation scheduler started (every ${this.intervalSeconds}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      Logger.info('Stock reservation scheduler stopped');
+    }
+  }
+
+  /**
+   * Cancel every pedido holding an expired reservation
+   * Overlapping runs are skipped so a slow sweep cannot pile up
+   */
+  async sweep(now: Date = new Date()): Promise<{ expired: number; failed: number }> {
+    if (this.sweeping) {
+      return { expired: 0, failed: 0 };
+    }
+
+    this.sweeping = true;
+    let expired = 0;
+    let failed = 0;
+
+    try {
+      const pedidoIds = await this.reservaDAO.findExpiredPedidoIds(now);
+
+      for (const pedidoId of pedidoIds) {
+        try {
+          await this.pedidoDAO.updateEstado(pedidoId, 'cancelado', { motivo: RESERVATION_EXPIRED_MOTIVO });
+          expired++;
+        } catch (error) {
+          if (error instanceof PedidoTransitionError) {
+            // The pedido already left pendiente; only its leftover reservations need to go
+            await this.pedidoDAO.withTransaction(transaction => stockReservationService.release(pedidoId, transaction));
+            expired++;
+            continue;
+          }
+
+          failed++;
+          Logger.error(`Error expiring stock reservation of pedido ${pedidoId}:`, error);
+        }
+      }
+
+      if (pedidoIds.length > 0) {
+        Logger.info(`Expired stock reservations swept: ${expired} cancelled, ${failed} failed`);
+      }
+
+      return { expired, failed };
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
+
+export const reservationScheduler = new ReservationScheduler();
+export default reservationScheduler;
@@ -0,0 +1,136 @@
+import { Transaction } from 'sequelize';
+import { config } from '../config';
+import { ProductoDAO } from '../dao/ProductoDAO';
+import { ReservaStockDAO } from '../dao/ReservaStockDAO';
+import { ReservaStock } from '../models/ReservaStock';
+import { Logger } from '../utils/helpers';
+
+/**
+ * Stock reservations of pendiente pedidos
+ * A new pedido only reserves its units (Producto.stockReservado); they leave stock
+ * when the pedido is confirmado, and go back to available when it is cancelled or
+ * its reservation expires. Pedidos created before reservations existed took their
+ * stock directly and have no reservation rows.
+ */
+export class StockReservationService {
+  private productoDAO: ProductoDAO;
+  private reservaDAO: ReservaStockDAO;
+
+  constructor() {
+    this.productoDAO = new ProductoDAO();
+    this.reservaDAO = new ReservaStockDAO();
+  }
+
+  /**
+   * Reserve every line of a new pedido
+   * Productos are reserved in id order so concurrent orders lock rows consistently
+   */
+  async reserve(pedidoId: number, lines: Array<{ productoId: number; cantidad: number }>, transaction: Transaction): Promise<void> {
+    const expiraEn = this.expiry();
+    const ordered = [...lines].sort((a, b) => a.productoId - b.productoId);
+
+    for (const line of ordered) {
+      const producto = await this.productoDAO.reserveStock(line.productoId, line.cantidad, { transaction });
+      if (!producto) {
+        throw new Error(`Producto ${line.productoId} not found`);
+      }
+
+      await this.reservaDAO.create({ pedidoId, productoId: line.productoId, cantidad: line.cantidad, expiraEn }, { transaction });
+    }
+
+    Logger.info(`Stock reserved for pedido ${pedidoId} until ${expiraEn.toISOString()}`);
+  }
+
+  /**
+   * Whether the pedido holds its stock through reservations
+   */
+  async usesReservations(pedidoId: number, transaction: Transaction): Promise<boolean> {
+    const reservas = await this.reservaDAO.findByPedido(pedidoId, { transaction });
+    return reservas.length > 0;
+  }
+
+  /**
+   * Grow (delta > 0) or shrink (delta < 0) the reservation of one producto of a pendiente pedido
+   * Returns false when the producto does not exist
+   */
+  async adjust(pedidoId: number, productoId: number, delta: number, transaction: Transaction): Promise<boolean> {
+    const reservas = await this.reservaDAO.findByPedido(pedidoId, { transaction, lock: true });
+    const activas = reservas.filter(reserva => reserva.estado === 'activa');
+    const reserva = activas.find(item => item.productoId === productoId);
+
+    if (delta > 0) {
+      const producto = await this.productoDAO.reserveStock(productoId, delta, { transaction });
+      if (!producto) {
+        return false;
+      }
+
+      if (reserva) {
+        await this.reservaDAO.update(reserva.id, { cantidad: reserva.cantidad + delta }, { transaction });
+      } else {
+        // New lines expire with the rest of the pedido
+        const expiraEn = activas.length > 0 ? this.earliestExpiry(activas) : this.expiry();
+        await this.reservaDAO.create({ pedidoId, productoId, cantidad: delta, expiraEn }, { transaction });
+      }
+
+      return true;
+    }
+
+    if (delta < 0 && reserva) {
+      await this.productoDAO.releaseReservedStock(productoId, -delta, { transaction });
+
+      const cantidad = reserva.cantidad + delta;
+      await this.reservaDAO.update(reserva.id, cantidad > 0 ? { cantidad } : { estado: 'liberada' }, { transaction });
+    }
+
+    return true;
+  }
+
+  /**
+   * Turn the activa reservations of a pedido into real stock decrements
+   */
+  async consume(pedidoId: number, context: { usuarioId?: number }, transaction: Transaction): Promise<number> {
+    const activas = await this.activeReservations(pedidoId, transaction);
+
+    for (const reserva of activas) {
+      await this.productoDAO.commitReservedStock(reserva.productoId, reserva.cantidad, {
+        transaction,
+        motivo: 'venta',
+        pedidoId,
+        usuarioId: context.usuarioId
+      });
+      await this.reservaDAO.update(reserva.id, { estado: 'consumida' }, { transaction });
+    }
+
+    return activas.length;
+  }
+
+  /**
+   * Give back the activa reservations of a pedido
+   */
+  async release(pedidoId: number, transaction: Transaction): Promise<number> {
+    const activas = await this.activeReservations(pedidoId, transaction);
+
+    for (const reserva of activas) {
+      await this.productoDAO.releaseReservedStock(reserva.productoId, reserva.cantidad, { transaction });
+      await this.reservaDAO.update(reserva.id, { estado: 'liberada' }, { transaction });
+    }
+
+    return activas.length;
+  }
+
+  private async activeReservations(pedidoId: number, transaction: Transaction): Promise<ReservaStock[]> {
+    const reservas = await this.reservaDAO.findByPedido(pedidoId, { transaction, lock: true });
+    return reservas.filter(reserva => reserva.estado === 'activa');
+  }
+
+  private expiry(): Date {
+    return new Date(Date.now() + config.reservations.ttlMinutes * 60 * 1000);
+  }
+
+  private earliestExpiry(reservas: ReservaStock[]): Date {
+    return new Date(Math.min(...reservas.map(reserva => new Date(reserva.expiraEn).getTime())));
+  }
+}
+
+export const stockReservationService = new StockReservationService();
+export default stockReservationService;
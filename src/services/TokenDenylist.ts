@@ -0,0 +1,128 @@
+import { config } from '../config';
+import { Logger } from '../utils/helpers';
+import { TokenPayload } from './TokenService';
+
+/**
+ * Key/value store backing the access-token denylist
+ * Entries only need to live as long as the tokens they revoke, so every write
+ * carries a TTL. A shared store (e.g. Redis) can implement this interface to
+ * make revocations visible to every API instance.
+ */
+export interface DenylistStore {
+  set(key: string, value: number, ttlSeconds: number): Promise<void>;
+  get(key: string): Promise<number | null>;
+}
+
+/**
+ * Default in-process store
+ */
+export class MemoryDenylistStore implements DenylistStore {
+  private entries: Map<string, { value: number; expiresAt: number }> = new Map();
+
+  async set(key: string, value: number, ttlSeconds: number): Promise<void> {
+    this.prune();
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async get(key: string): Promise<number | null> {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Access-token denylist
+ * Revokes single tokens by jti, or every token of a user issued up to a cutoff
+ */
+export class TokenDenylist {
+  private store: DenylistStore;
+
+  constructor(store: DenylistStore = new MemoryDenylistStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Replace the backing store
+   */
+  setStore(store: DenylistStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Revoke a single access token until it expires on its own
+   */
+  async revokeToken(jti: string, exp: number): Promise<void> {
+    const ttl = exp - Math.floor(Date.now() / 1000);
+
+    if (ttl <= 0) {
+      return;
+    }
+
+    await this.store.set(`jti:${jti}`, exp, ttl);
+  }
+
+  /**
+   * Revoke every access token of a user issued up to now
+   * The cutoff is kept in milliseconds, so a login right after it still gets a valid token.
+   */
+  async revokeAllForUser(userId: number): Promise<void> {
+    const cutoff = Date.now();
+
+    await this.store.set(`user:${userId}`, cutoff, TokenDenylist.accessTokenLifetime());
+    Logger.info(`Access tokens revoked for user: ${userId}`);
+  }
+
+  /**
+   * Check whether a decoded access token has been revoked
+   */
+  async isRevoked(payload: TokenPayload): Promise<boolean> {
+    if (payload.jti && await this.store.get(`jti:${payload.jti}`) !== null) {
+      return true;
+    }
+
+    const cutoff = await this.store.get(`user:${payload.id}`);
+    if (cutoff === null) {
+      return false;
+    }
+
+    // Tokens without iatMs only carry iat in seconds: one issued in the cutoff's second is revoked too
+    const issuedAt = payload.iatMs ?? (payload.iat !== undefined ? payload.iat * 1000 : undefined);
+    return issuedAt === undefined || issuedAt <= cutoff;
+  }
+
+  /**
+   * Access token lifetime in seconds, from config.jwt.expiresIn ('3600', '15m', '1h', '7d')
+   */
+  private static accessTokenLifetime(): number {
+    const match = /^(\d+)\s*([smhd]?)$/.exec(String(config.jwt.expiresIn).trim());
+
+    if (!match) {
+      return 24 * 60 * 60;
+    }
+
+    const units: Record<string, number> = { '': 1, s: 1, m: 60, h: 3600, d: 86400 };
+    return parseInt(match[1]) * units[match[2]];
+  }
+}
+
+export const tokenDenylist = new TokenDenylist();
+export default tokenDenylist;
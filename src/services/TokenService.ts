@@ -1,4 +1,5 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { config } from '../config';
 import { Logger } from '../utils/helpers';
 
@@ -7,7 +8,11 @@ export interface TokenPayload {
   email: string;
   rol: string;
   type?: string;
+  jti?: string;
+  family?: string;
   iat?: number;
+  // Issue time in milliseconds; iat only has second precision
+  iatMs?: number;
   exp?: number;
   iss?: string;
   aud?: string;
@@ -17,10 +22,12 @@ export class TokenService {
   /**
    * Generate access token
    */
-  static generateAccessToken(payload: Omit<TokenPayload, 'type' | 'iat' | 'exp' | 'iss' | 'aud'>): string {
+  static generateAccessToken(payload: Omit<TokenPayload, 'type' | 'jti' | 'family' | 'iat' | 'iatMs' | 'exp' | 'iss' | 'aud'>): string {
     const tokenPayload: TokenPayload = {
       ...payload,
-      type: 'access'
+      type: 'access',
+      jti: crypto.randomUUID(),
+      iatMs: Date.now()
     };
 
     return (jwt as any).sign(tokenPayload, config.jwt.secret, {
@@ -32,13 +39,17 @@ export class TokenService {
 
   /**
    * Generate refresh token
+   * jti identifies this token in the refresh_tokens table, family groups every
+   * token rotated from the same login
    */
-  static generateRefreshToken(payload: Pick<TokenPayload, 'id'>): string {
+  static generateRefreshToken(payload: Pick<TokenPayload, 'id'> & { jti: string; family: string }): string {
     const tokenPayload: TokenPayload = {
       id: payload.id,
       email: '', // Required field
       rol: '', // Required field
-      type: 'refresh'
+      type: 'refresh',
+      jti: payload.jti,
+      family: payload.family
     };
 
     return (jwt as any).sign(tokenPayload, config.jwt.refreshSecret, {
@@ -65,6 +76,27 @@ export class TokenService {
     }
   }
 
+  /**
+   * Verify and decode refresh token
+   */
+  static verifyRefreshToken(token: string): TokenPayload {
+    try {
+      const decoded = (jwt as any).verify(token, config.jwt.refreshSecret, {
+        issuer: 'sportsline-api',
+        audience: 'sportsline-client'
+      }) as TokenPayload;
+
+      if (decoded.type !== 'refresh' || !decoded.jti || !decoded.family) {
+        throw new Error('Invalid token type');
+      }
+
+      return decoded;
+    } catch (error) {
+      Logger.error('Refresh token verification failed:', error);
+      throw new Error('Invalid refresh token');
+    }
+  }
+
   /**
    * Decode token without verification (for debugging)
    */
@@ -115,12 +147,15 @@ export class TokenService {
   /**
    * Generate token pair (access + refresh)
    */
-  static generateTokenPair(userPayload: Omit<TokenPayload, 'type' | 'iat' | 'exp' | 'iss' | 'aud'>): {
+  static generateTokenPair(
+    userPayload: Omit<TokenPayload, 'type' | 'jti' | 'family' | 'iat' | 'iatMs' | 'exp' | 'iss' | 'aud'>,
+    refresh: { jti: string; family: string }
+  ): {
     accessToken: string;
     refreshToken: string;
   } {
     const accessToken = this.generateAccessToken(userPayload);
-    const refreshToken = this.generateRefreshToken({ id: userPayload.id });
+    const refreshToken = this.generateRefreshToken({ id: userPayload.id, ...refresh });
 
     return {
       accessToken,
@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import { AnalyticsController } from '../../controllers/AnalyticsController';
+import { ResponseHelper } from '../../utils/helpers';
+
+// Mock dependencies
+jest.mock('../../dao');
+jest.mock('../../utils/helpers');
+
+const MockedResponseHelper = ResponseHelper as any;
+
+describe('AnalyticsController', () => {
+  let analyticsController: AnalyticsController;
+  let daoManager: any;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    analyticsController = new AnalyticsController();
+    daoManager = (analyticsController as any).daoManager;
+
+    mockRequest = {
+      query: {}
+    };
+
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+
+    jest.clearAllMocks();
+  });
+
+  describe('getSalesTimeSeries', () => {
+    it('should default to daily sales buckets of the last 30 days in UTC', async () => {
+      // Arrange
+      const series = { bucket: 'day', series: [], totals: { pedidos: 0, ventas: 0 } };
+      daoManager.getSalesTimeSeries.mockResolvedValue(series);
+
+      // Act
+      await analyticsController.getSalesTimeSeries(mockRequest as Request, mockResponse as Response);
+
+      // Assert
+      const query = daoManager.getSalesTimeSeries.mock.calls[0][0];
+      expect(query).toMatchObject({
+        bucket: 'day',
+        timezone: 'UTC',
+        estados: ['confirmado', 'enviado', 'entregado'],
+        groupBy: undefined
+      });
+      expect(Math.round((query.to - query.from) / (24 * 60 * 60 * 1000))).toBe(30);
+      expect(MockedResponseHelper.success).toHaveBeenCalledWith(mockResponse, series, 'Sales time series retrieved successfully');
+    });
+
+    it('should pass the estado filter and groupBy through', async () => {
+      // Arrange
+      mockRequest.query = {
+        bucket: 'month',
+        from: '2024-01-01T00:00:00Z',
+        to: '2024-07-01T00:00:00Z',
+        timezone: 'America/Bogota',
+        estado: 'pendiente,confirmado',
+        groupBy: 'categoria'
+      };
+      daoManager.getSalesTimeSeries.mockResolvedValue({});
+
+      // Act
+      await analyticsController.getSalesTimeSeries(mockRequest as Request, mockResponse as Response);
+
+      // Assert
+      expect(daoManager.getSalesTimeSeries).toHaveBeenCalledWith({
+        bucket: 'month',
+        from: new Date('2024-01-01T00:00:00Z'),
+        to: new Date('2024-07-01T00:00:00Z'),
+        timezone: 'America/Bogota',
+        estados: ['pendiente', 'confirmado'],
+        groupBy: 'categoria'
+      });
+    });
+
+    it('should reject ranges with too many buckets', async () => {
+      // Arrange
+      mockRequest.query = { bucket: 'day', from: '2020-01-01T00:00:00Z', to: '2024-01-01T00:00:00Z' };
+
+      // Act
+      await analyticsController.getSalesTimeSeries(mockRequest as Request, mockResponse as Response);
+
+      // Assert
+      expect(MockedResponseHelper.validationError).toHaveBeenCalledWith(mockResponse, expect.stringContaining('Range too large'));
+      expect(daoManager.getSalesTimeSeries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('globalSearch', () => {
+    it('should search within what the caller may see', async () => {
+      // Arrange
+      const user = { id: 7, email: 'vendedor@sportsline.com', rol: 'vendedor' };
+      mockRequest.query = { q: ' juan ', limit: '500' };
+      (mockRequest as any).user = user;
+      daoManager.globalSearch.mockResolvedValue({ results: [], totals: {}, totalResults: 0 });
+
+      // Act
+      await analyticsController.globalSearch(mockRequest as Request, mockResponse as Response);
+
+      // Assert
+      expect(daoManager.globalSearch).toHaveBeenCalledWith('juan', 50, user);
+      expect(MockedResponseHelper.success).toHaveBeenCalledWith(
+        mockResponse,
+        { results: [], totals: {}, totalResults: 0, searchTerm: 'juan' },
+        'Global search completed successfully'
+      );
+    });
+  });
+});
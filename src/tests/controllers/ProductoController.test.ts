@@ -66,7 +66,7 @@ describe('ProductoController', () => {
 
       // Assert
       expect(MockedProductoDAO.prototype.codeExists).toHaveBeenCalledWith(productoData.codigo);
-      expect(MockedProductoDAO.prototype.create).toHaveBeenCalledWith(productoData);
+      expect(MockedProductoDAO.prototype.create).toHaveBeenCalledWith(productoData, { usuarioId: 1 });
       expect(MockedResponseHelper.success).toHaveBeenCalledWith(
         mockResponse,
         mockCreatedProducto,
@@ -344,7 +344,7 @@ describe('ProductoController', () => {
       await productoController.updateProducto(mockRequest as Request, mockResponse as Response);
 
       // Assert
-      expect(MockedProductoDAO.prototype.update).toHaveBeenCalledWith(1, updateData);
+      expect(MockedProductoDAO.prototype.update).toHaveBeenCalledWith(1, updateData, { usuarioId: 1 });
       expect(MockedResponseHelper.success).toHaveBeenCalledWith(
         mockResponse,
         mockUpdatedProducto,
@@ -450,7 +450,7 @@ describe('ProductoController', () => {
       await productoController.updateStock(mockRequest as Request, mockResponse as Response);
 
       // Assert
-      expect(MockedProductoDAO.prototype.updateStock).toHaveBeenCalledWith(1, 10, 'add');
+      expect(MockedProductoDAO.prototype.updateStock).toHaveBeenCalledWith(1, 10, 'add', { motivo: undefined, usuarioId: 1 });
       expect(MockedResponseHelper.success).toHaveBeenCalledWith(
         mockResponse,
         mockProducto,
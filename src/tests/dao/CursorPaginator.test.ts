@@ -0,0 +1,85 @@
+import { Op } from 'sequelize';
+import { CursorPaginator, CursorError, parseCursorQuery } from '../../dao/CursorPaginator';
+
+describe('CursorPaginator', () => {
+  const row = (id: number, createdAt: string) => ({
+    get: (key: string) => (key === 'id' ? id : new Date(createdAt))
+  });
+
+  const model = (rows: any[]) => ({ findAll: jest.fn().mockResolvedValue(rows) }) as any;
+
+  it('should read limit + 1 rows and hand out a cursor to the next page', async () => {
+    // Arrange
+    const pedidos = model([row(9, '2024-03-09T00:00:00Z'), row(8, '2024-03-08T00:00:00Z'), row(7, '2024-03-07T00:00:00Z')]);
+
+    // Act
+    const { rows, pageInfo } = await CursorPaginator.findPage(pedidos, {
+      order: ['createdAt', 'DESC'],
+      page: { limit: 2 }
+    });
+
+    // Assert
+    expect(pedidos.findAll).toHaveBeenCalledWith(expect.objectContaining({
+      order: [['createdAt', 'DESC'], ['id', 'DESC']],
+      limit: 3
+    }));
+    expect(rows).toHaveLength(2);
+    expect(pageInfo.hasMore).toBe(true);
+    expect(pageInfo.prevCursor).toBeNull();
+    expect(CursorPaginator.decode(pageInfo.nextCursor!, 'createdAt:DESC')).toEqual({ value: '2024-03-08T00:00:00.000Z', id: 8 });
+  });
+
+  it('should continue strictly after the cursor on (sort, id)', async () => {
+    // Arrange
+    const pedidos = model([row(6, '2024-03-06T00:00:00Z')]);
+    const after = CursorPaginator.encode('createdAt:DESC', new Date('2024-03-08T00:00:00Z'), 8);
+
+    // Act
+    const { pageInfo } = await CursorPaginator.findPage(pedidos, {
+      order: ['createdAt', 'DESC'],
+      page: { limit: 2, after }
+    });
+
+    // Assert
+    const where = pedidos.findAll.mock.calls[0][0].where[Op.and];
+    expect(where[1]).toEqual({
+      [Op.or]: [
+        { createdAt: { [Op.lt]: '2024-03-08T00:00:00.000Z' } },
+        { createdAt: '2024-03-08T00:00:00.000Z', id: { [Op.lt]: 8 } }
+      ]
+    });
+    expect(pageInfo.hasMore).toBe(false);
+    expect(pageInfo.nextCursor).toBeNull();
+    expect(pageInfo.prevCursor).not.toBeNull();
+  });
+
+  it('should read backwards from a before cursor and return rows in list order', async () => {
+    // Arrange
+    const pedidos = model([row(5, '2024-03-05T00:00:00Z'), row(6, '2024-03-06T00:00:00Z')]);
+    const before = CursorPaginator.encode('createdAt:DESC', new Date('2024-03-04T00:00:00Z'), 4);
+
+    // Act
+    const { rows, pageInfo } = await CursorPaginator.findPage(pedidos, {
+      order: ['createdAt', 'DESC'],
+      page: { limit: 2, before }
+    });
+
+    // Assert
+    expect(pedidos.findAll.mock.calls[0][0].order).toEqual([['createdAt', 'ASC'], ['id', 'ASC']]);
+    expect(rows.map((item: any) => item.get('id'))).toEqual([6, 5]);
+    expect(pageInfo.nextCursor).not.toBeNull();
+  });
+
+  it('should refuse cursors that are malformed or issued for another sort', () => {
+    const cursor = CursorPaginator.encode('nombre:ASC', 'Balón', 3);
+
+    expect(() => CursorPaginator.decode('not-a-cursor', 'nombre:ASC')).toThrow(CursorError);
+    expect(() => CursorPaginator.decode(cursor, 'createdAt:DESC')).toThrow('Cursor does not match the requested sort');
+  });
+
+  it('should only switch to cursor mode when asked', () => {
+    expect(parseCursorQuery({ page: '2', limit: '10' })).toBeNull();
+    expect(parseCursorQuery({ pagination: 'cursor', limit: '25' })).toEqual({ limit: 25, after: undefined, before: undefined });
+    expect(parseCursorQuery({ after: 'abc' })).toEqual({ limit: 10, after: 'abc', before: undefined });
+  });
+});
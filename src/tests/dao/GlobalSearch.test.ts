@@ -0,0 +1,26 @@
+import { foldSearchText, highlightMatch } from '../../dao/GlobalSearch';
+
+describe('GlobalSearch', () => {
+  it('should fold text the way unaccent(lower()) does', () => {
+    expect(foldSearchText('Balón PEÑA')).toBe('balon pena');
+  });
+
+  it('should highlight the match ignoring accents and case, keeping the original text', () => {
+    expect(highlightMatch('Juan Pérez', 'perez')).toBe('Juan <mark>Pérez</mark>');
+    expect(highlightMatch('Balón de fútbol', 'BALON')).toBe('<mark>Balón</mark> de fútbol');
+  });
+
+  it('should escape the stored text around the <mark> tags', () => {
+    expect(highlightMatch('<script>alert(1)</script> Ropa & Calzado', 'ropa & cal'))
+      .toBe('&lt;script&gt;alert(1)&lt;/script&gt; <mark>Ropa &amp; Cal</mark>zado');
+    expect(highlightMatch('<b>sin coincidencia</b>', 'zzz')).toBe('&lt;b&gt;sin coincidencia&lt;/b&gt;');
+  });
+
+  it('should trim long text around the match', () => {
+    const observaciones = `${'a'.repeat(60)} entregar en porteria ${'b'.repeat(60)}`;
+
+    const highlight = highlightMatch(observaciones, 'porteria');
+
+    expect(highlight).toBe(`…${'a'.repeat(27)} entregar en <mark>porteria</mark> ${'b'.repeat(39)}…`);
+  });
+});
@@ -0,0 +1,60 @@
+import { Op } from 'sequelize';
+import { ListQueryError, ListQuerySpec, combineWhere, cursorOrder, parseListQuery } from '../../dao/ListQuery';
+
+describe('ListQuery', () => {
+  const spec: ListQuerySpec = {
+    filters: {
+      estado: { type: 'string', values: ['pendiente', 'confirmado', 'cancelado'] },
+      total: { type: 'number' },
+      clienteId: { type: 'integer' },
+      fecha: { type: 'date' },
+      nombre: { type: 'string' }
+    },
+    sort: ['fecha', 'total']
+  };
+
+  it('should translate filter operators and sort into Sequelize clauses', () => {
+    // Act
+    const { where, order } = parseListQuery({
+      filter: {
+        total: { gte: '100', lt: '500.5' },
+        estado: { in: 'pendiente,confirmado' },
+        clienteId: '7'
+      },
+      sort: '-fecha,total'
+    }, spec);
+
+    // Assert
+    expect(where).toEqual({
+      total: { [Op.gte]: 100, [Op.lt]: 500.5 },
+      estado: { [Op.in]: ['pendiente', 'confirmado'] },
+      clienteId: { [Op.eq]: 7 }
+    });
+    expect(order).toEqual([['fecha', 'DESC'], ['total', 'ASC']]);
+  });
+
+  it('should escape like patterns', () => {
+    const { where } = parseListQuery({ filter: { nombre: { like: '50%_off' } } }, spec);
+
+    expect(where).toEqual({ nombre: { [Op.iLike]: '%50\\%\\_off%' } });
+  });
+
+  it('should reject fields, operators and values outside the whitelist', () => {
+    expect(() => parseListQuery({ filter: { password: 'x' } }, spec)).toThrow('Filtering by "password" is not allowed');
+    expect(() => parseListQuery({ filter: { fecha: { like: '2024' } } }, spec)).toThrow('Operator "like" is not allowed on "fecha"');
+    expect(() => parseListQuery({ filter: { estado: 'borrado' } }, spec)).toThrow(ListQueryError);
+    expect(() => parseListQuery({ filter: { clienteId: { gt: '1.5' } } }, spec)).toThrow('"clienteId" must be an integer');
+    expect(() => parseListQuery({ sort: 'estado' }, spec)).toThrow('Sorting by "estado" is not allowed');
+  });
+
+  it('should only AND together non-empty clauses', () => {
+    expect(combineWhere({}, { total: 1 })).toEqual({ total: 1 });
+    expect(combineWhere({ estado: 'pendiente' }, { total: 1 })).toEqual({ [Op.and]: [{ estado: 'pendiente' }, { total: 1 }] });
+  });
+
+  it('should key cursor pages on a single sort field', () => {
+    expect(cursorOrder([], ['createdAt', 'DESC'])).toEqual(['createdAt', 'DESC']);
+    expect(cursorOrder([['total', 'ASC']], ['createdAt', 'DESC'])).toEqual(['total', 'ASC']);
+    expect(() => cursorOrder([['fecha', 'DESC'], ['total', 'ASC']], ['createdAt', 'DESC'])).toThrow(ListQueryError);
+  });
+});
@@ -0,0 +1,48 @@
+import { PedidoDAO } from '../../dao/PedidoDAO';
+import { Pedido } from '../../models/Pedido';
+
+jest.mock('../../utils/helpers');
+
+describe('PedidoDAO', () => {
+  describe('getSalesTimeSeries', () => {
+    it('should end the buckets before a `to` that falls on a bucket boundary', async () => {
+      // Arrange
+      const query = jest.fn().mockResolvedValue([{ bucket: '2026-10-07', grupoId: null, grupo: null, pedidos: '2', ventas: '150.50' }]);
+      (Pedido as any).sequelize = { query };
+
+      // Act
+      const rows = await new PedidoDAO().getSalesTimeSeries({
+        bucket: 'day',
+        from: new Date('2026-10-01T00:00:00Z'),
+        to: new Date('2026-10-08T00:00:00Z'),
+        timezone: 'UTC',
+        estados: ['confirmado']
+      });
+
+      // Assert
+      const [sql, options] = query.mock.calls[0];
+      expect(sql).toContain('date_trunc(:bucket, CAST(:until AS timestamptz) AT TIME ZONE :timezone)');
+      expect(sql).toContain('p.fecha < :to');
+      expect(options.replacements.until).toEqual(new Date('2026-10-07T23:59:59.999Z'));
+      expect(rows).toEqual([{ bucket: '2026-10-07', grupoId: null, grupo: null, pedidos: 2, ventas: 150.5 }]);
+    });
+  });
+
+  describe('findByCliente', () => {
+    it('should eager-load detalles, productos, cliente and usuario in one query', async () => {
+      // Arrange
+      const findAll = jest.fn().mockResolvedValue([{ toJSON: () => ({ id: 1 }) }]);
+      (Pedido as any).findAll = findAll;
+
+      // Act
+      const pedidos = await new PedidoDAO().findByCliente(1);
+
+      // Assert
+      expect(findAll).toHaveBeenCalledTimes(1);
+      const { include } = findAll.mock.calls[0][0];
+      expect(include.map((item: any) => item.as)).toEqual(['detalles', 'cliente', 'usuario']);
+      expect(include[0].include.map((item: any) => item.as)).toEqual(['producto']);
+      expect(pedidos).toEqual([{ id: 1 }]);
+    });
+  });
+});
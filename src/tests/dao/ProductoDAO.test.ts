@@ -0,0 +1,137 @@
+import { ProductoDAO, headlineToHtml, toSearchQuery } from '../../dao/ProductoDAO';
+import { Producto } from '../../models/Producto';
+import { MovimientoInventario } from '../../models/MovimientoInventario';
+
+jest.mock('../../utils/helpers');
+
+describe('ProductoDAO', () => {
+  describe('toSearchQuery', () => {
+    it('should AND the words and prefix-match the last one for typeahead', () => {
+      expect(toSearchQuery('balon fut')).toBe('balon & fut:*');
+      expect(toSearchQuery('Balón')).toBe('Balón:*');
+    });
+
+    it('should drop tsquery operators and punctuation from the input', () => {
+      expect(toSearchQuery("camiseta | !talla & 'M'")).toBe('camiseta & talla & M:*');
+      expect(toSearchQuery('FUT-001')).toBe('FUT & 001:*');
+    });
+
+    it('should return null when there is nothing to search for', () => {
+      expect(toSearchQuery(' !! ')).toBeNull();
+    });
+  });
+
+  describe('headlineToHtml', () => {
+    it('should escape the stored text and turn the ts_headline marks into <mark> tags', () => {
+      expect(headlineToHtml('<img src=x onerror=alert(1)> \u0002Balón\u0003 & más')).toBe('&lt;img src=x onerror=alert(1)&gt; <mark>Balón</mark> &amp; más');
+    });
+  });
+
+  describe('stock floor', () => {
+    let dao: ProductoDAO;
+    let producto: any;
+
+    beforeEach(() => {
+      dao = new ProductoDAO();
+      producto = { id: 1, codigo: 'FUT-001', stock: 10, stockReservado: 4, update: jest.fn() };
+      (Producto as any).sequelize = { transaction: (work: any) => work({}) };
+      (Producto.findByPk as jest.Mock).mockResolvedValue(producto);
+      (MovimientoInventario.create as jest.Mock).mockResolvedValue({});
+    });
+
+    it('should stop a subtraction at the reserved units', async () => {
+      await dao.updateStock(1, 8, 'subtract');
+
+      expect(producto.update).toHaveBeenCalledWith({ stock: 4 }, expect.anything());
+    });
+
+    it('should refuse to set stock below the reserved units', async () => {
+      await expect(dao.updateStock(1, 3, 'set')).rejects.toThrow('Insufficient stock. Reserved: 4, Requested: 3');
+      await expect(dao.update(1, { stock: 2 })).rejects.toThrow('Insufficient stock. Reserved: 4, Requested: 2');
+
+      expect(producto.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordMovement', () => {
+    let dao: ProductoDAO;
+    let movimientos: jest.Mock;
+
+    const recorded = () => movimientos.mock.calls.map(([row]) => row);
+
+    const movimiento = (delta: number, stockResultante: number, motivo: string, context: { pedidoId?: number; usuarioId?: number } = {}) => ({
+      productoId: 1, delta, stockResultante, motivo, pedidoId: context.pedidoId ?? null, usuarioId: context.usuarioId ?? null
+    });
+
+    beforeEach(() => {
+      dao = new ProductoDAO();
+      (Producto as any).sequelize = {
+        transaction: (work: any) => work({}),
+        literal: (sql: string) => sql,
+        escape: (value: unknown) => String(value),
+        where: () => ({})
+      };
+      // The mocked models share their static methods; the kardex gets its own create
+      movimientos = jest.fn().mockResolvedValue({});
+      (MovimientoInventario as any).create = movimientos;
+    });
+
+    it('should record the initial stock of a new producto as a recepcion', async () => {
+      // Arrange
+      jest.spyOn(Producto, 'create')
+        .mockResolvedValueOnce({ id: 1, codigo: 'FUT-001', stock: 12 } as any)
+        .mockResolvedValueOnce({ id: 2, codigo: 'FUT-002', stock: 0 } as any);
+
+      // Act
+      await dao.create({ codigo: 'FUT-001', stock: 12 } as any, { usuarioId: 7 });
+      await dao.create({ codigo: 'FUT-002', stock: 0 } as any, { usuarioId: 7 });
+
+      // Assert
+      expect(recorded()).toEqual([movimiento(12, 12, 'recepcion', { usuarioId: 7 })]);
+    });
+
+    it('should record the signed change of every stock update and skip the ones that change nothing', async () => {
+      // Arrange
+      const producto: any = { id: 1, codigo: 'FUT-001', stock: 10, stockReservado: 0 };
+      producto.update = jest.fn(async (values: object) => Object.assign(producto, values));
+      jest.spyOn(Producto, 'findByPk').mockResolvedValue(producto);
+
+      // Act
+      await dao.updateStock(1, 5, 'add', { motivo: 'recepcion', usuarioId: 7 });
+      await dao.updateStock(1, 3, 'subtract', { usuarioId: 7 });
+      await dao.updateStock(1, 12, 'set', { usuarioId: 7 });
+      await dao.updateStock(1, 4, 'set', { usuarioId: 7 });
+      await dao.update(1, { stock: 4, nombre: 'Balón' }, { usuarioId: 7 });
+      await dao.update(1, { stock: 9 }, { usuarioId: 7 });
+
+      // Assert
+      expect(recorded()).toEqual([
+        movimiento(5, 15, 'recepcion', { usuarioId: 7 }),
+        movimiento(-3, 12, 'ajuste_manual', { usuarioId: 7 }),
+        movimiento(-8, 4, 'ajuste_manual', { usuarioId: 7 }),
+        movimiento(5, 9, 'ajuste_manual', { usuarioId: 7 })
+      ]);
+    });
+
+    it('should record sales, returns and committed reservations with their pedido', async () => {
+      // Arrange
+      jest.spyOn(Producto, 'update')
+        .mockResolvedValueOnce([1, [{ id: 1, codigo: 'FUT-001', stock: 8 }]] as any)
+        .mockResolvedValueOnce([1, [{ id: 1, codigo: 'FUT-001', stock: 10 }]] as any)
+        .mockResolvedValueOnce([1, [{ id: 1, codigo: 'FUT-001', stock: 7 }]] as any);
+      const context = { pedidoId: 5, usuarioId: 7 };
+
+      // Act
+      await dao.reduceStock(1, 2, context);
+      await dao.increaseStock(1, 2, { ...context, motivo: 'cancelacion' });
+      await dao.commitReservedStock(1, 3, { ...context, motivo: 'venta' });
+
+      // Assert
+      expect(recorded()).toEqual([
+        movimiento(-2, 8, 'venta', context),
+        movimiento(2, 10, 'cancelacion', context),
+        movimiento(-3, 7, 'venta', context)
+      ]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Migrator } from '../../database/migrator';
+
+describe('Migrator', () => {
+  let directory: string;
+
+  const sequelize = (applied: string[]) => ({
+    getQueryInterface: () => ({ createTable: jest.fn() }),
+    query: jest.fn().mockResolvedValue(applied.map(name => ({ name, appliedAt: '2026-10-19T00:00:00Z' })))
+  }) as any;
+
+  // In-memory schema with just enough of QueryInterface to run the real migrations
+  const database = (tables: Record<string, string[]>) => {
+    const columns = new Map(Object.entries(tables).map(([table, names]) => [table, new Set(names)]));
+    const applied: string[] = [];
+    const statements: string[] = [];
+
+    const query = jest.fn(async (sql: string, options: any = {}) => {
+      if (sql.startsWith('SELECT name')) {
+        return applied.map(name => ({ name, appliedAt: '2026-10-19T00:00:00Z' }));
+      }
+      if (sql.startsWith('INSERT INTO migrations')) {
+        applied.push(options.replacements.name);
+      }
+      statements.push(sql.trim());
+      return [];
+    });
+
+    const queryInterface = {
+      sequelize: { query },
+      tableExists: jest.fn(async (table: string) => columns.has(table)),
+      createTable: jest.fn(async (table: string, attributes: object) => {
+        if (!columns.has(table)) {
+          columns.set(table, new Set(Object.keys(attributes)));
+        }
+      }),
+      describeTable: jest.fn(async (table: string) => Object.fromEntries([...columns.get(table)!].map(column => [column, {}]))),
+      addColumn: jest.fn(async (table: string, column: string) => {
+        columns.get(table)!.add(column);
+      }),
+      addIndex: jest.fn()
+    };
+
+    const sequelize = { getQueryInterface: () => queryInterface, query, transaction: (fn: any) => fn({}) } as any;
+    return { sequelize, queryInterface, columns, statements };
+  };
+
+  // Columns of the tables sequelize.sync() created before migrations existed
+  const syncedTables = {
+    usuarios: ['id', 'nombre', 'email', 'password', 'rol', 'activo', 'createdAt', 'updatedAt'],
+    productos: ['id', 'codigo', 'nombre', 'descripcion', 'precio', 'stock', 'categoria', 'activo', 'createdAt', 'updatedAt'],
+    clientes: ['id', 'nombre', 'email', 'telefono', 'direccion', 'documento', 'tipoDocumento', 'activo', 'createdAt', 'updatedAt'],
+    pedidos: ['id', 'clienteId', 'usuarioId', 'fecha', 'total', 'estado', 'observaciones', 'createdAt', 'updatedAt'],
+    detalle_pedidos: ['id', 'pedidoId', 'productoId', 'cantidad', 'precioUnitario', 'subtotal', 'createdAt', 'updatedAt']
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should list migration files in name order and report the ones not applied', async () => {
+    // Arrange
+    for (const file of ['20261019000200-b.ts', '20261019000100-a.ts', '20261019000300-c.js', 'README.md', '20261019000100-a.d.ts']) {
+      fs.writeFileSync(path.join(directory, file), '');
+    }
+    const migrator = new Migrator(sequelize(['20261019000100-a']), directory);
+
+    // Act
+    const status = await migrator.status();
+    const pending = await migrator.pending();
+
+    // Assert
+    expect(status.map(migration => migration.name)).toEqual(['20261019000100-a', '20261019000200-b', '20261019000300-c']);
+    expect(status[0].appliedAt).toEqual(new Date('2026-10-19T00:00:00Z'));
+    expect(pending).toEqual(['20261019000200-b', '20261019000300-c']);
+  });
+
+  it('should create a timestamped migration file from the given name', () => {
+    const file = new Migrator(sequelize([]), directory).create('Add Pedidos Notas');
+
+    expect(path.basename(file)).toMatch(/^\d{14}-add-pedidos-notas\.ts$/);
+    expect(fs.readFileSync(file, 'utf8')).toContain('const migration: Migration');
+    expect(() => new Migrator(sequelize([]), directory).create('!!!')).toThrow('Migration name must contain letters or digits');
+  });
+
+  it('should add the later columns to tables created by sequelize.sync()', async () => {
+    // Arrange
+    const synced = database(syncedTables);
+    const fresh = database({});
+
+    // Act
+    await new Migrator(synced.sequelize).up();
+    await new Migrator(fresh.sequelize).up();
+
+    // Assert
+    expect(synced.queryInterface.createTable).not.toHaveBeenCalledWith('pedidos', expect.anything(), expect.anything());
+    expect([...synced.columns.get('pedidos')!]).toEqual(expect.arrayContaining(['datosCifrados', 'claveId', 'referenciaEnvio']));
+    expect([...synced.columns.get('productos')!]).toContain('stockReservado');
+    expect(synced.statements).toContain('CREATE INDEX IF NOT EXISTS pedidos_clave_id ON pedidos ("claveId")');
+    // Adopted and fresh databases end up with the same columns
+    for (const table of ['pedidos', 'productos']) {
+      expect([...synced.columns.get(table)!].sort()).toEqual([...fresh.columns.get(table)!].sort());
+    }
+    expect(await new Migrator(synced.sequelize).pending()).toEqual([]);
+  });
+
+  it('should not add columns a newer sequelize.sync() already created', async () => {
+    // Arrange
+    const synced = database({
+      ...syncedTables,
+      productos: [...syncedTables.productos, 'stockReservado'],
+      pedidos: [...syncedTables.pedidos, 'datosCifrados', 'claveId', 'referenciaEnvio']
+    });
+
+    // Act
+    await new Migrator(synced.sequelize).up();
+
+    // Assert
+    expect(synced.queryInterface.addColumn).not.toHaveBeenCalled();
+    expect(await new Migrator(synced.sequelize).pending()).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import { VALIDATION } from '../../constants';
+import { SeededRandom } from '../../database/seeds/SeededRandom';
+import { generateClientes, generatePedidoPlans, generateProductos, nitCheckDigit } from '../../database/seeds/generators';
+
+describe('seed generators', () => {
+  it('should generate the same dataset for the same seed', () => {
+    expect(generateClientes(new SeededRandom(7), 20)).toEqual(generateClientes(new SeededRandom(7), 20));
+    expect(generateProductos(new SeededRandom(7), 20, 50)).toEqual(generateProductos(new SeededRandom(7), 20, 50));
+    expect(generateClientes(new SeededRandom(7), 5)).not.toEqual(generateClientes(new SeededRandom(8), 5));
+  });
+
+  it('should generate clientes with unique documentos in valid formats', () => {
+    // Act
+    const clientes = generateClientes(new SeededRandom(1), 300);
+
+    // Assert
+    const patterns = { cedula: VALIDATION.CEDULA_PATTERN, pasaporte: VALIDATION.PASAPORTE_PATTERN, nit: VALIDATION.NIT_PATTERN };
+    for (const cliente of clientes) {
+      expect(cliente.documento).toMatch(patterns[cliente.tipoDocumento]);
+      expect(cliente.telefono).toMatch(VALIDATION.PHONE_PATTERN);
+      expect(cliente.email).toMatch(VALIDATION.EMAIL_PATTERN);
+    }
+    expect(new Set(clientes.map(cliente => cliente.documento)).size).toBe(300);
+    expect(new Set(clientes.map(cliente => cliente.tipoDocumento))).toEqual(new Set(['cedula', 'pasaporte', 'nit']));
+  });
+
+  it('should compute the NIT verification digit', () => {
+    expect(nitCheckDigit('800197268')).toBe(4);
+    expect(nitCheckDigit('890900608')).toBe(9);
+  });
+
+  it('should spread productos across categories with valid, unique codes', () => {
+    const productos = generateProductos(new SeededRandom(1), 30, 40);
+
+    expect(productos.every(producto => VALIDATION.PRODUCT_CODE_PATTERN.test(producto.codigo))).toBe(true);
+    expect(new Set(productos.map(producto => producto.codigo)).size).toBe(30);
+    expect(new Set(productos.map(producto => producto.categoria)).size).toBe(7);
+    expect(Math.min(...productos.map(producto => producto.stock))).toBeGreaterThanOrEqual(40);
+  });
+
+  it('should plan pedidos oldest first, leaving only recent ones pendiente', () => {
+    // Arrange
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    // Act
+    const plans = generatePedidoPlans(new SeededRandom(3), {
+      count: 200, clienteIds: [1, 2, 3], productoIds: [10, 11, 12, 13, 14], usuarioIds: [5, 6], days: 60, now
+    });
+
+    // Assert
+    expect(plans.map(plan => plan.key)).toEqual(Array.from({ length: 200 }, (_, i) => i + 1));
+    expect(plans.every((plan, i) => i === 0 || plans[i - 1].fecha <= plan.fecha)).toBe(true);
+    for (const plan of plans) {
+      expect(new Set(plan.productos.map(item => item.productoId)).size).toBe(plan.productos.length);
+      if (plan.transitions.length === 0) {
+        expect(now.getTime() - plan.fecha.getTime()).toBeLessThan(2 * 24 * 60 * 60 * 1000);
+      }
+    }
+  });
+});
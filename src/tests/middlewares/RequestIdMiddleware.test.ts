@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import { RequestIdMiddleware } from '../../middlewares/RequestIdMiddleware';
+import { ErrorMiddleware } from '../../middlewares/ErrorMiddleware';
+import { Logger } from '../../utils/helpers';
+import { getRequestId } from '../../utils/logger';
+
+describe('RequestIdMiddleware', () => {
+  const request = (header?: string) => ({ get: jest.fn().mockReturnValue(header) }) as any;
+  const response = () => {
+    const res: any = { headersSent: false, setHeader: jest.fn() };
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res;
+  };
+
+  beforeEach(() => {
+    (crypto as any).randomUUID = jest.fn().mockReturnValue('generated-id');
+    Logger.configure({ level: 'silent' });
+  });
+
+  it('should reuse a valid incoming id and run the request in its context', () => {
+    // Arrange
+    const req = request('abc-123');
+    const res = response();
+    let seen: string | undefined;
+
+    // Act
+    RequestIdMiddleware.assign(req, res, () => {
+      seen = getRequestId();
+    });
+
+    // Assert
+    expect(seen).toBe('abc-123');
+    expect(req.requestId).toBe('abc-123');
+    expect(res.setHeader).toHaveBeenCalledWith('X-Request-Id', 'abc-123');
+  });
+
+  it('should replace a missing or malformed id with a new one', () => {
+    const req = request('bad id\r\nInjected: yes');
+
+    RequestIdMiddleware.assign(req, response(), () => undefined);
+
+    expect(req.requestId).toBe('generated-id');
+  });
+
+  it('should include the request id in error responses', () => {
+    // Arrange
+    const req = request('abc-123');
+    const res = response();
+
+    // Act
+    ErrorMiddleware.errorHandler(Object.assign(new Error('Pedido not found'), { statusCode: 404 }), req, res, jest.fn());
+
+    // Assert
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'Pedido not found', requestId: 'abc-123' }));
+  });
+});
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import express from 'express';
+import request from 'supertest';
+import encryptionRoutes from '../../routes/encryption';
+
+// Real HTTP handling and key generation for a round trip through the routes
+jest.unmock('express');
+jest.unmock('crypto');
+
+const mockUser = { id: 2, email: 'vendedor@sportsline.com', rol: 'vendedor' };
+
+jest.mock('../../middlewares/AuthMiddleware', () => ({
+  AuthMiddleware: jest.fn().mockImplementation(() => ({
+    verifyToken: (req: any, res: any, next: any) => {
+      req.user = mockUser;
+      next();
+    },
+    requireAdmin: (req: any, res: any, next: any) => (req.user.rol === 'admin' ? next() : res.status(403).json({ success: false })),
+    requireAdminOrVendedor: (req: any, res: any, next: any) => next()
+  }))
+}));
+
+describe('Encryption routes', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/encryption', encryptionRoutes);
+
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+
+  it('should decrypt the envelope returned by /encrypt, as a string or an object', async () => {
+    // Arrange
+    const data = { documento: '1020304050', observaciones: 'Entregar en portería' };
+    const encrypted = await request(app).post('/api/encryption/encrypt').send({ data, publicKey });
+
+    // Act
+    const fromString = await request(app).post('/api/encryption/decrypt')
+      .send({ envelope: encrypted.body.data.envelope, privateKey });
+    const fromObject = await request(app).post('/api/encryption/decrypt')
+      .send({ envelope: JSON.parse(encrypted.body.data.envelope), privateKey });
+
+    // Assert
+    expect(encrypted.status).toBe(200);
+    expect(fromString.status).toBe(200);
+    expect(fromString.body.data.decryptedData).toEqual(data);
+    expect(fromObject.body.data.decryptedData).toEqual(data);
+  });
+
+  it('should require a privateKey from non-admin users', async () => {
+    // Arrange
+    const encrypted = await request(app).post('/api/encryption/encrypt').send({ data: { documento: '1020304050' }, publicKey });
+
+    // Act
+    const response = await request(app).post('/api/encryption/decrypt').send({ envelope: encrypted.body.data.envelope });
+
+    // Assert
+    expect(response.status).toBe(403);
+    expect(response.body.message).toBe('privateKey is required');
+  });
+
+  it('should reject a decrypt request without an envelope', async () => {
+    const response = await request(app).post('/api/encryption/decrypt').send({ encryptedData: 'abc', privateKey });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,77 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { startServer } from '../server';
+import { database } from '../database/connection';
+import { healthService } from '../services/HealthService';
+
+// express is mocked globally; these tests serve plain request listeners instead
+jest.mock('../app', () => ({ createApp: jest.fn() }));
+
+function get(port: number, path: string): Promise<{ status?: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port, path }, (res) => {
+      let body = '';
+      res.on('data', chunk => { body += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode, body }));
+    }).on('error', reject);
+  });
+}
+
+describe('startServer', () => {
+  it('should run startup hooks in order and not listen when one fails', async () => {
+    // Arrange
+    const ran: string[] = [];
+    const hooks = [
+      { name: 'config', run: () => { ran.push('config'); } },
+      { name: 'database', run: async () => { ran.push('database'); throw new Error('connection refused'); } },
+      { name: 'keys', run: () => { ran.push('keys'); } }
+    ];
+    const listen = jest.spyOn(http.Server.prototype, 'listen');
+
+    // Act & Assert
+    await expect(startServer({ app: jest.fn(), port: 0, hooks })).rejects.toThrow('connection refused');
+    expect(ran).toEqual(['config', 'database']);
+    expect(listen).not.toHaveBeenCalled();
+  });
+
+  it('should let requests in flight finish before closing the database pool', async () => {
+    // Arrange
+    let arrived!: () => void;
+    const requestArrived = new Promise<void>(resolve => { arrived = resolve; });
+    const app: http.RequestListener = (req, res) => {
+      arrived();
+      setTimeout(() => res.end('{"done":true}'), 100);
+    };
+    const { server, shutdown } = await startServer({ app, port: 0, hooks: [], shutdownTimeoutMs: 2000 });
+    const { port } = server.address() as AddressInfo;
+
+    // Act
+    const response = get(port, '/slow');
+    await requestArrived;
+    await shutdown('test');
+
+    // Assert
+    await expect(response).resolves.toEqual({ status: 200, body: '{"done":true}' });
+    expect(server.listening).toBe(false);
+    expect(database.getSequelize().close).toHaveBeenCalledTimes(1);
+    expect((await healthService.readiness()).status).toBe('not_ready');
+  });
+
+  it('should drop requests still running at the shutdown deadline', async () => {
+    // Arrange
+    let arrived!: () => void;
+    const requestArrived = new Promise<void>(resolve => { arrived = resolve; });
+    const app: http.RequestListener = () => arrived();
+    const { server, shutdown } = await startServer({ app, port: 0, hooks: [], shutdownTimeoutMs: 50 });
+    const { port } = server.address() as AddressInfo;
+
+    // Act
+    const response = get(port, '/hang');
+    await requestArrived;
+    await shutdown('test');
+
+    // Assert
+    await expect(response).rejects.toThrow('socket hang up');
+    expect(server.listening).toBe(false);
+  });
+});
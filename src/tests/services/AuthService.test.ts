@@ -1,11 +1,15 @@
 import { AuthService } from '../../services/AuthService';
 import { UsuarioDAO } from '../../dao/UsuarioDAO';
 import { TokenService } from '../../services/TokenService';
+import { Usuario } from '../../models/Usuario';
 import { Logger } from '../../utils/helpers';
+import { tokenDenylist } from '../../services/TokenDenylist';
 
 // Mock dependencies
 jest.mock('../../dao/UsuarioDAO');
+jest.mock('../../dao/RefreshTokenDAO');
 jest.mock('../../services/TokenService');
+jest.mock('../../services/TokenDenylist');
 jest.mock('../../utils/helpers');
 
 const MockedUsuarioDAO = UsuarioDAO as any;
@@ -258,68 +262,197 @@ describe('AuthService', () => {
   });
 
   describe('refreshAccessToken', () => {
-    it('should refresh access token successfully', async () => {
-      // Arrange
-      const refreshToken = 'valid-refresh-token';
-      const mockUser = {
-        id: 1,
-        nombre: 'Admin User',
-        email: 'admin@sportsline.com',
-        rol: 'admin',
-        activo: true,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+    const mockUser = {
+      id: 1,
+      nombre: 'Admin User',
+      email: 'admin@sportsline.com',
+      rol: 'admin',
+      activo: true
+    };
+
+    const storedToken = (overrides: any = {}) => ({
+      jti: 'old-jti',
+      usuarioId: 1,
+      familyId: 'family-1',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      revokedAt: null,
+      revokedReason: null,
+      ...overrides
+    });
 
-      const newAccessToken = 'new-access-token';
+    let mockRefreshTokenDAO: any;
 
-      MockedTokenService.prototype.verifyRefreshToken = jest.fn().mockResolvedValue({ userId: mockUser.id });
-      MockedUsuarioDAO.prototype.findById = jest.fn().mockResolvedValue(mockUser);
-      MockedTokenService.prototype.generateAccessToken = jest.fn().mockResolvedValue(newAccessToken);
+    beforeEach(() => {
+      mockRefreshTokenDAO = (authService as any).refreshTokenDAO;
+      mockRefreshTokenDAO.withTransaction.mockImplementation((work: any) => work({ id: 'tx' }));
+      MockedTokenService.verifyRefreshToken = jest.fn().mockReturnValue({ id: 1, type: 'refresh', jti: 'old-jti', family: 'family-1' });
+      MockedTokenService.generateTokenPair = jest.fn().mockReturnValue({ accessToken: 'new-access-token', refreshToken: 'new-refresh-token' });
+      MockedTokenService.getTokenExpiration = jest.fn().mockReturnValue(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000));
+      (Usuario as any).findByPk = jest.fn().mockResolvedValue(mockUser);
+      require('crypto').randomUUID = jest.fn().mockReturnValue('new-jti');
+    });
+
+    it('should rotate the refresh token on every use', async () => {
+      // Arrange
+      mockRefreshTokenDAO.findByJti.mockResolvedValue(storedToken());
+      mockRefreshTokenDAO.markRotated.mockResolvedValue(true);
+      mockRefreshTokenDAO.create.mockResolvedValue({});
 
       // Act
-      const result = await authService.refreshAccessToken(refreshToken);
+      const result = await authService.refreshAccessToken('valid-refresh-token', { userAgent: 'jest' });
 
       // Assert
-      expect(MockedTokenService.prototype.verifyRefreshToken).toHaveBeenCalledWith(refreshToken);
-      expect(MockedUsuarioDAO.prototype.findById).toHaveBeenCalledWith(mockUser.id);
-      expect(MockedTokenService.prototype.generateAccessToken).toHaveBeenCalledWith(mockUser);
+      expect(MockedTokenService.verifyRefreshToken).toHaveBeenCalledWith('valid-refresh-token');
+      // Rotation and the new token share one transaction
+      expect(mockRefreshTokenDAO.markRotated).toHaveBeenCalledWith('old-jti', 'new-jti', { transaction: { id: 'tx' } });
+      expect(MockedTokenService.generateTokenPair).toHaveBeenCalledWith(
+        { id: 1, email: 'admin@sportsline.com', rol: 'admin' },
+        { jti: 'new-jti', family: 'family-1' }
+      );
+      expect(mockRefreshTokenDAO.create).toHaveBeenCalledWith(expect.objectContaining({
+        jti: 'new-jti',
+        usuarioId: 1,
+        familyId: 'family-1',
+        userAgent: 'jest'
+      }), { transaction: { id: 'tx' } });
       expect(result).toEqual({
-        accessToken: newAccessToken,
-        expiresIn: 3600
+        accessToken: 'new-access-token',
+        refreshToken: 'new-refresh-token'
       });
     });
 
-    it('should throw error for invalid refresh token', async () => {
+    it('should revoke the token family when a rotated token is reused', async () => {
       // Arrange
-      const refreshToken = 'invalid-refresh-token';
+      mockRefreshTokenDAO.findByJti.mockResolvedValue(storedToken({ revokedAt: new Date(), revokedReason: 'rotated' }));
 
-      MockedTokenService.prototype.verifyRefreshToken = jest.fn().mockRejectedValue(new Error('Invalid refresh token'));
+      // Act
+      const result = await authService.refreshAccessToken('reused-refresh-token');
 
-      // Act & Assert
-      await expect(authService.refreshAccessToken(refreshToken))
-        .rejects.toThrow('Invalid refresh token');
+      // Assert
+      expect(mockRefreshTokenDAO.revokeFamily).toHaveBeenCalledWith('family-1', 'reuse_detected');
+      expect(mockRefreshTokenDAO.markRotated).not.toHaveBeenCalled();
+      expect(result).toBeNull();
     });
 
-    it('should throw error for inactive user', async () => {
+    it('should revoke the token family when a concurrent refresh already rotated it', async () => {
       // Arrange
-      const refreshToken = 'valid-refresh-token';
-      const mockUser = {
-        id: 1,
-        nombre: 'Admin User',
-        email: 'admin@sportsline.com',
-        rol: 'admin',
-        activo: false,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+      mockRefreshTokenDAO.findByJti.mockResolvedValue(storedToken());
+      mockRefreshTokenDAO.markRotated.mockResolvedValue(false);
 
-      MockedTokenService.prototype.verifyRefreshToken = jest.fn().mockResolvedValue({ userId: mockUser.id });
-      MockedUsuarioDAO.prototype.findById = jest.fn().mockResolvedValue(mockUser);
+      // Act
+      const result = await authService.refreshAccessToken('valid-refresh-token');
 
-      // Act & Assert
-      await expect(authService.refreshAccessToken(refreshToken))
-        .rejects.toThrow('User account is inactive');
+      // Assert
+      expect(mockRefreshTokenDAO.revokeFamily).toHaveBeenCalledWith('family-1', 'reuse_detected');
+      expect(mockRefreshTokenDAO.create).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should return null for invalid refresh token', async () => {
+      // Arrange
+      MockedTokenService.verifyRefreshToken = jest.fn().mockImplementation(() => {
+        throw new Error('Invalid refresh token');
+      });
+
+      // Act
+      const result = await authService.refreshAccessToken('invalid-refresh-token');
+
+      // Assert
+      expect(mockRefreshTokenDAO.findByJti).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should return null for inactive user', async () => {
+      // Arrange
+      mockRefreshTokenDAO.findByJti.mockResolvedValue(storedToken());
+      (Usuario as any).findByPk = jest.fn().mockResolvedValue({ ...mockUser, activo: false });
+
+      // Act
+      const result = await authService.refreshAccessToken('valid-refresh-token');
+
+      // Assert
+      expect(mockRefreshTokenDAO.markRotated).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('revokeRefreshToken', () => {
+    let mockRefreshTokenDAO: any;
+
+    const storedToken = (overrides: any = {}) => ({
+      jti: 'jti-1',
+      usuarioId: 1,
+      familyId: 'family-1',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      revokedAt: null,
+      ...overrides
+    });
+
+    beforeEach(() => {
+      mockRefreshTokenDAO = (authService as any).refreshTokenDAO;
+      MockedTokenService.verifyRefreshToken = jest.fn().mockReturnValue({ id: 1, type: 'refresh', jti: 'jti-1', family: 'family-1' });
+    });
+
+    it('should revoke the whole token family of the device', async () => {
+      // Arrange
+      mockRefreshTokenDAO.findByJti.mockResolvedValue(storedToken());
+      mockRefreshTokenDAO.revokeFamily.mockResolvedValue(2);
+
+      // Act
+      const result = await authService.revokeRefreshToken('valid-refresh-token');
+
+      // Assert
+      expect(mockRefreshTokenDAO.findByJti).toHaveBeenCalledWith('jti-1');
+      expect(mockRefreshTokenDAO.revokeFamily).toHaveBeenCalledWith('family-1', 'logout');
+      expect(result).toBe(true);
+    });
+
+    it('should not revoke anything for a token that is unknown, revoked or of another family', async () => {
+      // Arrange
+      mockRefreshTokenDAO.findByJti
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(storedToken({ revokedAt: new Date() }))
+        .mockResolvedValueOnce(storedToken({ familyId: 'family-2' }));
+
+      // Act
+      const results = [
+        await authService.revokeRefreshToken('forged-refresh-token'),
+        await authService.revokeRefreshToken('revoked-refresh-token'),
+        await authService.revokeRefreshToken('mismatched-refresh-token')
+      ];
+
+      // Assert
+      expect(results).toEqual([false, false, false]);
+      expect(mockRefreshTokenDAO.revokeFamily).not.toHaveBeenCalled();
+    });
+
+    it('should return false for invalid refresh token', async () => {
+      // Arrange
+      MockedTokenService.verifyRefreshToken = jest.fn().mockImplementation(() => {
+        throw new Error('Invalid refresh token');
+      });
+
+      // Act
+      const result = await authService.revokeRefreshToken('invalid-refresh-token');
+
+      // Assert
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('logoutAll', () => {
+    it('should revoke refresh tokens and denylist access tokens of the user', async () => {
+      // Arrange
+      const mockRefreshTokenDAO = (authService as any).refreshTokenDAO;
+      mockRefreshTokenDAO.revokeAllForUsuario.mockResolvedValue(3);
+
+      // Act
+      const result = await authService.logoutAll(1);
+
+      // Assert
+      expect(mockRefreshTokenDAO.revokeAllForUsuario).toHaveBeenCalledWith(1, 'logout_all');
+      expect(tokenDenylist.revokeAllForUser).toHaveBeenCalledWith(1);
+      expect(result).toBe(3);
     });
   });
-});
\ No newline at end of file
+});
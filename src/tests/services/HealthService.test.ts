@@ -0,0 +1,48 @@
+import { HealthCheck, HealthService, migrationsCheck } from '../../services/HealthService';
+import { Migrator } from '../../database/migrator';
+
+describe('HealthService', () => {
+  const passing: HealthCheck = { name: 'database', run: async () => undefined };
+
+  it('should be ready when every check passes', async () => {
+    // Arrange
+    const service = new HealthService([passing, { name: 'encryption', run: async () => ({ keyId: 'k1' }) }], 100);
+
+    // Act
+    const report = await service.readiness();
+
+    // Assert
+    expect(report.status).toBe('ready');
+    expect(report.checks.database).toEqual({ status: 'pass', durationMs: expect.any(Number) });
+    expect(report.checks.encryption.details).toEqual({ keyId: 'k1' });
+  });
+
+  it('should report failing and timed out checks without waiting on them', async () => {
+    // Arrange
+    const hanging: HealthCheck = { name: 'database', run: () => new Promise(() => undefined) };
+    const failing: HealthCheck = { name: 'migrations', run: async () => { throw new Error('2 pending migration(s)'); } };
+    const service = new HealthService([hanging, failing], 50);
+
+    // Act
+    const report = await service.readiness();
+
+    // Assert
+    expect(report.status).toBe('not_ready');
+    expect(report.checks.database).toMatchObject({ status: 'fail', message: 'Timed out after 50ms' });
+    expect(report.checks.migrations).toMatchObject({ status: 'fail', message: '2 pending migration(s)' });
+  });
+
+  it('should stop querying migrations once they are up to date', async () => {
+    // Arrange
+    const pending = jest.spyOn(Migrator.prototype, 'pending')
+      .mockResolvedValueOnce(['20261019000100-create-usuarios'])
+      .mockResolvedValue([]);
+    const check = migrationsCheck(() => ({} as any));
+
+    // Act & Assert
+    await expect(check.run()).rejects.toThrow('1 pending migration(s): 20261019000100-create-usuarios');
+    await expect(check.run()).resolves.toEqual({ pending: 0 });
+    await expect(check.run()).resolves.toEqual({ pending: 0 });
+    expect(pending).toHaveBeenCalledTimes(2);
+  });
+});
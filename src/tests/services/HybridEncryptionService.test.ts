@@ -0,0 +1,75 @@
+import { HybridEncryptionService, EncryptionEnvelopeError } from '../../services/HybridEncryptionService';
+
+// Round-trips need the real cipher implementation
+jest.unmock('crypto');
+jest.mock('../../utils/helpers');
+
+describe('HybridEncryptionService', () => {
+  let encryptionService: HybridEncryptionService;
+
+  beforeEach(() => {
+    encryptionService = new HybridEncryptionService();
+  });
+
+  describe('encrypt/decrypt', () => {
+    it('should round-trip data through a versioned envelope', async () => {
+      // Act
+      const encrypted = await encryptionService.encrypt('observaciones privadas');
+      const envelope = JSON.parse(encrypted);
+
+      // Assert
+      expect(envelope).toEqual(expect.objectContaining({ v: 1, alg: 'A256GCM', kid: 'default' }));
+      expect(Buffer.from(envelope.iv, 'hex')).toHaveLength(12);
+      expect(Buffer.from(envelope.tag, 'hex')).toHaveLength(16);
+      expect(await encryptionService.decrypt(encrypted)).toBe('observaciones privadas');
+    });
+
+    it('should use a fresh IV for every message', async () => {
+      const first = JSON.parse(await encryptionService.encrypt('same'));
+      const second = JSON.parse(await encryptionService.encrypt('same'));
+
+      expect(first.iv).not.toBe(second.iv);
+      expect(first.ct).not.toBe(second.ct);
+    });
+
+    it('should fail when the auth tag does not match', async () => {
+      // Arrange
+      const envelope = JSON.parse(await encryptionService.encrypt('data'));
+      envelope.tag = envelope.tag.replace(/^./, (c: string) => (c === '0' ? '1' : '0'));
+
+      // Act & Assert
+      await expect(encryptionService.decrypt(JSON.stringify(envelope))).rejects.toThrow('Failed to decrypt data');
+    });
+
+    it('should reject legacy payloads with a clear error', async () => {
+      // Arrange
+      const legacy = JSON.stringify({ encryptedData: 'a1b2', encryptedKey: 'c3d4', iv: 'e5f6' });
+
+      // Act & Assert
+      await expect(encryptionService.decrypt(legacy)).rejects.toThrow(EncryptionEnvelopeError);
+      await expect(encryptionService.decrypt(legacy)).rejects.toThrow('Legacy ciphertext format is not supported');
+    });
+
+    it('should reject unknown envelope versions', async () => {
+      const envelope = { ...JSON.parse(await encryptionService.encrypt('data')), v: 2 };
+
+      await expect(encryptionService.decrypt(JSON.stringify(envelope))).rejects.toThrow('Unsupported encryption envelope version: 2');
+    });
+  });
+
+  describe('hybridEncrypt/hybridDecrypt', () => {
+    it('should round-trip data with an RSA key pair', () => {
+      // Arrange
+      const { publicKey, privateKey } = encryptionService.generateRSAKeyPair();
+
+      // Act
+      const envelope = encryptionService.hybridEncrypt('{"sensitive":"data"}', publicKey);
+      const result = encryptionService.hybridDecrypt(JSON.stringify(envelope), privateKey);
+
+      // Assert
+      expect(envelope.alg).toBe('RSA-OAEP-256+A256GCM');
+      expect(envelope.kid).toBe(encryptionService.getPublicKeyId(publicKey));
+      expect(result.decryptedData).toBe('{"sensitive":"data"}');
+    });
+  });
+});
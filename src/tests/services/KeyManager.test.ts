@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { KeyManager, KeyManagerError } from '../../services/KeyManager';
+
+// Key generation needs the real crypto implementation
+jest.unmock('crypto');
+jest.mock('../../utils/helpers');
+
+describe('KeyManager', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'keystore-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should fall back to the environment key without a keystore', () => {
+    // Arrange
+    const manager = new KeyManager(undefined);
+
+    // Act
+    const key = manager.getActiveKey('A256GCM');
+
+    // Assert
+    expect(key.id).toBe('default');
+    expect(key.key).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should refuse to rotate without a keystore', () => {
+    const manager = new KeyManager(undefined);
+
+    expect(() => manager.rotate()).toThrow(KeyManagerError);
+  });
+
+  it('should rotate, demote the previous key and persist the keystore file', () => {
+    // Arrange
+    const keystorePath = path.join(tmpDir, 'keys.json');
+    const manager = new KeyManager(keystorePath);
+
+    // Act
+    const { keyId, previousKeyId } = manager.rotate('k2');
+
+    // Assert
+    expect(previousKeyId).toBe('default');
+    expect(manager.getActiveKey('A256GCM').id).toBe(keyId);
+    expect(manager.getDecryptionKey('default').status).toBe('decrypt-only');
+
+    const reloaded = new KeyManager(keystorePath);
+    expect(reloaded.getActiveKey('A256GCM').id).toBe('k2');
+    expect(reloaded.listKeys().map(key => key.id).sort()).toEqual(['default', 'k2']);
+  });
+
+  it('should load one key per file from a keystore directory', () => {
+    // Arrange
+    const key = { id: 'k1', algorithm: 'A256GCM', status: 'active', createdAt: new Date().toISOString(), key: 'a'.repeat(64) };
+    fs.writeFileSync(path.join(tmpDir, 'k1.json'), JSON.stringify(key));
+    fs.writeFileSync(path.join(tmpDir, 'k0.json'), JSON.stringify({ ...key, id: 'k0', status: 'retired', key: 'b'.repeat(64) }));
+
+    // Act
+    const manager = new KeyManager(tmpDir);
+
+    // Assert
+    expect(manager.getActiveKey('A256GCM').id).toBe('k1');
+    expect(() => manager.getDecryptionKey('k0')).toThrow('Encryption key k0 is retired');
+    expect(() => manager.getDecryptionKey('missing')).toThrow('Unknown encryption key id: missing');
+  });
+
+  it('should keep generated key pairs in the keystore as decrypt-only keys', () => {
+    // Arrange
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+    const keystorePath = path.join(tmpDir, 'keys.json');
+
+    // Act
+    const info = new KeyManager(keystorePath).addKeyPair(publicKey, privateKey);
+
+    // Assert
+    expect(() => new KeyManager(undefined).addKeyPair(publicKey, privateKey)).toThrow('Generating key pairs requires a keystore (KEYSTORE_PATH)');
+    expect(info).toMatchObject({ id: KeyManager.publicKeyId(publicKey), algorithm: 'RSA-OAEP-256', status: 'decrypt-only', purpose: 'client' });
+    expect(new KeyManager(keystorePath).getClientPrivateKey(info.id)).toBe(privateKey);
+  });
+
+  it('should not hand out server keys for decryption on request', () => {
+    const manager = new KeyManager(undefined);
+
+    expect(() => manager.getClientPrivateKey('default')).toThrow('Encryption key default cannot be used to decrypt on request');
+  });
+
+  it('should not list secret key material', () => {
+    const manager = new KeyManager(undefined);
+
+    expect(manager.listKeys()[0]).not.toHaveProperty('key');
+  });
+});
@@ -4,12 +4,15 @@ import { ProductoDAO } from '../../dao/ProductoDAO';
 import { ClienteDAO } from '../../dao/ClienteDAO';
 import { UsuarioDAO } from '../../dao/UsuarioDAO';
 import { HybridEncryptionService } from '../../services/HybridEncryptionService';
+import { PedidoTransitionError } from '../../services/PedidoStateMachine';
 
 // Mock dependencies
 jest.mock('../../dao/PedidoDAO');
 jest.mock('../../dao/ProductoDAO');
 jest.mock('../../dao/ClienteDAO');
 jest.mock('../../dao/UsuarioDAO');
+jest.mock('../../dao/PedidoEstadoHistorialDAO');
+jest.mock('../../dao/ReservaStockDAO');
 jest.mock('../../services/HybridEncryptionService');
 
 const MockedPedidoDAO = PedidoDAO as any;
@@ -38,6 +41,21 @@ describe('PedidoService', () => {
   });
 
   describe('createPedido', () => {
+    let pedidoDAO: any;
+    let productoDAO: any;
+    let clienteDAO: any;
+    let usuarioDAO: any;
+    let reservationService: any;
+
+    beforeEach(() => {
+      pedidoDAO = (pedidoService as any).pedidoDAO;
+      productoDAO = (pedidoService as any).productoDAO;
+      clienteDAO = (pedidoService as any).clienteDAO;
+      usuarioDAO = (pedidoService as any).usuarioDAO;
+      reservationService = (pedidoService as any).reservationService;
+      reservationService.reserve = jest.fn().mockResolvedValue(undefined);
+    });
+
     it('should create pedido successfully with stock validation', async () => {
       // Arrange
       const pedidoData = {
@@ -68,14 +86,14 @@ describe('PedidoService', () => {
           id: 1,
           nombre: 'Producto 1',
           precio: 89.99,
-          stock: 50,
+          disponible: 50,
           activo: true
         },
         {
           id: 2,
           nombre: 'Producto 2',
           precio: 120.00,
-          stock: 30,
+          disponible: 30,
           activo: true
         }
       ];
@@ -104,20 +122,20 @@ describe('PedidoService', () => {
         ]
       };
 
-      MockedClienteDAO.prototype.findById = jest.fn().mockResolvedValue(mockCliente);
-      MockedUsuarioDAO.prototype.findById = jest.fn().mockResolvedValue(mockUsuario);
-      MockedProductoDAO.prototype.findByIds = jest.fn().mockResolvedValue(mockProductos);
-      MockedPedidoDAO.prototype.createWithDetalles = jest.fn().mockResolvedValue(mockCreatedPedido);
-      MockedProductoDAO.prototype.reduceStock = jest.fn().mockResolvedValue(null);
+      clienteDAO.findById.mockResolvedValue(mockCliente);
+      usuarioDAO.findById.mockResolvedValue(mockUsuario);
+      productoDAO.findByIds.mockResolvedValue(mockProductos);
+      pedidoDAO.withTransaction.mockImplementation((work: any) => work({}));
+      pedidoDAO.createWithDetalles.mockResolvedValue(mockCreatedPedido);
 
       // Act
       const result = await pedidoService.createPedido(pedidoData, usuarioId);
 
       // Assert
-      expect(MockedClienteDAO.prototype.findById).toHaveBeenCalledWith(1);
-      expect(MockedUsuarioDAO.prototype.findById).toHaveBeenCalledWith(1);
-      expect(MockedProductoDAO.prototype.findByIds).toHaveBeenCalledWith([1, 2]);
-      expect(MockedPedidoDAO.prototype.createWithDetalles).toHaveBeenCalledWith({
+      expect(clienteDAO.findById).toHaveBeenCalledWith(1);
+      expect(usuarioDAO.findById).toHaveBeenCalledWith(1);
+      expect(productoDAO.findByIds).toHaveBeenCalledWith([1, 2]);
+      expect(pedidoDAO.createWithDetalles).toHaveBeenCalledWith({
         clienteId: 1,
         usuarioId: 1,
         total: 299.98,
@@ -137,8 +155,10 @@ describe('PedidoService', () => {
             subtotal: 120.00
           }
         ]
-      });
-      expect(MockedProductoDAO.prototype.reduceStock).toHaveBeenCalledTimes(2);
+      }, { transaction: expect.anything() });
+      expect(pedidoDAO.withTransaction).toHaveBeenCalledTimes(1);
+      expect(reservationService.reserve).toHaveBeenCalledWith(1, pedidoData.productos, expect.anything());
+      expect(productoDAO.reduceStock).not.toHaveBeenCalled();
       expect(result).toEqual(mockCreatedPedido);
     });
 
@@ -152,7 +172,7 @@ describe('PedidoService', () => {
 
       const usuarioId = 1;
 
-      MockedClienteDAO.prototype.findById = jest.fn().mockResolvedValue(null);
+      clienteDAO.findById.mockResolvedValue(null);
 
       // Act & Assert
       await expect(pedidoService.createPedido(pedidoData, usuarioId))
@@ -175,13 +195,13 @@ describe('PedidoService', () => {
         id: 1,
         nombre: 'Producto 1',
         precio: 89.99,
-        stock: 50, // Less than requested quantity
+        disponible: 50, // Less than requested quantity
         activo: true
       };
 
-      MockedClienteDAO.prototype.findById = jest.fn().mockResolvedValue(mockCliente);
-      MockedUsuarioDAO.prototype.findById = jest.fn().mockResolvedValue(mockUsuario);
-      MockedProductoDAO.prototype.findByIds = jest.fn().mockResolvedValue([mockProducto]);
+      clienteDAO.findById.mockResolvedValue(mockCliente);
+      usuarioDAO.findById.mockResolvedValue(mockUsuario);
+      productoDAO.findByIds.mockResolvedValue([mockProducto]);
 
       // Act & Assert
       await expect(pedidoService.createPedido(pedidoData, usuarioId))
@@ -201,9 +221,9 @@ describe('PedidoService', () => {
       const mockCliente = { id: 1, nombre: 'Cliente Test', activo: true };
       const mockUsuario = { id: 1, nombre: 'Usuario Test', activo: true };
 
-      MockedClienteDAO.prototype.findById = jest.fn().mockResolvedValue(mockCliente);
-      MockedUsuarioDAO.prototype.findById = jest.fn().mockResolvedValue(mockUsuario);
-      MockedProductoDAO.prototype.findByIds = jest.fn().mockResolvedValue([]);
+      clienteDAO.findById.mockResolvedValue(mockCliente);
+      usuarioDAO.findById.mockResolvedValue(mockUsuario);
+      productoDAO.findByIds.mockResolvedValue([]);
 
       // Act & Assert
       await expect(pedidoService.createPedido(pedidoData, usuarioId))
@@ -318,14 +338,14 @@ describe('PedidoService', () => {
       };
 
       MockedPedidoDAO.prototype.findById = jest.fn().mockResolvedValue(mockPedido);
-      MockedPedidoDAO.prototype.update = jest.fn().mockResolvedValue(mockUpdatedPedido);
+      MockedPedidoDAO.prototype.updateEstado = jest.fn().mockResolvedValue(mockUpdatedPedido);
 
       // Act
       const result = await pedidoService.updatePedidoEstado(pedidoId, newEstado);
 
       // Assert
       expect(MockedPedidoDAO.prototype.findById).toHaveBeenCalledWith(pedidoId);
-      expect(MockedPedidoDAO.prototype.update).toHaveBeenCalledWith(pedidoId, { estado: newEstado });
+      expect(MockedPedidoDAO.prototype.updateEstado).toHaveBeenCalledWith(pedidoId, newEstado, { usuarioId: undefined, motivo: undefined });
       expect(result).toEqual(mockUpdatedPedido);
     });
 
@@ -362,82 +382,46 @@ describe('PedidoService', () => {
   });
 
   describe('cancelPedido', () => {
-    it('should cancel pedido and restore stock successfully', async () => {
+    it('should cancel pedido through the state machine', async () => {
       // Arrange
       const pedidoId = 1;
-      const mockPedido = {
+      const mockUpdatedPedido = {
         id: 1,
-        estado: 'pendiente',
+        estado: 'cancelado',
         clienteId: 1,
         usuarioId: 1,
-        total: 299.98,
-        detalles: [
-          {
-            productoId: 1,
-            cantidad: 2
-          },
-          {
-            productoId: 2,
-            cantidad: 1
-          }
-        ]
-      };
-
-      const mockUpdatedPedido = {
-        ...mockPedido,
-        estado: 'cancelado'
+        total: 299.98
       };
 
-      MockedPedidoDAO.prototype.findByIdWithDetalles = jest.fn().mockResolvedValue(mockPedido);
-      MockedPedidoDAO.prototype.update = jest.fn().mockResolvedValue(mockUpdatedPedido);
-      MockedProductoDAO.prototype.increaseStock = jest.fn().mockResolvedValue(null);
+      const pedidoDAO = (pedidoService as any).pedidoDAO;
+      pedidoDAO.updateEstado.mockResolvedValue(mockUpdatedPedido);
 
       // Act
-      const result = await pedidoService.cancelPedido(pedidoId);
+      const result = await pedidoService.cancelPedido(pedidoId, 7, 'Cliente desistió');
 
       // Assert
-      expect(MockedPedidoDAO.prototype.findByIdWithDetalles).toHaveBeenCalledWith(pedidoId);
-      expect(MockedPedidoDAO.prototype.update).toHaveBeenCalledWith(pedidoId, { estado: 'cancelado' });
-      expect(MockedProductoDAO.prototype.increaseStock).toHaveBeenCalledTimes(2);
+      expect(pedidoDAO.updateEstado).toHaveBeenCalledWith(pedidoId, 'cancelado', { usuarioId: 7, motivo: 'Cliente desistió' });
       expect(result).toEqual(mockUpdatedPedido);
     });
 
-    it('should throw error for already delivered pedido', async () => {
+    it('should throw error for non-existent pedido', async () => {
       // Arrange
-      const pedidoId = 1;
-      const mockPedido = {
-        id: 1,
-        estado: 'entregado',
-        clienteId: 1,
-        usuarioId: 1,
-        total: 299.98,
-        detalles: []
-      };
-
-      MockedPedidoDAO.prototype.findByIdWithDetalles = jest.fn().mockResolvedValue(mockPedido);
+      (pedidoService as any).pedidoDAO.updateEstado.mockResolvedValue(null);
 
       // Act & Assert
-      await expect(pedidoService.cancelPedido(pedidoId))
-        .rejects.toThrow('Cannot cancel delivered pedido');
+      await expect(pedidoService.cancelPedido(999))
+        .rejects.toMatchObject({ statusCode: 404 });
     });
 
-    it('should throw error for already cancelled pedido', async () => {
+    it('should propagate refused transitions', async () => {
       // Arrange
-      const pedidoId = 1;
-      const mockPedido = {
-        id: 1,
-        estado: 'cancelado',
-        clienteId: 1,
-        usuarioId: 1,
-        total: 299.98,
-        detalles: []
-      };
-
-      MockedPedidoDAO.prototype.findByIdWithDetalles = jest.fn().mockResolvedValue(mockPedido);
+      (pedidoService as any).pedidoDAO.updateEstado.mockRejectedValue(
+        new PedidoTransitionError('Invalid estado transition from entregado to cancelado; allowed: none', 'entregado', 'cancelado', [])
+      );
 
       // Act & Assert
-      await expect(pedidoService.cancelPedido(pedidoId))
-        .rejects.toThrow('Pedido is already cancelled');
+      await expect(pedidoService.cancelPedido(1))
+        .rejects.toMatchObject({ statusCode: 409, allowed: [] });
     });
   });
 
@@ -610,4 +594,101 @@ describe('PedidoService', () => {
       expect(result).toEqual(mockDecryptedData);
     });
   });
-});
\ No newline at end of file
+
+  describe('updateDetalles', () => {
+    let pedidoDAO: any;
+    let productoDAO: any;
+
+    const pendientePedido = (overrides: any = {}) => ({
+      id: 1,
+      estado: 'pendiente',
+      total: 250,
+      detalles: [
+        { id: 10, productoId: 1, cantidad: 2, precioUnitario: '100.00', subtotal: '200.00' },
+        { id: 11, productoId: 2, cantidad: 1, precioUnitario: '50.00', subtotal: '50.00' }
+      ],
+      ...overrides
+    });
+
+    beforeEach(() => {
+      pedidoDAO = (pedidoService as any).pedidoDAO;
+      productoDAO = (pedidoService as any).productoDAO;
+      pedidoDAO.withTransaction.mockImplementation((work: any) => work({}));
+      pedidoDAO.findByIdWithDetalles.mockResolvedValue(pendientePedido());
+      productoDAO.reduceStock.mockResolvedValue({ id: 1 });
+      productoDAO.increaseStock.mockResolvedValue({ id: 2 });
+      // Pedido created before reservations: its stock was taken directly
+      (pedidoService as any).reservationService.reservaDAO.findByPedido.mockResolvedValue([]);
+    });
+
+    it('should move only the stock difference and recompute the total', async () => {
+      // Arrange
+      productoDAO.findByIds.mockResolvedValue([{ id: 3, precio: '20.00', activo: true }]);
+
+      // Act
+      await pedidoService.updateDetalles(1, [
+        { productoId: 1, cantidad: 5 },
+        { productoId: 3, cantidad: 2 }
+      ]);
+
+      // Assert
+      expect(productoDAO.reduceStock).toHaveBeenCalledWith(1, 3, { transaction: expect.anything(), motivo: 'venta', pedidoId: 1 });
+      expect(productoDAO.increaseStock).toHaveBeenCalledWith(2, 1, { transaction: expect.anything(), motivo: 'cancelacion', pedidoId: 1 });
+      expect(productoDAO.reduceStock).toHaveBeenCalledWith(3, 2, { transaction: expect.anything(), motivo: 'venta', pedidoId: 1 });
+      expect(pedidoDAO.replaceDetalles).toHaveBeenCalledWith(1, [
+        { productoId: 1, cantidad: 5, precioUnitario: 100, subtotal: 500 },
+        { productoId: 3, cantidad: 2, precioUnitario: 20, subtotal: 40 }
+      ], 540, { transaction: expect.anything() });
+    });
+
+    it('should refuse changes once the pedido left pendiente', async () => {
+      // Arrange
+      pedidoDAO.findByIdWithDetalles.mockResolvedValue(pendientePedido({ estado: 'confirmado' }));
+
+      // Act & Assert
+      await expect(pedidoService.addDetalle(1, { productoId: 1, cantidad: 1 }))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(productoDAO.reduceStock).not.toHaveBeenCalled();
+    });
+
+    it('should return the stock of a removed line', async () => {
+      // Act
+      await pedidoService.removeDetalle(1, 2);
+
+      // Assert
+      expect(productoDAO.increaseStock).toHaveBeenCalledWith(2, 1, { transaction: expect.anything(), motivo: 'cancelacion', pedidoId: 1 });
+      expect(productoDAO.reduceStock).not.toHaveBeenCalled();
+      expect(pedidoDAO.replaceDetalles).toHaveBeenCalledWith(1, [
+        { productoId: 1, cantidad: 2, precioUnitario: 100, subtotal: 200 }
+      ], 200, { transaction: expect.anything() });
+    });
+  });
+
+  describe('getPedidoHistorial', () => {
+    it('should return the estado timeline of the pedido', async () => {
+      // Arrange
+      const historial = [
+        { id: 1, pedidoId: 1, estadoAnterior: null, estadoNuevo: 'pendiente' },
+        { id: 2, pedidoId: 1, estadoAnterior: 'pendiente', estadoNuevo: 'cancelado', motivo: 'Sin pago' }
+      ];
+      (pedidoService as any).pedidoDAO.findById.mockResolvedValue({ id: 1 });
+      (pedidoService as any).historialDAO.findByPedido.mockResolvedValue(historial);
+
+      // Act
+      const result = await pedidoService.getPedidoHistorial(1);
+
+      // Assert
+      expect((pedidoService as any).historialDAO.findByPedido).toHaveBeenCalledWith(1);
+      expect(result).toEqual(historial);
+    });
+
+    it('should fail with 404 for a non-existent pedido', async () => {
+      // Arrange
+      (pedidoService as any).pedidoDAO.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(pedidoService.getPedidoHistorial(999))
+        .rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
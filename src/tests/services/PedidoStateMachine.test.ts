@@ -0,0 +1,108 @@
+import { PedidoStateMachine, PedidoTransition, requireReferenciaEnvio, restoreStock } from '../../services/PedidoStateMachine';
+import { ProductoDAO } from '../../dao/ProductoDAO';
+import { DetallePedido } from '../../models/DetallePedido';
+import { stockReservationService } from '../../services/StockReservationService';
+
+jest.mock('../../utils/helpers');
+jest.mock('../../dao/ProductoDAO');
+jest.mock('../../dao/ReservaStockDAO');
+jest.mock('../../models/DetallePedido');
+
+describe('PedidoStateMachine', () => {
+  let machine: PedidoStateMachine;
+  let committed: Array<() => void>;
+
+  const transition = (overrides: Partial<PedidoTransition> = {}): PedidoTransition => ({
+    pedido: { id: 1, estado: 'pendiente' } as any,
+    from: 'pendiente',
+    to: 'confirmado',
+    transaction: { afterCommit: (fn: () => void) => committed.push(fn) } as any,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    machine = new PedidoStateMachine();
+    committed = [];
+    jest.clearAllMocks();
+  });
+
+  it('should run guards, the write and effects in order and emit after commit', async () => {
+    // Arrange
+    const calls: string[] = [];
+    const listener = jest.fn();
+    machine.addGuard('confirmado', async () => { calls.push('guard'); });
+    machine.addEffect('confirmado', async () => { calls.push('effect'); });
+    machine.addEffect('cancelado', async () => { calls.push('other'); });
+    machine.on('transition', listener);
+
+    // Act
+    const result = await machine.transition(transition(), async () => {
+      calls.push('apply');
+      return 'written';
+    });
+
+    // Assert
+    expect(result).toBe('written');
+    expect(calls).toEqual(['guard', 'apply', 'effect']);
+    expect(listener).not.toHaveBeenCalled();
+
+    committed.forEach(fn => fn());
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ pedidoId: 1, from: 'pendiente', to: 'confirmado' }));
+  });
+
+  it('should refuse transitions outside ORDER_STATUS_TRANSITIONS with the allowed next estados', async () => {
+    // Arrange
+    const apply = jest.fn();
+
+    // Act & Assert
+    await expect(machine.transition(transition({ to: 'entregado' }), apply))
+      .rejects.toMatchObject({ statusCode: 409, allowed: ['confirmado', 'cancelado'] });
+    expect(apply).not.toHaveBeenCalled();
+  });
+
+  it('should require a shipping reference to move to enviado', async () => {
+    // Arrange
+    const shipping = transition({ pedido: { id: 1, estado: 'confirmado' } as any, from: 'confirmado', to: 'enviado' });
+
+    // Act & Assert
+    expect(() => requireReferenciaEnvio(shipping)).toThrow('referenciaEnvio');
+    expect(() => requireReferenciaEnvio({ ...shipping, referenciaEnvio: 'SERV-1' })).not.toThrow();
+  });
+
+  it('should give back the stock of every line on cancelado', async () => {
+    // Arrange
+    (stockReservationService as any).reservaDAO.findByPedido.mockResolvedValue([]);
+    (DetallePedido.findAll as jest.Mock).mockResolvedValue([
+      { productoId: 2, cantidad: 1 },
+      { productoId: 5, cantidad: 3 }
+    ]);
+
+    // Act
+    await restoreStock(transition({ to: 'cancelado' }));
+
+    // Assert
+    const instances = (ProductoDAO as jest.Mock).mock.instances;
+    const productoDAO = instances[instances.length - 1] as any;
+    expect(productoDAO.increaseStock).toHaveBeenCalledWith(2, 1, expect.objectContaining({ motivo: 'cancelacion', pedidoId: 1 }));
+    expect(productoDAO.increaseStock).toHaveBeenCalledWith(5, 3, expect.objectContaining({ motivo: 'cancelacion', pedidoId: 1 }));
+  });
+
+  it('should release the reservation of a cancelled pendiente pedido instead of restocking', async () => {
+    // Arrange
+    const reservaDAO = (stockReservationService as any).reservaDAO;
+    const productoDAO = (stockReservationService as any).productoDAO;
+    reservaDAO.findByPedido.mockResolvedValue([
+      { id: 7, productoId: 2, cantidad: 4, estado: 'activa' },
+      { id: 8, productoId: 5, cantidad: 1, estado: 'consumida' }
+    ]);
+
+    // Act
+    await restoreStock(transition({ to: 'cancelado' }));
+
+    // Assert
+    expect(productoDAO.releaseReservedStock).toHaveBeenCalledTimes(1);
+    expect(productoDAO.releaseReservedStock).toHaveBeenCalledWith(2, 4, expect.anything());
+    expect(reservaDAO.update).toHaveBeenCalledWith(7, { estado: 'liberada' }, expect.anything());
+    expect(productoDAO.increaseStock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import { RateLimitPolicy, RateLimiter } from '../../services/RateLimiter';
+
+describe('RateLimiter', () => {
+  const windowPolicy: RateLimitPolicy = { name: 'login', algorithm: 'sliding-window', limit: 3, windowMs: 60_000, keyBy: 'ip' };
+  const bucketPolicy: RateLimitPolicy = { name: 'search', algorithm: 'token-bucket', limit: 2, windowMs: 60_000, keyBy: 'user' };
+
+  it('should allow up to the limit per window and carry the previous window over', async () => {
+    // Arrange
+    const limiter = new RateLimiter();
+    const start = 600_000;
+
+    // Act
+    const decisions = [];
+    for (let i = 0; i < 4; i++) {
+      decisions.push(await limiter.consume(windowPolicy, 'ip:10.0.0.1', 3, start + i));
+    }
+    // Halfway through the next window, half of the previous one still counts
+    const halfway = await limiter.consume(windowPolicy, 'ip:10.0.0.1', 3, start + 90_000);
+    const other = await limiter.consume(windowPolicy, 'ip:10.0.0.2', 3, start);
+
+    // Assert
+    expect(decisions.map(decision => decision.allowed)).toEqual([true, true, true, false]);
+    expect(decisions[2]).toMatchObject({ limit: 3, remaining: 0, resetSeconds: 60 });
+    expect(decisions[3].retryAfterSeconds).toBe(60);
+    expect(halfway).toMatchObject({ allowed: true, remaining: 0 });
+    expect(other.allowed).toBe(true);
+  });
+
+  it('should allow bursts up to the bucket size and refill over the window', async () => {
+    // Arrange
+    const limiter = new RateLimiter();
+
+    // Act
+    const first = await limiter.consume(bucketPolicy, 'user:1', 2, 0);
+    const second = await limiter.consume(bucketPolicy, 'user:1', 2, 0);
+    const rejected = await limiter.consume(bucketPolicy, 'user:1', 2, 1_000);
+    const refilled = await limiter.consume(bucketPolicy, 'user:1', 2, 30_000);
+
+    // Assert
+    expect([first.allowed, second.allowed, rejected.allowed, refilled.allowed]).toEqual([true, true, false, true]);
+    expect(second).toMatchObject({ remaining: 0, resetSeconds: 60 });
+    expect(rejected.retryAfterSeconds).toBe(29);
+    expect(refilled.remaining).toBe(0);
+  });
+
+  it('should not count rejected requests against the quota', async () => {
+    // Arrange
+    const store = { get: jest.fn().mockResolvedValue(null), update: jest.fn((key, ttl, fn) => Promise.resolve(fn(3))) };
+    const limiter = new RateLimiter(store);
+
+    // Act
+    const decision = await limiter.consume(windowPolicy, 'ip:10.0.0.1', 3, 0);
+
+    // Assert
+    expect(decision.allowed).toBe(false);
+    expect(await store.update.mock.results[0].value).toBe(3);
+  });
+});
@@ -0,0 +1,89 @@
+import { RESERVATION_EXPIRED_MOTIVO, ReservationScheduler } from '../../services/ReservationScheduler';
+import { PedidoTransitionError } from '../../services/PedidoStateMachine';
+import { stockReservationService } from '../../services/StockReservationService';
+
+jest.mock('../../utils/helpers');
+jest.mock('../../dao/PedidoDAO');
+jest.mock('../../dao/ProductoDAO');
+jest.mock('../../dao/ReservaStockDAO');
+
+describe('ReservationScheduler', () => {
+  let scheduler: ReservationScheduler;
+  let pedidoDAO: any;
+  let reservaDAO: any;
+
+  beforeEach(() => {
+    scheduler = new ReservationScheduler(30);
+    pedidoDAO = (scheduler as any).pedidoDAO;
+    reservaDAO = (scheduler as any).reservaDAO;
+    pedidoDAO.withTransaction.mockImplementation((work: any) => work({}));
+  });
+
+  it('should cancel every pedido with an expired reservation', async () => {
+    // Arrange
+    const now = new Date('2026-10-19T12:00:00Z');
+    reservaDAO.findExpiredPedidoIds.mockResolvedValue([1, 2]);
+
+    // Act
+    const result = await scheduler.sweep(now);
+
+    // Assert
+    expect(result).toEqual({ expired: 2, failed: 0 });
+    expect(reservaDAO.findExpiredPedidoIds).toHaveBeenCalledWith(now);
+    expect(pedidoDAO.updateEstado).toHaveBeenCalledWith(1, 'cancelado', { motivo: RESERVATION_EXPIRED_MOTIVO });
+    expect(pedidoDAO.updateEstado).toHaveBeenCalledWith(2, 'cancelado', { motivo: RESERVATION_EXPIRED_MOTIVO });
+  });
+
+  it('should only release the reservations of a pedido that already left pendiente', async () => {
+    // Arrange
+    const release = jest.spyOn(stockReservationService, 'release').mockResolvedValue(1);
+    reservaDAO.findExpiredPedidoIds.mockResolvedValue([1, 2]);
+    pedidoDAO.updateEstado
+      .mockRejectedValueOnce(new PedidoTransitionError('Invalid transition', 'confirmado', 'cancelado', ['enviado']))
+      .mockRejectedValueOnce(new Error('connection lost'));
+
+    // Act
+    const result = await scheduler.sweep();
+
+    // Assert
+    expect(result).toEqual({ expired: 1, failed: 1 });
+    expect(release).toHaveBeenCalledTimes(1);
+    expect(release).toHaveBeenCalledWith(1, {});
+  });
+
+  it('should skip a sweep while the previous one is still running', async () => {
+    // Arrange
+    let finish: (ids: number[]) => void = () => undefined;
+    reservaDAO.findExpiredPedidoIds.mockReturnValue(new Promise(resolve => { finish = resolve; }));
+
+    // Act
+    const first = scheduler.sweep();
+    const second = await scheduler.sweep();
+    finish([1]);
+
+    // Assert
+    expect(second).toEqual({ expired: 0, failed: 0 });
+    expect(await first).toEqual({ expired: 1, failed: 0 });
+    expect(reservaDAO.findExpiredPedidoIds).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sweep on its interval until stopped', async () => {
+    // Arrange
+    jest.useFakeTimers();
+    const sweep = jest.spyOn(scheduler, 'sweep').mockResolvedValue({ expired: 0, failed: 0 });
+
+    try {
+      // Act
+      scheduler.start();
+      scheduler.start();
+      jest.advanceTimersByTime(60_000);
+      scheduler.stop();
+      jest.advanceTimersByTime(60_000);
+
+      // Assert
+      expect(sweep).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import { StockReservationService } from '../../services/StockReservationService';
+import { config } from '../../config';
+
+jest.mock('../../utils/helpers');
+jest.mock('../../dao/ProductoDAO');
+jest.mock('../../dao/ReservaStockDAO');
+
+describe('StockReservationService', () => {
+  const now = 1_760_000_000_000;
+  const transaction = {} as any;
+  let service: StockReservationService;
+  let productoDAO: any;
+  let reservaDAO: any;
+
+  const reserva = (overrides: object = {}) => ({
+    id: 1, pedidoId: 10, productoId: 1, cantidad: 2, estado: 'activa', expiraEn: new Date(now + 60_000), ...overrides
+  });
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    service = new StockReservationService();
+    productoDAO = (service as any).productoDAO;
+    reservaDAO = (service as any).reservaDAO;
+  });
+
+  it('should reserve every line in producto id order until the reservation expires', async () => {
+    // Arrange
+    productoDAO.reserveStock.mockResolvedValue({ id: 1 });
+    const expiraEn = new Date(now + config.reservations.ttlMinutes * 60 * 1000);
+
+    // Act
+    await service.reserve(10, [{ productoId: 3, cantidad: 1 }, { productoId: 1, cantidad: 2 }], transaction);
+
+    // Assert
+    expect(productoDAO.reserveStock.mock.calls.map((call: any[]) => call[0])).toEqual([1, 3]);
+    expect(reservaDAO.create).toHaveBeenCalledWith({ pedidoId: 10, productoId: 1, cantidad: 2, expiraEn }, { transaction });
+    expect(reservaDAO.create).toHaveBeenCalledWith({ pedidoId: 10, productoId: 3, cantidad: 1, expiraEn }, { transaction });
+  });
+
+  it('should refuse to reserve a producto that does not exist', async () => {
+    productoDAO.reserveStock.mockResolvedValue(null);
+
+    await expect(service.reserve(10, [{ productoId: 99, cantidad: 1 }], transaction)).rejects.toThrow('Producto 99 not found');
+    expect(reservaDAO.create).not.toHaveBeenCalled();
+  });
+
+  it('should grow, add and shrink reservations of a pendiente pedido', async () => {
+    // Arrange
+    const expiraEn = new Date(now + 30_000);
+    reservaDAO.findByPedido.mockResolvedValue([
+      reserva({ id: 1, productoId: 1, cantidad: 2, expiraEn }),
+      reserva({ id: 2, productoId: 2, cantidad: 3 })
+    ]);
+    productoDAO.reserveStock.mockResolvedValue({ id: 1 });
+
+    // Act
+    await service.adjust(10, 1, 1, transaction);
+    await service.adjust(10, 5, 4, transaction);
+    await service.adjust(10, 2, -3, transaction);
+
+    // Assert
+    expect(reservaDAO.update).toHaveBeenCalledWith(1, { cantidad: 3 }, { transaction });
+    // A new line expires with the earliest reservation of the pedido
+    expect(reservaDAO.create).toHaveBeenCalledWith({ pedidoId: 10, productoId: 5, cantidad: 4, expiraEn }, { transaction });
+    expect(productoDAO.releaseReservedStock).toHaveBeenCalledWith(2, 3, { transaction });
+    expect(reservaDAO.update).toHaveBeenCalledWith(2, { estado: 'liberada' }, { transaction });
+  });
+
+  it('should commit only the activa reservations as sales', async () => {
+    // Arrange
+    reservaDAO.findByPedido.mockResolvedValue([
+      reserva({ id: 1, productoId: 1, cantidad: 2 }),
+      reserva({ id: 2, productoId: 2, cantidad: 1, estado: 'liberada' })
+    ]);
+
+    // Act
+    const consumed = await service.consume(10, { usuarioId: 7 }, transaction);
+
+    // Assert
+    expect(consumed).toBe(1);
+    expect(productoDAO.commitReservedStock).toHaveBeenCalledTimes(1);
+    expect(productoDAO.commitReservedStock).toHaveBeenCalledWith(1, 2, { transaction, motivo: 'venta', pedidoId: 10, usuarioId: 7 });
+    expect(reservaDAO.update).toHaveBeenCalledWith(1, { estado: 'consumida' }, { transaction });
+  });
+
+  it('should give back the activa reservations on release', async () => {
+    // Arrange
+    reservaDAO.findByPedido.mockResolvedValue([
+      reserva({ id: 1, productoId: 1, cantidad: 2 }),
+      reserva({ id: 2, productoId: 2, cantidad: 1, estado: 'consumida' })
+    ]);
+
+    // Act
+    const released = await service.release(10, transaction);
+
+    // Assert
+    expect(released).toBe(1);
+    expect(productoDAO.releaseReservedStock).toHaveBeenCalledTimes(1);
+    expect(productoDAO.releaseReservedStock).toHaveBeenCalledWith(1, 2, { transaction });
+    expect(reservaDAO.update).toHaveBeenCalledWith(1, { estado: 'liberada' }, { transaction });
+  });
+});
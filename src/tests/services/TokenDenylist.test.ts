@@ -0,0 +1,61 @@
+import { TokenDenylist, MemoryDenylistStore } from '../../services/TokenDenylist';
+
+jest.mock('../../utils/helpers');
+
+describe('TokenDenylist', () => {
+  let denylist: TokenDenylist;
+  const now = () => Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    denylist = new TokenDenylist(new MemoryDenylistStore());
+  });
+
+  it('should not flag tokens that were never revoked', async () => {
+    expect(await denylist.isRevoked({ id: 1, email: 'a@b.com', rol: 'admin', jti: 'jti-1', iat: now() })).toBe(false);
+  });
+
+  it('should revoke a single token by jti', async () => {
+    // Act
+    await denylist.revokeToken('jti-1', now() + 60);
+
+    // Assert
+    expect(await denylist.isRevoked({ id: 1, email: 'a@b.com', rol: 'admin', jti: 'jti-1', iat: now() })).toBe(true);
+    expect(await denylist.isRevoked({ id: 1, email: 'a@b.com', rol: 'admin', jti: 'jti-2', iat: now() })).toBe(false);
+  });
+
+  it('should revoke every token of a user issued up to the cutoff', async () => {
+    // Act
+    await denylist.revokeAllForUser(1);
+
+    // Assert
+    expect(await denylist.isRevoked({ id: 1, email: 'a@b.com', rol: 'admin', jti: 'old', iat: now() - 10 })).toBe(true);
+    expect(await denylist.isRevoked({ id: 1, email: 'a@b.com', rol: 'admin', jti: 'new', iat: now() + 10 })).toBe(false);
+    expect(await denylist.isRevoked({ id: 2, email: 'c@d.com', rol: 'vendedor', jti: 'other', iat: now() - 10 })).toBe(false);
+  });
+
+  it('should accept a token from a login in the same second as a logout-all', async () => {
+    // Arrange
+    jest.spyOn(Date, 'now').mockReturnValue(1_760_000_000_400);
+
+    // Act
+    await denylist.revokeAllForUser(1);
+
+    // Assert
+    expect(await denylist.isRevoked({ id: 1, email: 'a@b.com', rol: 'admin', jti: 'old', iat: 1_760_000_000, iatMs: 1_760_000_000_200 })).toBe(true);
+    expect(await denylist.isRevoked({ id: 1, email: 'a@b.com', rol: 'admin', jti: 'new', iat: 1_760_000_000, iatMs: 1_760_000_000_600 })).toBe(false);
+    // Without iatMs the second of the cutoff is all that is known
+    expect(await denylist.isRevoked({ id: 1, email: 'a@b.com', rol: 'admin', jti: 'legacy', iat: 1_760_000_000 })).toBe(true);
+  });
+
+  it('should use a pluggable store', async () => {
+    // Arrange
+    const store = { set: jest.fn().mockResolvedValue(undefined), get: jest.fn().mockResolvedValue(null) };
+    denylist.setStore(store);
+
+    // Act
+    await denylist.revokeToken('jti-1', now() + 60);
+
+    // Assert
+    expect(store.set).toHaveBeenCalledWith('jti:jti-1', expect.any(Number), expect.any(Number));
+  });
+});
@@ -6,8 +6,8 @@ config({ path: '.env.test' });
 
 // Set test environment variables
 process.env.NODE_ENV = 'test';
-process.env.JWT_SECRET = 'test-jwt-secret';
-process.env.JWT_REFRESH_SECRET = 'test-jwt-refresh-secret';
+process.env.JWT_SECRET = 'test-jwt-secret-at-least-32-characters';
+process.env.JWT_REFRESH_SECRET = 'test-jwt-refresh-secret-at-least-32-characters';
 process.env.JWT_EXPIRES_IN = '1h';
 process.env.JWT_REFRESH_EXPIRES_IN = '7d';
 
@@ -84,6 +84,9 @@ jest.mock('sequelize', () => {
       iRegexp: Symbol('iRegexp'),
       notIRegexp: Symbol('notIRegexp'),
     },
+    QueryTypes: {
+      SELECT: 'SELECT',
+    },
   };
 });
 
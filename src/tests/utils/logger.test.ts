@@ -0,0 +1,47 @@
+import { LogEntry, Logger, redact, requestContext } from '../../utils/logger';
+
+describe('Logger', () => {
+  let entries: LogEntry[];
+
+  beforeEach(() => {
+    entries = [];
+    Logger.configure({ level: 'info', sink: (line) => entries.push(JSON.parse(line)) });
+  });
+
+  it('should write JSON lines at or above the configured level', () => {
+    // Act
+    Logger.debug('Hidden');
+    Logger.info('Pedido created:', { pedidoId: 7 });
+    Logger.error('Failed', new Error('boom'));
+
+    // Assert
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ level: 'info', message: 'Pedido created', data: { pedidoId: 7 } });
+    expect(entries[1]).toMatchObject({ level: 'error', error: { name: 'Error', message: 'boom' } });
+  });
+
+  it('should tag lines written inside a request context with its id', () => {
+    requestContext.run({ requestId: 'req-123' }, () => Logger.warn('Inside'));
+    Logger.warn('Outside');
+
+    expect(entries[0].requestId).toBe('req-123');
+    expect(entries[1].requestId).toBeUndefined();
+  });
+
+  it('should redact sensitive fields at any depth', () => {
+    const circular: any = { email: 'a@b.co', password: 'secret1' };
+    circular.self = circular;
+
+    expect(redact({
+      user: circular,
+      tokens: { accessToken: 'x', refreshToken: 'y' },
+      keys: [{ privateKey: 'pem', id: 'k1' }],
+      headers: { authorization: 'Bearer z' }
+    })).toEqual({
+      user: { email: 'a@b.co', password: '[REDACTED]', self: '[Truncated]' },
+      tokens: '[REDACTED]',
+      keys: [{ privateKey: '[REDACTED]', id: 'k1' }],
+      headers: { authorization: '[REDACTED]' }
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { MetricsRegistry } from '../../utils/metrics';
+
+describe('MetricsRegistry', () => {
+  it('should render counters and gauges in Prometheus text format', () => {
+    // Arrange
+    const registry = new MetricsRegistry();
+    const logins = registry.counter('logins_total', 'Login attempts', ['result']);
+    const pool = registry.gauge('pool_connections', 'Pool connections', ['state'])
+      .collectWith(gauge => gauge.set({ state: 'using' }, 3));
+
+    // Act
+    logins.inc({ result: 'success' });
+    logins.inc({ result: 'success' }, 2);
+    logins.inc({ result: 'bad "quoted"\nvalue' });
+
+    // Assert
+    expect(registry.render()).toBe([
+      '# HELP logins_total Login attempts',
+      '# TYPE logins_total counter',
+      'logins_total{result="success"} 3',
+      'logins_total{result="bad \\"quoted\\"\\nvalue"} 1',
+      '# HELP pool_connections Pool connections',
+      '# TYPE pool_connections gauge',
+      'pool_connections{state="using"} 3',
+      ''
+    ].join('\n'));
+    expect(pool.get({ state: 'using' })).toBe(3);
+  });
+
+  it('should render histograms with cumulative buckets, sum and count', () => {
+    // Arrange
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('latency_seconds', 'Latency', ['route'], [0.1, 1]);
+
+    // Act
+    latency.observe({ route: '/api/pedidos/:id' }, 0.05);
+    latency.observe({ route: '/api/pedidos/:id' }, 0.5);
+    latency.observe({ route: '/api/pedidos/:id' }, 3);
+
+    // Assert
+    expect(registry.render().split('\n')).toEqual(expect.arrayContaining([
+      'latency_seconds_bucket{route="/api/pedidos/:id",le="0.1"} 1',
+      'latency_seconds_bucket{route="/api/pedidos/:id",le="1"} 2',
+      'latency_seconds_bucket{route="/api/pedidos/:id",le="+Inf"} 3',
+      'latency_seconds_sum{route="/api/pedidos/:id"} 3.55',
+      'latency_seconds_count{route="/api/pedidos/:id"} 3'
+    ]));
+  });
+
+  it('should reject unknown labels, decreasing counters and duplicate names', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('events_total', 'Events', ['kind']);
+
+    expect(() => counter.inc({ other: 'x' })).toThrow('Unknown label for events_total: other');
+    expect(() => counter.inc({ kind: 'a' }, -1)).toThrow('cannot decrease');
+    expect(() => registry.gauge('events_total', 'Again')).toThrow('Metric already registered');
+  });
+});
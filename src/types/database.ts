@@ -11,5 +11,5 @@ export interface BaseDAO<T> {
 export interface DatabaseConnection {
   connect(): Promise<void>;
   disconnect(): Promise<void>;
-  sync(force?: boolean): Promise<void>;
+  migrate(): Promise<string[]>;
 }
@@ -1,23 +1,5 @@
 // Utility functions
-export class Logger {
-  static info(message: string, data?: any): void {
-    console.log(`[INFO] ${new Date().toISOString()} - ${message}`, data || '');
-  }
-
-  static error(message: string, error?: any): void {
-    console.error(`[ERROR] ${new Date().toISOString()} - ${message}`, error || '');
-  }
-
-  static warn(message: string, data?: any): void {
-    console.warn(`[WARN] ${new Date().toISOString()} - ${message}`, data || '');
-  }
-
-  static debug(message: string, data?: any): void {
-    if (process.env.NODE_ENV === 'development') {
-      console.debug(`[DEBUG] ${new Date().toISOString()} - ${message}`, data || '');
-    }
-  }
-}
+export { Logger } from './logger';
 
 // Response helper
 export class ResponseHelper {
@@ -37,6 +19,24 @@ export class ResponseHelper {
     });
   }
 
+  static paginated<T>(
+    res: any,
+    key: string,
+    items: T[],
+    pagination: {
+      limit: number;
+      page?: number;
+      total?: number;
+      totalPages?: number;
+      nextCursor?: string | null;
+      prevCursor?: string | null;
+      hasMore?: boolean;
+    },
+    message?: string
+  ): void {
+    this.success(res, { [key]: items, pagination }, message);
+  }
+
   static validationError(res: any, message: string, errors?: any): void {
     res.status(400).json({
       success: false,
@@ -53,6 +53,14 @@ export class ResponseHelper {
     });
   }
 
+  static conflict(res: any, message: string, errors?: any): void {
+    res.status(409).json({
+      success: false,
+      message,
+      errors
+    });
+  }
+
   static unauthorized(res: any, message: string): void {
     res.status(401).json({
       success: false,
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from '../config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * One log line, written as a single JSON object
+ */
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  requestId?: string;
+  data?: unknown;
+  error?: unknown;
+}
+
+/**
+ * Destination for formatted log lines
+ */
+export type LogSink = (line: string, entry: LogEntry) => void;
+
+/**
+ * Per-request values every log line written while handling the request carries
+ */
+export interface RequestContext {
+  requestId: string;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+const LEVELS: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+// Keys whose values never reach a log line
+const SENSITIVE_KEY = /password|passwd|^pass$|token|secret|authorization|cookie|private_?key|aes_?key|api_?key/i;
+
+const MAX_DEPTH = 8;
+
+/**
+ * Info and debug go to stdout, warnings and errors to stderr
+ */
+export const consoleSink: LogSink = (line, entry) => {
+  (LEVELS[entry.level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+/**
+ * Append every line to a file
+ */
+export function fileSink(file: string): LogSink {
+  const stream = fs.createWriteStream(file, { flags: 'a' });
+  return (line) => {
+    stream.write(`${line}\n`);
+  };
+}
+
+/**
+ * Request id of the request being handled, if any
+ */
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Copy of a value that is safe to log: sensitive keys are masked, errors and models
+ * are turned into plain objects and cycles are cut
+ */
+export function redact(value: unknown, depth: number = 0, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const { name, message, stack, ...extra } = value as Error & Record<string, unknown>;
+    return { name, message, ...(redact(extra, depth + 1, seen) as object), stack };
+  }
+
+  // Sequelize instances and other objects with their own serialization
+  if (typeof (value as any).toJSON === 'function') {
+    return redact((value as any).toJSON(), depth + 1, seen);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEY.test(key) ? '[REDACTED]' : redact(item, depth + 1, seen);
+  }
+  return result;
+}
+
+/**
+ * Structured JSON logger
+ * Lines below the configured level are dropped; the request id of the current request,
+ * if any, is added to every line.
+ */
+export class Logger {
+  private static level: LogLevel | 'silent' = config.logging.level;
+  private static sink: LogSink = config.logging.file ? fileSink(config.logging.file) : consoleSink;
+
+  static configure(options: { level?: LogLevel | 'silent'; sink?: LogSink }): void {
+    Logger.level = options.level ?? Logger.level;
+    Logger.sink = options.sink ?? Logger.sink;
+  }
+
+  static debug(message: string, data?: any): void {
+    Logger.write('debug', message, data);
+  }
+
+  static info(message: string, data?: any): void {
+    Logger.write('info', message, data);
+  }
+
+  static warn(message: string, data?: any): void {
+    Logger.write('warn', message, data);
+  }
+
+  static error(message: string, error?: any): void {
+    Logger.write('error', message, error);
+  }
+
+  private static write(level: LogLevel, message: string, data: unknown): void {
+    if (LEVELS[level] < LEVELS[Logger.level]) {
+      return;
+    }
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      // Messages used to end with ':' before the data argument
+      message: message.replace(/:\s*$/, '')
+    };
+
+    const requestId = getRequestId();
+    if (requestId) {
+      entry.requestId = requestId;
+    }
+
+    if (data instanceof Error) {
+      entry.error = redact(data);
+    } else if (data !== undefined && data !== '') {
+      entry.data = redact(data);
+    }
+
+    try {
+      Logger.sink(JSON.stringify(entry), entry);
+    } catch {
+      // Logging must never take the request down with it
+    }
+  }
+}
@@ -0,0 +1,333 @@
+export type MetricLabels = Record<string, string | number>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+// Request and query latencies, in seconds
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(names: readonly string[], values: readonly string[]): string {
+  if (names.length === 0) {
+    return '';
+  }
+  return `{${names.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+/**
+ * Series of one metric, keyed by their label values
+ */
+abstract class Metric<T> {
+  protected series = new Map<string, { labels: string[]; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[],
+    readonly type: MetricType
+  ) {
+    if (!METRIC_NAME.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`);
+    }
+    for (const label of labelNames) {
+      if (!LABEL_NAME.test(label) || label === 'le') {
+        throw new Error(`Invalid label name for ${name}: ${label}`);
+      }
+    }
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  /**
+   * Exposition lines for the HELP and TYPE header and every series
+   */
+  render(): string[] {
+    const help = this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    const lines = [`# HELP ${this.name} ${help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  protected abstract initial(): T;
+
+  protected abstract renderSeries(labels: string[], value: T): string[];
+
+  /**
+   * The series for these labels, created on first use; unknown labels are an error
+   */
+  protected seriesFor(labels: MetricLabels): { labels: string[]; value: T } {
+    for (const label of Object.keys(labels)) {
+      if (!this.labelNames.includes(label)) {
+        throw new Error(`Unknown label for ${this.name}: ${label}`);
+      }
+    }
+
+    const values = this.labelNames.map(label => String(labels[label] ?? ''));
+    const key = JSON.stringify(values);
+
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: values, value: this.initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+/**
+ * Value that only goes up, e.g. requests served
+ */
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    super(name, help, labelNames, 'counter');
+  }
+
+  inc(labels: MetricLabels = {}, amount: number = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    this.seriesFor(labels).value += amount;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.seriesFor(labels).value;
+  }
+
+  protected initial(): number {
+    return 0;
+  }
+
+  protected renderSeries(labels: string[], value: number): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(value)}`];
+  }
+}
+
+/**
+ * Value that goes up and down, e.g. connections in use
+ * A collector, if set, refreshes the values right before every scrape.
+ */
+export class Gauge extends Metric<number> {
+  private collector?: (gauge: Gauge) => void;
+
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    super(name, help, labelNames, 'gauge');
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    this.seriesFor(labels).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, amount: number = 1): void {
+    this.seriesFor(labels).value += amount;
+  }
+
+  dec(labels: MetricLabels = {}, amount: number = 1): void {
+    this.seriesFor(labels).value -= amount;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.seriesFor(labels).value;
+  }
+
+  collectWith(collector: (gauge: Gauge) => void): this {
+    this.collector = collector;
+    return this;
+  }
+
+  render(): string[] {
+    this.collector?.(this);
+    return super.render();
+  }
+
+  protected initial(): number {
+    return 0;
+  }
+
+  protected renderSeries(labels: string[], value: number): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramValue {
+  // Observations per bucket, not cumulative; the last slot is +Inf
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values, e.g. latencies, in cumulative buckets
+ */
+export class Histogram extends Metric<HistogramValue> {
+  readonly buckets: readonly number[];
+
+  constructor(name: string, help: string, labelNames: readonly string[] = [], buckets: readonly number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames, 'histogram');
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.seriesFor(labels).value;
+    const index = this.buckets.findIndex(bound => value <= bound);
+
+    series.buckets[index === -1 ? this.buckets.length : index] += 1;
+    series.sum += value;
+    series.count += 1;
+  }
+
+  /**
+   * Start a timer; calling the returned function observes the elapsed seconds
+   */
+  startTimer(labels: MetricLabels = {}): (extraLabels?: MetricLabels) => number {
+    const start = process.hrtime.bigint();
+    return (extraLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  protected initial(): HistogramValue {
+    return { buckets: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+  }
+
+  protected renderSeries(labels: string[], value: HistogramValue): string[] {
+    const names = [...this.labelNames, 'le'];
+    const lines: string[] = [];
+
+    let cumulative = 0;
+    this.buckets.forEach((bound, i) => {
+      cumulative += value.buckets[i];
+      lines.push(`${this.name}_bucket${formatLabels(names, [...labels, formatValue(bound)])} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels(names, [...labels, '+Inf'])} ${value.count}`);
+
+    const plain = formatLabels(this.labelNames, labels);
+    lines.push(`${this.name}_sum${plain} ${formatValue(value.sum)}`);
+    lines.push(`${this.name}_count${plain} ${value.count}`);
+    return lines;
+  }
+}
+
+/**
+ * In-process metrics registry rendered in the Prometheus text exposition format
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<unknown>>();
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Every metric in registration order, one line each, ending with a newline
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(...metric.render());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Drop every recorded series, keeping the metrics registered
+   */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  private register<T extends Metric<any>>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+export const httpRequestsTotal = metrics.counter(
+  'sportsline_http_requests_total',
+  'HTTP requests served, by method, route template and status code',
+  ['method', 'route', 'status']
+);
+
+export const httpRequestDuration = metrics.histogram(
+  'sportsline_http_request_duration_seconds',
+  'HTTP request latency in seconds, by method, route template and status code',
+  ['method', 'route', 'status']
+);
+
+export const dbQueryDuration = metrics.histogram(
+  'sportsline_db_query_duration_seconds',
+  'Database query duration in seconds, by query type',
+  ['type']
+);
+
+export const dbPoolConnections = metrics.gauge(
+  'sportsline_db_pool_connections',
+  'Sequelize connection pool: connections in use, idle, total and the configured maximum',
+  ['state']
+);
+
+export const dbPoolWaiting = metrics.gauge(
+  'sportsline_db_pool_waiting_requests',
+  'Queries waiting for a connection from the pool'
+);
+
+export const loginAttemptsTotal = metrics.counter(
+  'sportsline_auth_login_attempts_total',
+  'Login attempts, by result: success, unknown_email or invalid_password',
+  ['result']
+);
+
+export const pedidosCreatedTotal = metrics.counter(
+  'sportsline_pedidos_created_total',
+  'Pedidos created, by their estado at creation',
+  ['estado']
+);
+
+export const stockOutsTotal = metrics.counter(
+  'sportsline_stock_outs_total',
+  'Stock operations rejected for insufficient available stock, by operation',
+  ['operation']
+);
+
+export const rateLimitedTotal = metrics.counter(
+  'sportsline_rate_limited_requests_total',
+  'Requests rejected by a rate limit policy',
+  ['policy']
+);